@@ -0,0 +1,76 @@
+// Service worker for the capture stations: keeps the app shell available so
+// the capture page loads (and queues photos in IndexedDB) while offline.
+// Supabase requests are never cached; the capture queue handles those.
+
+// Registered as /sw.js?v=<build version>, so each deploy gets its own cache
+const VERSION = new URL(self.location.href).searchParams.get('v') || 'dev';
+const CACHE_NAME = `badge-capture-${VERSION}`;
+const SHELL_URLS = ['/', '/index.html', '/favicon.ico', '/placeholder.svg'];
+
+// Every file of the build (see precacheManifest in vite.config.ts), cached
+// at install: on the first visit the bundle loads before the worker is in
+// control, so nothing of it would be cached for an offline reload otherwise
+const precacheUrls = () => {
+  return fetch('/precache-manifest.json', { cache: 'no-store' })
+    .then((response) => {
+      if (!response.ok) throw new Error(`Precache manifest HTTP ${response.status}`);
+      return response.json();
+    })
+    .then((urls) => SHELL_URLS.concat(urls));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([caches.open(CACHE_NAME), precacheUrls()])
+      .then(([cache, urls]) => cache.addAll(urls))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+
+  // Pages: network first so deploys are picked up, cached shell when offline.
+  // Every route (/, /e/:slug, /lista...) is served by the same index.html.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put('/index.html', copy));
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Hashed build assets never change: cache first, fill the cache on first use
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      if (cached) return cached;
+      return fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
@@ -0,0 +1,206 @@
+#!/usr/bin/env node
+// Local print agent for thermal label printers.
+//
+// Browsers can't open raw sockets, so the management list posts label bytes
+// here and the agent forwards them to the printer, over raw TCP (port 9100,
+// "JetDirect") or as an IPP Print-Job (port 631). It only listens on this
+// computer, and only the configured sites may send it jobs for the
+// configured printers, so a web page can't use it to reach other hosts on
+// the network. No dependencies, run it with:
+//
+//   PRINT_AGENT_ALLOWED_HOSTS=192.168.1.50 PRINT_AGENT_ORIGINS=https://badges.example.com npm run print-agent
+//
+// Environment:
+//   PRINT_AGENT_PORT           port to listen on (default 9101)
+//   PRINT_AGENT_ALLOWED_HOSTS  comma-separated printer hosts the agent may
+//                              reach (required)
+//   PRINT_AGENT_ORIGINS        comma-separated browser origins allowed to
+//                              use the agent; when empty, no site can
+
+import http from "node:http";
+import net from "node:net";
+
+const PORT = Number(process.env.PRINT_AGENT_PORT) || 9101;
+const LISTEN_HOST = "127.0.0.1";
+const TIMEOUT_MS = 15000;
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const list = (value) => (value || "").split(",").map((item) => item.trim()).filter(Boolean);
+const allowedHosts = list(process.env.PRINT_AGENT_ALLOWED_HOSTS);
+const allowedOrigins = list(process.env.PRINT_AGENT_ORIGINS);
+
+// The printer port of each protocol; jobs can't be sent anywhere else
+const PRINTER_PORTS = { raw: 9100, ipp: 631 };
+
+if (allowedHosts.length === 0) {
+  console.error("Set PRINT_AGENT_ALLOWED_HOSTS to the printer hosts the agent may reach.");
+  process.exit(1);
+}
+
+const sendRaw = (host, port, data) => new Promise((resolve, reject) => {
+  const socket = net.createConnection({ host, port });
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error(`Sem resposta de ${host}:${port}`)));
+  socket.on("error", reject);
+  socket.on("connect", () => socket.end(data));
+  socket.on("close", (hadError) => !hadError && resolve());
+});
+
+// Minimal IPP/1.1 Print-Job request (RFC 8011) carrying the label as raw data
+const ippPrintJob = (printerUri, data) => {
+  const parts = [Buffer.from([0x01, 0x01, 0x00, 0x02, 0x00, 0x00, 0x00, 0x01, 0x01])];
+  const attribute = (tag, name, value) => {
+    const nameBytes = Buffer.from(name);
+    const valueBytes = Buffer.from(value);
+    const header = Buffer.alloc(3);
+    header.writeUInt8(tag, 0);
+    header.writeUInt16BE(nameBytes.length, 1);
+    parts.push(header, nameBytes);
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(valueBytes.length, 0);
+    parts.push(length, valueBytes);
+  };
+
+  attribute(0x47, "attributes-charset", "utf-8");
+  attribute(0x48, "attributes-natural-language", "en");
+  attribute(0x45, "printer-uri", printerUri);
+  attribute(0x42, "requesting-user-name", "badge-print-agent");
+  attribute(0x49, "document-format", "application/octet-stream");
+  parts.push(Buffer.from([0x03]), data);
+  return Buffer.concat(parts);
+};
+
+const sendIpp = (host, port, path, data) => new Promise((resolve, reject) => {
+  const resource = path.startsWith("/") ? path : `/${path}`;
+  const body = ippPrintJob(`ipp://${host}:${port}${resource}`, data);
+
+  const request = http.request({
+    host,
+    port,
+    path: resource,
+    method: "POST",
+    headers: { "Content-Type": "application/ipp", "Content-Length": body.length },
+    timeout: TIMEOUT_MS,
+  }, (response) => {
+    const chunks = [];
+    response.on("data", (chunk) => chunks.push(chunk));
+    response.on("end", () => {
+      const reply = Buffer.concat(chunks);
+      if (response.statusCode !== 200 || reply.length < 4) {
+        reject(new Error(`IPP: HTTP ${response.statusCode}`));
+        return;
+      }
+      // Status codes below 0x0100 are successful
+      const status = reply.readUInt16BE(2);
+      if (status < 0x0100) resolve();
+      else reject(new Error(`IPP: estado 0x${status.toString(16).padStart(4, "0")}`));
+    });
+  });
+
+  request.on("timeout", () => request.destroy(new Error(`Sem resposta de ${host}:${port}`)));
+  request.on("error", reject);
+  request.end(body);
+});
+
+const readJson = (request) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  request.on("data", (chunk) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error("Pedido demasiado grande"));
+      request.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  request.on("end", () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+    } catch {
+      reject(new Error("JSON inválido"));
+    }
+  });
+  request.on("error", reject);
+});
+
+const isAllowedOrigin = (origin) => allowedOrigins.includes(origin);
+
+const reply = (response, origin, status, body) => {
+  const headers = { "Content-Type": "application/json", Vary: "Origin" };
+  if (isAllowedOrigin(origin)) {
+    Object.assign(headers, {
+      "Access-Control-Allow-Origin": origin,
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type",
+      // Lets the app, served over the internet, reach the agent on this computer
+      "Access-Control-Allow-Private-Network": "true",
+    });
+  }
+  response.writeHead(status, headers);
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const server = http.createServer(async (request, response) => {
+  const origin = request.headers.origin || "";
+
+  if (request.method === "OPTIONS") {
+    reply(response, origin, 204);
+    return;
+  }
+
+  if (request.method === "GET" && request.url === "/health") {
+    reply(response, origin, 200, { ok: true });
+    return;
+  }
+
+  if (request.method !== "POST" || request.url !== "/print") {
+    reply(response, origin, 404, { error: "Não encontrado" });
+    return;
+  }
+
+  // Requests without an Origin come from programs on this computer, not pages
+  if (origin && !isAllowedOrigin(origin)) {
+    reply(response, origin, 403, { error: `Origem ${origin} não permitida` });
+    return;
+  }
+
+  try {
+    const { protocol, host, port, path, data } = await readJson(request);
+
+    if (!host || typeof host !== "string" || !data) {
+      reply(response, origin, 400, { error: "Indique a impressora e os dados" });
+      return;
+    }
+    if (!allowedHosts.includes(host)) {
+      reply(response, origin, 403, { error: `Impressora ${host} não permitida` });
+      return;
+    }
+
+    const kind = protocol || "raw";
+    const printerPort = port === undefined || port === null || port === "" ? PRINTER_PORTS[kind] : Number(port);
+    if (!Object.hasOwn(PRINTER_PORTS, kind) || !Object.values(PRINTER_PORTS).includes(printerPort)) {
+      reply(response, origin, 403, { error: "Só são permitidas as portas 9100 (RAW) e 631 (IPP)" });
+      return;
+    }
+
+    const bytes = Buffer.from(data, "base64");
+    if (kind === "ipp") {
+      await sendIpp(host, printerPort, path || "/ipp/print", bytes);
+    } else {
+      await sendRaw(host, printerPort, bytes);
+    }
+
+    console.log(`${new Date().toISOString()} ${kind} ${host}:${printerPort} ${bytes.length} bytes`);
+    reply(response, origin, 200, { ok: true });
+  } catch (error) {
+    console.error("Print failed:", error);
+    reply(response, origin, 502, { error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, LISTEN_HOST, () => {
+  console.log(`Print agent listening on http://${LISTEN_HOST}:${PORT}`);
+  if (allowedOrigins.length === 0) {
+    console.log("No site can use the agent; set PRINT_AGENT_ORIGINS to the app's origin.");
+  }
+});
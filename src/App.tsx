@@ -6,6 +6,12 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import PhotoListPage from "./pages/PhotoListPage";
+import EventsPage from "./pages/EventsPage";
+import BadgeTemplatesPage from "./pages/BadgeTemplatesPage";
+import AttendeesPage from "./pages/AttendeesPage";
+import AuditPage from "./pages/AuditPage";
+import CaptureStationsPage from "./pages/CaptureStationsPage";
+import PairStationPage from "./pages/PairStationPage";
 
 const queryClient = new QueryClient();
 
@@ -17,7 +23,14 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/e/:slug" element={<Index />} />
           <Route path="/lista" element={<PhotoListPage />} />
+          <Route path="/lista/eventos" element={<EventsPage />} />
+          <Route path="/lista/modelos" element={<BadgeTemplatesPage />} />
+          <Route path="/lista/participantes" element={<AttendeesPage />} />
+          <Route path="/lista/postos" element={<CaptureStationsPage />} />
+          <Route path="/lista/auditoria" element={<AuditPage />} />
+          <Route path="/parear/:code" element={<PairStationPage />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,263 @@
+import { useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, FileSpreadsheet, RefreshCw, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import {
+  guessColumnMapping,
+  importAttendees,
+  mapAttendeeRows,
+  readSpreadsheet,
+  ATTENDEE_FIELDS,
+  type ColumnMapping,
+  type ImportResult,
+  type Spreadsheet,
+} from "@/lib/attendees";
+import { errorMessage, type BulkProgress } from "@/lib/bulk";
+import type { BadgeEvent } from "@/lib/events";
+
+interface AttendeeImportDialogProps {
+  event: BadgeEvent;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NOT_IMPORTED = '__none__';
+const PREVIEW_ROWS = 5;
+
+const AttendeeImportDialog = ({ event, open, onOpenChange }: AttendeeImportDialogProps) => {
+  const queryClient = useQueryClient();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<Spreadsheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [imported, setImported] = useState<ImportResult | null>(null);
+
+  const mapped = useMemo(
+    () => (sheet && mapping && mapping.full_name !== null ? mapAttendeeRows(sheet, mapping, event.id) : null),
+    [sheet, mapping, event.id],
+  );
+  const isImporting = progress !== null && imported === null;
+
+  const reset = () => {
+    setFileName(null);
+    setSheet(null);
+    setMapping(null);
+    setProgress(null);
+    setImported(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (isImporting) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const spreadsheet = await readSpreadsheet(file);
+      if (spreadsheet.rows.length === 0) {
+        throw new Error("O ficheiro não tem linhas de dados");
+      }
+      setFileName(file.name);
+      setSheet(spreadsheet);
+      setMapping(guessColumnMapping(spreadsheet.headers));
+    } catch (error) {
+      console.error('Error reading attendee file:', error);
+      toast({
+        title: "Erro",
+        description: `Não foi possível ler o ficheiro: ${errorMessage(error)}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!mapped || mapped.records.length === 0) return;
+
+    setProgress({ done: 0, total: mapped.records.length });
+    try {
+      const result = await importAttendees(event.id, mapped.records, (done) => setProgress({ done, total: mapped.records.length }));
+      setImported(result);
+    } catch (error) {
+      console.error('Error importing attendees:', error);
+      setProgress(null);
+      toast({
+        title: "Erro",
+        description: `Erro ao importar participantes: ${errorMessage(error)}`,
+        variant: "destructive",
+      });
+    } finally {
+      // Earlier batches may have been saved even when a later one failed
+      await queryClient.invalidateQueries({ queryKey: ['attendees'] });
+    }
+  };
+
+  const withoutId = mapped?.records.filter(record => !record.external_id).length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Importar participantes</DialogTitle>
+          <DialogDescription>
+            Lista de inscritos de {event.name}, em CSV ou Excel (.xlsx). A primeira linha deve ter os nomes das colunas.
+          </DialogDescription>
+        </DialogHeader>
+
+        {imported !== null ? (
+          <div className="py-8 text-center space-y-2">
+            <CheckCircle2 className="w-12 h-12 mx-auto text-primary" />
+            <p className="text-lg font-semibold">
+              {imported.added === 1 ? "1 participante adicionado" : `${imported.added} participantes adicionados`}
+            </p>
+            {imported.updated > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {imported.updated === 1 ? "1 participante já existente atualizado" : `${imported.updated} participantes já existentes atualizados`}
+              </p>
+            )}
+            {mapped && mapped.skipped > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {mapped.skipped === 1 ? "1 linha sem nome ignorada" : `${mapped.skipped} linhas sem nome ignoradas`}
+              </p>
+            )}
+          </div>
+        ) : isImporting ? (
+          <div className="py-8 space-y-2">
+            <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+            <p className="text-sm text-muted-foreground text-center">
+              {progress.done} de {progress.total}
+            </p>
+          </div>
+        ) : !sheet || !mapping ? (
+          <label className="flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed p-12 cursor-pointer hover:bg-muted/50">
+            {isReading ? (
+              <RefreshCw className="w-10 h-10 animate-spin text-muted-foreground" />
+            ) : (
+              <FileSpreadsheet className="w-10 h-10 text-muted-foreground" />
+            )}
+            <span className="font-medium">{isReading ? "A ler ficheiro..." : "Escolher ficheiro"}</span>
+            <input
+              type="file"
+              accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={handleFile}
+              disabled={isReading}
+            />
+          </label>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {fileName} — {sheet.rows.length === 1 ? "1 linha" : `${sheet.rows.length} linhas`}
+            </p>
+
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+              {ATTENDEE_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs">
+                    {label}{!required && <span className="text-muted-foreground"> (opcional)</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field] === null ? NOT_IMPORTED : String(mapping[field])}
+                    onValueChange={(column) => setMapping(prev => ({
+                      ...prev,
+                      [field]: column === NOT_IMPORTED ? null : Number(column),
+                    }))}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IMPORTED}>Não importar</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Coluna ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {mapping.full_name === null ? (
+              <p className="text-sm text-destructive">Escolha a coluna com o nome dos participantes</p>
+            ) : mapped && (
+              <>
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {ATTENDEE_FIELDS.filter(({ field }) => mapping[field] !== null).map(({ field, label }) => (
+                          <TableHead key={field}>{label}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {mapped.records.slice(0, PREVIEW_ROWS).map((record, index) => (
+                        <TableRow key={index}>
+                          {ATTENDEE_FIELDS.filter(({ field }) => mapping[field] !== null).map(({ field }) => (
+                            <TableCell key={field} className="py-2">{record[field] ?? '—'}</TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="text-sm text-muted-foreground space-y-1">
+                  <p>
+                    {mapped.records.length === 1 ? "1 participante a importar" : `${mapped.records.length} participantes a importar`}
+                    {mapped.skipped > 0 && ` — ${mapped.skipped} sem nome serão ignorados`}
+                  </p>
+                  {withoutId > 0 && (
+                    <p>
+                      {withoutId === 1 ? "1 participante não tem" : `${withoutId} participantes não têm`} n.º de registo
+                      e {withoutId === 1 ? "é reconhecido" : "são reconhecidos"} pelo nome e email ao voltar a importar o ficheiro.
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {imported !== null ? (
+            <Button onClick={() => handleOpenChange(false)}>Fechar</Button>
+          ) : (
+            <>
+              {sheet && (
+                <Button variant="outline" onClick={reset} disabled={isImporting}>
+                  Outro ficheiro
+                </Button>
+              )}
+              <Button
+                onClick={handleImport}
+                disabled={!mapped || mapped.records.length === 0 || isImporting}
+              >
+                {isImporting ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                Importar
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AttendeeImportDialog;
@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { RefreshCw, UserCheck, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAttendeeSearch } from "@/hooks/use-attendees";
+import type { AttendeeMatch } from "@/lib/attendees";
+import { cn } from "@/lib/utils";
+
+interface AttendeeLookupProps {
+  id: string;
+  eventId: string | null;
+  // Free text typed so far; also the name saved when no attendee is picked
+  value: string;
+  onChange: (value: string) => void;
+  selected: AttendeeMatch | null;
+  onSelect: (attendee: AttendeeMatch | null) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+const SEARCH_DELAY_MS = 250;
+
+/**
+ * Name field with type-ahead over the event's attendee registry. Accents and
+ * case are ignored. Picking an attendee locks the field until it is cleared;
+ * without a match (walk-ins, offline) the typed name is kept.
+ */
+const AttendeeLookup = ({ id, eventId, value, onChange, selected, onSelect, placeholder, className }: AttendeeLookupProps) => {
+  const [query, setQuery] = useState(value);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(value), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  const { data: matches = [], isFetching } = useAttendeeSearch(selected ? null : eventId, query);
+  const showList = isOpen && !selected && value.trim().length >= 2 && matches.length > 0;
+
+  useEffect(() => {
+    setHighlighted(0);
+  }, [query]);
+
+  const choose = (attendee: AttendeeMatch) => {
+    onSelect(attendee);
+    onChange(attendee.full_name);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showList) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(index => (index + 1) % matches.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(index => (index - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(matches[highlighted]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  if (selected) {
+    return (
+      <div className={cn("flex items-center gap-2 rounded-md border border-primary/50 bg-primary/5 px-3", className)}>
+        <UserCheck className="w-5 h-5 text-primary shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="font-medium truncate">{selected.full_name}</p>
+          {selected.role && <p className="text-xs text-muted-foreground truncate">{selected.role}</p>}
+        </div>
+        <Button
+          type="button"
+          size="icon"
+          variant="ghost"
+          onClick={() => onSelect(null)}
+          title="Escolher outro participante"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        type="text"
+        autoComplete="off"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        // Delay so a click on a suggestion lands before the list closes
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={`${id}-suggestions`}
+        className={className}
+      />
+      {isFetching && (
+        <RefreshCw className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 animate-spin text-muted-foreground" />
+      )}
+      {showList && (
+        <ul
+          id={`${id}-suggestions`}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full overflow-hidden rounded-md border bg-popover shadow-lg"
+        >
+          {matches.map((attendee, index) => (
+            <li
+              key={attendee.id}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(attendee)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                "cursor-pointer px-3 py-2",
+                index === highlighted && "bg-accent text-accent-foreground",
+              )}
+            >
+              <p className="font-medium">{attendee.full_name}</p>
+              {attendee.role && (
+                <p className="text-xs text-muted-foreground">{attendee.role}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AttendeeLookup;
@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { RefreshCw, Search, Trash2, Upload, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import AttendeeImportDialog from "@/components/AttendeeImportDialog";
+import EventPicker from "@/components/EventPicker";
+import ManagementNav from "@/components/ManagementNav";
+import { toast } from "@/hooks/use-toast";
+import { useAttendees } from "@/hooks/use-attendees";
+import { useSelectedEvent } from "@/hooks/use-events";
+import { supabase } from "@/integrations/supabase/client";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const AttendeeManager = () => {
+  const queryClient = useQueryClient();
+  const { event, events, setEventSlug } = useSelectedEvent();
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [confirmClear, setConfirmClear] = useState(false);
+  const { data, isLoading, isFetching } = useAttendees(event?.id ?? null, search);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Photos keep their name and role; only the link to the registry is lost
+  const handleClear = async () => {
+    if (!event) return;
+
+    try {
+      const { error } = await supabase
+        .from('attendees')
+        .delete()
+        .eq('event_id', event.id);
+
+      if (error) {
+        throw error;
+      }
+
+      await queryClient.invalidateQueries({ queryKey: ['attendees'] });
+      toast({
+        title: "Lista apagada",
+        description: event.name,
+      });
+    } catch (error) {
+      console.error('Error deleting attendees:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao apagar a lista de participantes",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const attendees = data?.attendees ?? [];
+  const total = data?.total ?? 0;
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto">
+        <ManagementNav />
+
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              Participantes
+            </h1>
+            <p className="text-lg text-muted-foreground">
+              Lista de inscritos pesquisada nos tablets ao escrever o nome
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <EventPicker events={events} value={event} onChange={setEventSlug} allLabel="Escolher evento" />
+            <Button onClick={() => setIsImportOpen(true)} size="lg" className="h-12" disabled={!event}>
+              <Upload className="w-5 h-5 mr-2" />
+              Importar
+            </Button>
+          </div>
+        </div>
+
+        {!event ? (
+          <Card className="p-12">
+            <div className="text-center">
+              <Users className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+              <h2 className="text-xl font-semibold mb-2">Escolha um evento</h2>
+              <p className="text-muted-foreground">
+                Cada evento tem a sua própria lista de participantes
+              </p>
+            </div>
+          </Card>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-4 gap-4">
+              <div className="relative flex-1 max-w-md">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                <Input
+                  placeholder="Pesquisar por nome, função, empresa ou email..."
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-sm text-muted-foreground">
+                  {isFetching && <RefreshCw className="inline w-4 h-4 mr-1 animate-spin" />}
+                  {total === 1 ? "1 participante" : `${total} participantes`}
+                  {total > attendees.length && ` (a mostrar ${attendees.length})`}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setConfirmClear(true)}
+                  disabled={total === 0 || !!search}
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Apagar lista
+                </Button>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="text-center py-12">
+                <RefreshCw className="w-8 h-8 mx-auto animate-spin text-primary mb-4" />
+                <p className="text-lg text-muted-foreground">A carregar participantes...</p>
+              </div>
+            ) : attendees.length === 0 ? (
+              <Card className="p-12">
+                <div className="text-center">
+                  <Users className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+                  <h2 className="text-xl font-semibold mb-2">
+                    {search ? "Nenhum participante encontrado" : "Nenhum participante importado"}
+                  </h2>
+                  <p className="text-muted-foreground">
+                    {search
+                      ? "Tente outra pesquisa"
+                      : "Importe a lista de inscritos em CSV ou Excel para pesquisar os nomes na captura"}
+                  </p>
+                </div>
+              </Card>
+            ) : (
+              <Card>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Nome</TableHead>
+                      <TableHead>Função</TableHead>
+                      <TableHead>Empresa</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>N.º de registo</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {attendees.map(attendee => (
+                      <TableRow key={attendee.id}>
+                        <TableCell className="font-medium">{attendee.full_name}</TableCell>
+                        <TableCell>{attendee.role ?? '—'}</TableCell>
+                        <TableCell>{attendee.company ?? '—'}</TableCell>
+                        <TableCell>{attendee.email ?? '—'}</TableCell>
+                        <TableCell className="font-mono text-xs">{attendee.external_id ?? '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+
+      {event && (
+        <AttendeeImportDialog event={event} open={isImportOpen} onOpenChange={setIsImportOpen} />
+      )}
+
+      <AlertDialog open={confirmClear} onOpenChange={setConfirmClear}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Apagar a lista de participantes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {total === 1 ? "1 participante será apagado" : `${total} participantes serão apagados`} de {event?.name}.
+              As fotos já tiradas mantêm o nome e a função.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleClear}>Apagar</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AttendeeManager;
@@ -0,0 +1,300 @@
+import { Fragment, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, FileSpreadsheet, RefreshCw, ScrollText, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ManagementNav from "@/components/ManagementNav";
+import { toast } from "@/hooks/use-toast";
+import { fetchAllAuditEvents, useAuditEvents, type AuditFilters } from "@/hooks/use-audit-events";
+import { AUDIT_ACTION_LABELS, auditActionLabel, changedFields, type AuditAction, type AuditEvent } from "@/lib/audit";
+import { toCsv } from "@/lib/csv";
+import { downloadBlob } from "@/lib/download";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const EMPTY_FILTERS: AuditFilters = { action: 'all', actor: '', photoId: '', from: null, to: null };
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('pt-PT', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+};
+
+const formatJson = (value: unknown) => (value === null || value === undefined ? '' : JSON.stringify(value));
+
+const actorLabel = (event: AuditEvent) => {
+  if (event.actor_email) return event.actor_email;
+  return event.actor_id ? `ID ${event.actor_id.slice(-8)}` : 'Posto de captura';
+};
+
+const AuditLog = () => {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  // Typed text; applied once the user stops typing
+  const [actorInput, setActorInput] = useState('');
+  const [photoIdInput, setPhotoIdInput] = useState('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const { data, isLoading, isError, isFetching, refetch, fetchNextPage, hasNextPage, isFetchingNextPage } = useAuditEvents(filters);
+
+  const events = data?.pages.flatMap(page => page.events) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+  const hasFilters = filters.action !== 'all' || !!filters.actor || !!filters.photoId || !!filters.from || !!filters.to;
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => ({ ...prev, actor: actorInput.trim(), photoId: photoIdInput.trim() }));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [actorInput, photoIdInput]);
+
+  useEffect(() => {
+    if (isError) {
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar o registo de auditoria",
+        variant: "destructive",
+      });
+    }
+  }, [isError]);
+
+  const clearFilters = () => {
+    setActorInput('');
+    setPhotoIdInput('');
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const handleExportCsv = async () => {
+    setIsExporting(true);
+    try {
+      const rows = await fetchAllAuditEvents(filters);
+      const csv = toCsv(rows, [
+        { header: 'data', value: event => event.occurred_at },
+        { header: 'acao', value: event => event.action },
+        { header: 'utilizador', value: event => event.actor_email ?? event.actor_id },
+        { header: 'posto', value: event => event.station_id },
+        { header: 'dispositivo', value: event => event.device },
+        { header: 'foto', value: event => event.photo_id },
+        { header: 'antes', value: event => formatJson(event.before) },
+        { header: 'depois', value: event => formatJson(event.after) },
+      ]);
+      downloadBlob(csv, `auditoria_${new Date().toISOString().slice(0, 10)}.csv`);
+      toast({
+        title: "CSV exportado",
+        description: rows.length < total
+          ? `Apenas as primeiras ${rows.length} entradas foram exportadas`
+          : `${rows.length} entradas exportadas`,
+      });
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao exportar o registo de auditoria",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto">
+        <ManagementNav />
+
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              Auditoria
+            </h1>
+            <p className="text-lg text-muted-foreground">
+              Quem alterou, descarregou ou abriu cada foto
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={() => refetch()} variant="outline" size="lg" className="h-12">
+              <RefreshCw className={`w-5 h-5 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+              Atualizar
+            </Button>
+            <Button onClick={handleExportCsv} size="lg" className="h-12" disabled={isExporting || total === 0}>
+              <FileSpreadsheet className="w-5 h-5 mr-2" />
+              {isExporting ? "A exportar..." : "Exportar CSV"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="mb-6 flex flex-wrap items-center gap-3 text-sm">
+          <Select
+            value={filters.action}
+            onValueChange={(value) => setFilters(prev => ({ ...prev, action: value as AuditFilters['action'] }))}
+          >
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas as ações</SelectItem>
+              {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                <SelectItem key={action} value={action}>
+                  {AUDIT_ACTION_LABELS[action]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Email do utilizador"
+            value={actorInput}
+            onChange={(e) => setActorInput(e.target.value)}
+            className="w-56"
+          />
+          <Input
+            placeholder="ID completo da foto"
+            value={photoIdInput}
+            onChange={(e) => setPhotoIdInput(e.target.value)}
+            className="w-80 font-mono"
+          />
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">De</span>
+            <Input
+              type="date"
+              value={filters.from ?? ''}
+              max={filters.to ?? undefined}
+              onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value || null }))}
+              className="w-auto"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">Até</span>
+            <Input
+              type="date"
+              value={filters.to ?? ''}
+              min={filters.from ?? undefined}
+              onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value || null }))}
+              className="w-auto"
+            />
+          </label>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              <X className="w-4 h-4 mr-1" />
+              Limpar filtros
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <RefreshCw className="w-8 h-8 mx-auto animate-spin text-primary mb-4" />
+            <p className="text-lg text-muted-foreground">A carregar registo...</p>
+          </div>
+        ) : events.length === 0 ? (
+          <Card className="p-12">
+            <div className="text-center">
+              <ScrollText className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+              <h2 className="text-xl font-semibold mb-2">Nenhuma entrada encontrada</h2>
+              <p className="text-muted-foreground">
+                {hasFilters ? 'Tente ajustar os filtros' : 'As ações sobre as fotos aparecerão aqui'}
+              </p>
+            </div>
+          </Card>
+        ) : (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Data</TableHead>
+                  <TableHead>Ação</TableHead>
+                  <TableHead>Utilizador</TableHead>
+                  <TableHead>Posto / dispositivo</TableHead>
+                  <TableHead>Foto</TableHead>
+                  <TableHead>Alterações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map(event => (
+                  <Fragment key={event.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                    >
+                      <TableCell>
+                        {expandedId === event.id
+                          ? <ChevronDown className="w-4 h-4" />
+                          : <ChevronRight className="w-4 h-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDate(event.occurred_at)}</TableCell>
+                      <TableCell>{auditActionLabel(event.action)}</TableCell>
+                      <TableCell>{actorLabel(event)}</TableCell>
+                      <TableCell className="max-w-[220px] truncate text-muted-foreground" title={event.device ?? undefined}>
+                        {event.station_id ? `Posto ${event.station_id.slice(-8)}` : event.device ?? '—'}
+                      </TableCell>
+                      <TableCell>
+                        {event.photo_id && (
+                          <button
+                            type="button"
+                            className="font-mono text-xs underline-offset-2 hover:underline"
+                            title="Ver só esta foto"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setPhotoIdInput(event.photo_id);
+                            }}
+                          >
+                            {event.photo_id.slice(-8)}
+                          </button>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {changedFields(event).join(', ')}
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === event.id && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={6}>
+                          <div className="grid gap-4 md:grid-cols-2">
+                            <div>
+                              <p className="text-xs font-medium text-muted-foreground mb-1">Antes</p>
+                              <pre className="max-h-64 overflow-auto rounded bg-muted p-2 text-xs">
+                                {event.before ? JSON.stringify(event.before, null, 2) : '—'}
+                              </pre>
+                            </div>
+                            <div>
+                              <p className="text-xs font-medium text-muted-foreground mb-1">Depois</p>
+                              <pre className="max-h-64 overflow-auto rounded bg-muted p-2 text-xs">
+                                {event.after ? JSON.stringify(event.after, null, 2) : '—'}
+                              </pre>
+                            </div>
+                          </div>
+                          {event.device && (
+                            <p className="mt-2 text-xs text-muted-foreground break-all">{event.device}</p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex flex-col items-center gap-2 py-6 text-sm text-muted-foreground">
+              <span>{events.length} de {total} entradas</span>
+              {hasNextPage && (
+                <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage ? "A carregar..." : "Carregar mais"}
+                </Button>
+              )}
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
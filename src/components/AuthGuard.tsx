@@ -1,54 +1,228 @@
-import { useState } from "react";
-import { Eye, EyeOff, Lock } from "lucide-react";
+import { useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { AlertTriangle, Eye, EyeOff, Lock, LogOut, Mail, RefreshCw, ShieldAlert } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "@/hooks/use-toast";
+import { StaffContext, type StaffMember, type StaffRole } from "@/hooks/use-staff";
+import { supabase } from "@/integrations/supabase/client";
 
 interface AuthGuardProps {
   children: React.ReactNode;
+  // Restrict the page to one staff role (e.g. admin-only settings)
+  requiredRole?: StaffRole;
 }
 
-// Simple password protection - for production, use proper Supabase auth
-const LIST_PASSWORD = "Bern2025#";
-const PASSWORD = import.meta.env.VITE_LIST_PASSWORD || LIST_PASSWORD;
+type LoginMode = 'password' | 'magic-link';
 
-const AuthGuard = ({ children }: AuthGuardProps) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(() => {
-    return sessionStorage.getItem('list_auth_ok') === '1';
-  });
+const AuthGuard = ({ children, requiredRole }: AuthGuardProps) => {
+  // undefined while the stored session is being restored
+  const [session, setSession] = useState<Session | null | undefined>(undefined);
+  const [staff, setStaff] = useState<StaffMember | null | undefined>(undefined);
+  // The profile couldn't be loaded, which says nothing about access
+  const [staffError, setStaffError] = useState(false);
+  const [staffAttempt, setStaffAttempt] = useState(0);
+  const [mode, setMode] = useState<LoginMode>('password');
+  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+
+  useEffect(() => {
+    // Listener first so no auth event is missed while getSession resolves
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const userId = session?.user.id;
+  const sessionRestored = session !== undefined;
+
+  useEffect(() => {
+    if (!sessionRestored) return;
+    if (!userId) {
+      setStaff(null);
+      setStaffError(false);
+      return;
+    }
+
+    let cancelled = false;
+    setStaff(undefined);
+    setStaffError(false);
+
+    supabase
+      .from('staff')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error loading staff profile:', error);
+          setStaffError(true);
+          return;
+        }
+        setStaff(data ?? null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, sessionRestored, staffAttempt]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
-    // Simulate auth delay
-    await new Promise(resolve => setTimeout(resolve, 500));
+    try {
+      if (mode === 'password') {
+        const { error } = await supabase.auth.signInWithPassword({
+          email: email.trim(),
+          password,
+        });
+        if (error) throw error;
 
-    if (password.trim() === PASSWORD) {
-      setIsAuthenticated(true);
-      sessionStorage.setItem('list_auth_ok', '1');
-      toast({
-        title: "Acesso autorizado",
-        description: "Bem-vindo à área de gestão",
-      });
-    } else {
+        toast({
+          title: "Acesso autorizado",
+          description: "Bem-vindo à área de gestão",
+        });
+      } else {
+        const { error } = await supabase.auth.signInWithOtp({
+          email: email.trim(),
+          options: {
+            // Staff accounts are created by an admin, never on first login
+            shouldCreateUser: false,
+            emailRedirectTo: window.location.href,
+          },
+        });
+        if (error) throw error;
+
+        setMagicLinkSent(true);
+        toast({
+          title: "Link enviado",
+          description: "Verifique o seu email para entrar",
+        });
+      }
+    } catch (error) {
+      console.error('Error signing in:', error);
       toast({
         title: "Erro de autenticação",
-        description: "Senha incorreta",
+        description: mode === 'password'
+          ? "Email ou palavra-passe incorretos"
+          : "Não foi possível enviar o link de acesso",
         variant: "destructive",
       });
+    } finally {
+      setIsLoading(false);
     }
+  };
 
-    setIsLoading(false);
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+    setPassword("");
   };
 
-  if (isAuthenticated) {
-    return <>{children}</>;
+  if (session && staffError) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="w-full max-w-md p-8 text-center">
+          <div className="w-16 h-16 bg-destructive rounded-full flex items-center justify-center mx-auto mb-4">
+            <AlertTriangle className="w-8 h-8 text-destructive-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground mb-2">
+            Erro ao verificar acesso
+          </h1>
+          <p className="text-muted-foreground mb-6">
+            Não foi possível carregar o perfil da equipa. Verifique a ligação e tente novamente.
+          </p>
+          <div className="space-y-2">
+            <Button onClick={() => setStaffAttempt(attempt => attempt + 1)} className="w-full">
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Tentar novamente
+            </Button>
+            <Button onClick={handleSignOut} variant="secondary" className="w-full">
+              <LogOut className="w-4 h-4 mr-2" />
+              Sair
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  if (session === undefined || (session && staff === undefined)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="text-center">
+          <RefreshCw className="w-8 h-8 mx-auto animate-spin text-primary mb-4" />
+          <p className="text-lg text-muted-foreground">A verificar sessão...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (session && staff && requiredRole && staff.role !== requiredRole) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="w-full max-w-md p-8 text-center">
+          <div className="w-16 h-16 bg-destructive rounded-full flex items-center justify-center mx-auto mb-4">
+            <ShieldAlert className="w-8 h-8 text-destructive-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground mb-2">
+            Sem permissões
+          </h1>
+          <p className="text-muted-foreground mb-6">
+            Esta página está disponível apenas para administradores.
+          </p>
+          <Button onClick={() => window.history.back()} variant="secondary" className="w-full">
+            Voltar
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  if (session && staff) {
+    return (
+      <StaffContext.Provider value={{ session, staff }}>
+        {children}
+      </StaffContext.Provider>
+    );
+  }
+
+  if (session && !staff) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="w-full max-w-md p-8 text-center">
+          <div className="w-16 h-16 bg-destructive rounded-full flex items-center justify-center mx-auto mb-4">
+            <ShieldAlert className="w-8 h-8 text-destructive-foreground" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground mb-2">
+            Sem permissões
+          </h1>
+          <p className="text-muted-foreground mb-6">
+            A conta <span className="font-medium">{session.user.email}</span> não pertence à equipa.
+            Peça a um administrador para lhe dar acesso.
+          </p>
+          <Button onClick={handleSignOut} variant="secondary" className="w-full">
+            <LogOut className="w-4 h-4 mr-2" />
+            Sair
+          </Button>
+        </Card>
+      </div>
+    );
   }
 
   return (
@@ -62,46 +236,91 @@ const AuthGuard = ({ children }: AuthGuardProps) => {
             Área Restrita
           </h1>
           <p className="text-muted-foreground">
-            Insira a palavra-passe para aceder à lista de fotos
+            Entre com a sua conta da equipa para aceder à lista de fotos
           </p>
         </div>
 
-        <form onSubmit={handleLogin} className="space-y-6">
-          <div className="space-y-2">
-            <Label htmlFor="password">Palavra-passe</Label>
-            <div className="relative">
+        <Tabs
+          value={mode}
+          onValueChange={(value) => {
+            setMode(value as LoginMode);
+            setMagicLinkSent(false);
+          }}
+          className="mb-6"
+        >
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="password">Palavra-passe</TabsTrigger>
+            <TabsTrigger value="magic-link">Link por email</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {magicLinkSent ? (
+          <div className="text-center space-y-4">
+            <Mail className="w-12 h-12 mx-auto text-primary" />
+            <p className="text-muted-foreground">
+              Enviámos um link de acesso para <span className="font-medium">{email}</span>.
+              Abra-o neste dispositivo para entrar.
+            </p>
+            <Button variant="outline" onClick={() => setMagicLinkSent(false)}>
+              Usar outro email
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleLogin} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
               <Input
-                id="password"
-                type={showPassword ? "text" : "password"}
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="Digite a palavra-passe"
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="nome@exemplo.com"
                 required
-                className="pr-10"
               />
-              <button
-                type="button"
-                onClick={() => setShowPassword(!showPassword)}
-                className="absolute inset-y-0 right-0 flex items-center pr-3"
-              >
-                {showPassword ? (
-                  <EyeOff className="w-4 h-4 text-muted-foreground" />
-                ) : (
-                  <Eye className="w-4 h-4 text-muted-foreground" />
-                )}
-              </button>
             </div>
-          </div>
 
-          <Button
-            type="submit"
-            className="w-full"
-            size="lg"
-            disabled={isLoading}
-          >
-            {isLoading ? "A verificar..." : "Entrar"}
-          </Button>
-        </form>
+            {mode === 'password' && (
+              <div className="space-y-2">
+                <Label htmlFor="password">Palavra-passe</Label>
+                <div className="relative">
+                  <Input
+                    id="password"
+                    type={showPassword ? "text" : "password"}
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Digite a palavra-passe"
+                    required
+                    className="pr-10"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute inset-y-0 right-0 flex items-center pr-3"
+                  >
+                    {showPassword ? (
+                      <EyeOff className="w-4 h-4 text-muted-foreground" />
+                    ) : (
+                      <Eye className="w-4 h-4 text-muted-foreground" />
+                    )}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full"
+              size="lg"
+              disabled={isLoading}
+            >
+              {isLoading
+                ? "A verificar..."
+                : mode === 'password' ? "Entrar" : "Enviar link de acesso"}
+            </Button>
+          </form>
+        )}
 
         <div className="mt-6 text-center">
           <p className="text-xs text-muted-foreground">
@@ -113,4 +332,4 @@ const AuthGuard = ({ children }: AuthGuardProps) => {
   );
 };
 
-export default AuthGuard;
\ No newline at end of file
+export default AuthGuard;
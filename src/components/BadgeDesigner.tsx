@@ -0,0 +1,397 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { History, IdCard, Image as ImageIcon, Plus, RefreshCw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import BadgeDesignerStage from "@/components/BadgeDesignerStage";
+import BadgeElementPanel from "@/components/BadgeElementPanel";
+import BadgeTemplateSettings from "@/components/BadgeTemplateSettings";
+import EventPicker from "@/components/EventPicker";
+import ManagementNav from "@/components/ManagementNav";
+import { toast } from "@/hooks/use-toast";
+import { useSelectedEvent } from "@/hooks/use-events";
+import { useBadgeTemplate, useBadgeTemplateVersions } from "@/hooks/use-badge-templates";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  BADGE_ELEMENT_LABELS,
+  createElement,
+  loadBadgeData,
+  type BadgeData,
+  type BadgeElement,
+  type BadgeElementType,
+  type BadgeTemplate,
+} from "@/lib/badge";
+import { photoLabel, type Photo } from "@/lib/photos";
+
+const SAMPLE_PHOTO = '__sample__';
+const PREVIEW_PHOTO_LIMIT = 24;
+
+const ELEMENT_TYPES = Object.keys(BADGE_ELEMENT_LABELS) as BadgeElementType[];
+
+const sampleData = (eventName: string | null): BadgeData => ({
+  id: '00000000-0000-4000-8000-000000000000',
+  name: 'Maria Fernanda Silva',
+  role: 'Design de Produto',
+  eventName: eventName ?? 'Nome do Evento',
+  photo: null,
+});
+
+const formatVersionDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('pt-PT', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const BadgeDesigner = () => {
+  const queryClient = useQueryClient();
+  const { event, events, setEventSlug } = useSelectedEvent();
+  const eventId = event?.id ?? null;
+  const { data: versions, isLoading: isLoadingVersions } = useBadgeTemplateVersions(eventId);
+  const { data: resolvedTemplate } = useBadgeTemplate(eventId);
+
+  const [draft, setDraft] = useState<BadgeTemplate | null>(null);
+  // Event the draft was loaded for, so switching events reloads it
+  const [draftEventId, setDraftEventId] = useState<string | null | undefined>(undefined);
+  const [isDirty, setIsDirty] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showGuides, setShowGuides] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [previewPhotoId, setPreviewPhotoId] = useState<string>(SAMPLE_PHOTO);
+  const [previewData, setPreviewData] = useState<BadgeData>(() => sampleData(null));
+
+  const latestVersion = versions?.[0]?.version ?? 0;
+
+  const { data: previewPhotos } = useQuery({
+    queryKey: ['photos', 'preview', eventId],
+    queryFn: async (): Promise<Photo[]> => {
+      let query = supabase
+        .from('photos')
+        .select('*')
+        .is('archived_at', null)
+        .order('created_at', { ascending: false })
+        .limit(PREVIEW_PHOTO_LIMIT);
+
+      if (eventId) {
+        query = query.eq('event_id', eventId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  // Start from the latest saved version, or from the template the event
+  // currently falls back to when it has none of its own
+  useEffect(() => {
+    if (draftEventId === eventId || !versions || !resolvedTemplate) return;
+    setDraft(versions[0]?.template ?? resolvedTemplate);
+    setDraftEventId(eventId);
+    setIsDirty(false);
+    setSelectedId(null);
+    setPreviewPhotoId(SAMPLE_PHOTO);
+  }, [eventId, draftEventId, versions, resolvedTemplate]);
+
+  useEffect(() => {
+    const photo = previewPhotos?.find(p => p.id === previewPhotoId);
+    if (!photo) {
+      setPreviewData(sampleData(event?.name ?? null));
+      return;
+    }
+
+    let cancelled = false;
+    loadBadgeData(photo, event)
+      .then(data => {
+        if (!cancelled) setPreviewData(data);
+      })
+      .catch(error => {
+        console.error('Error loading preview photo:', error);
+        toast({
+          title: "Erro",
+          description: "Erro ao carregar a foto de pré-visualização",
+          variant: "destructive",
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previewPhotoId, previewPhotos, event]);
+
+  const updateDraft = (update: (template: BadgeTemplate) => BadgeTemplate) => {
+    setDraft(prev => prev && update(prev));
+    setIsDirty(true);
+  };
+
+  const updateElement = (id: string, patch: Partial<BadgeElement>) => {
+    updateDraft(template => ({
+      ...template,
+      elements: template.elements.map(el => (el.id === id ? { ...el, ...patch } as BadgeElement : el)),
+    }));
+  };
+
+  const addElement = (type: BadgeElementType) => {
+    if (!draft) return;
+    const element = createElement(type, draft);
+    updateDraft(template => ({ ...template, elements: [...template.elements, element] }));
+    setSelectedId(element.id);
+  };
+
+  const removeElement = (id: string) => {
+    updateDraft(template => ({ ...template, elements: template.elements.filter(el => el.id !== id) }));
+    setSelectedId(null);
+  };
+
+  const duplicateElement = (element: BadgeElement) => {
+    const copy = { ...element, id: crypto.randomUUID(), x: element.x + 2, y: element.y + 2 };
+    updateDraft(template => ({ ...template, elements: [...template.elements, copy] }));
+    setSelectedId(copy.id);
+  };
+
+  // Elements are drawn in array order, so moving forward means moving later
+  const moveElement = (id: string, direction: -1 | 1) => {
+    updateDraft(template => {
+      const elements = [...template.elements];
+      const index = elements.findIndex(el => el.id === id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= elements.length) return template;
+      [elements[index], elements[target]] = [elements[target], elements[index]];
+      return { ...template, elements };
+    });
+  };
+
+  const restoreVersion = (id: string) => {
+    const version = versions?.find(v => v.id === id);
+    if (!version) return;
+    setDraft(version.template);
+    setIsDirty(true);
+    setSelectedId(null);
+    toast({
+      title: `Versão ${version.version} carregada`,
+      description: "Guarde para a tornar a versão atual",
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.from('badge_templates').insert({
+        event_id: eventId,
+        version: latestVersion + 1,
+        definition: draft as unknown as Json,
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      await queryClient.invalidateQueries({ queryKey: ['badge-templates'] });
+      setIsDirty(false);
+      toast({
+        title: "Modelo guardado",
+        description: `Versão ${latestVersion + 1}`,
+      });
+    } catch (error) {
+      console.error('Error saving badge template:', error);
+      const conflict = (error as { code?: string }).code === '23505';
+      toast({
+        title: "Erro",
+        description: conflict
+          ? "Outra pessoa guardou uma versão entretanto. Recarregue a página antes de guardar."
+          : "Erro ao guardar o modelo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectedElement = draft?.elements.find(el => el.id === selectedId) ?? null;
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto">
+        <ManagementNav />
+
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              Modelos de Crachá
+            </h1>
+            <p className="text-lg text-muted-foreground">
+              Desenhe o crachá de cada evento, com pré-visualização a partir de fotos reais
+            </p>
+          </div>
+
+          <div className="flex gap-3">
+            <EventPicker events={events} value={event} onChange={setEventSlug} allLabel="Modelo por omissão" />
+
+            <Button onClick={handleSave} size="lg" className="h-12" disabled={!draft || !isDirty || isSaving}>
+              <Save className="w-5 h-5 mr-2" />
+              {isSaving ? "A guardar..." : "Guardar versão"}
+            </Button>
+          </div>
+        </div>
+
+        {!draft || isLoadingVersions ? (
+          <div className="text-center py-12">
+            <RefreshCw className="w-8 h-8 mx-auto animate-spin text-primary mb-4" />
+            <p className="text-lg text-muted-foreground">A carregar modelo...</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[220px_1fr_320px] gap-6 items-start">
+            <Card className="p-4 space-y-4">
+              <div className="space-y-2">
+                <h3 className="font-semibold text-sm">Adicionar</h3>
+                <div className="grid grid-cols-1 gap-1">
+                  {ELEMENT_TYPES.map(type => (
+                    <Button key={type} variant="outline" size="sm" className="justify-start" onClick={() => addElement(type)}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      {BADGE_ELEMENT_LABELS[type]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-semibold text-sm">Camadas</h3>
+                <ul className="space-y-1 text-sm">
+                  {[...draft.elements].reverse().map(element => (
+                    <li key={element.id}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedId(element.id)}
+                        className={`w-full text-left px-2 py-1 rounded ${element.id === selectedId ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+                      >
+                        {BADGE_ELEMENT_LABELS[element.type]}
+                        {element.type === 'text' && element.text && (
+                          <span className="ml-1 opacity-70 truncate">— {element.text}</span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </Card>
+
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <ImageIcon className="w-4 h-4 text-muted-foreground" />
+                  <Select value={previewPhotoId} onValueChange={setPreviewPhotoId}>
+                    <SelectTrigger className="w-56 h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SAMPLE_PHOTO}>Dados de exemplo</SelectItem>
+                      {(previewPhotos ?? []).map(photo => (
+                        <SelectItem key={photo.id} value={photo.id}>{photoLabel(photo)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Switch checked={showGuides} onCheckedChange={setShowGuides} />
+                  Guias
+                </label>
+
+                {versions && versions.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <History className="w-4 h-4 text-muted-foreground" />
+                    <Select value="" onValueChange={restoreVersion}>
+                      <SelectTrigger className="w-56 h-9">
+                        <SelectValue placeholder="Versões anteriores" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map(version => (
+                          <SelectItem key={version.id} value={version.id}>
+                            v{version.version} — {formatVersionDate(version.createdAt)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="ml-auto">
+                  {isDirty ? (
+                    <Badge variant="secondary">Alterações por guardar</Badge>
+                  ) : (
+                    <Badge variant="outline">{latestVersion > 0 ? `Versão ${latestVersion}` : 'Sem versões guardadas'}</Badge>
+                  )}
+                </div>
+              </div>
+
+              <Card className="p-8 bg-muted/40 overflow-auto">
+                <BadgeDesignerStage
+                  template={draft}
+                  data={previewData}
+                  selectedId={selectedId}
+                  onSelect={setSelectedId}
+                  onChangeElement={updateElement}
+                  showGuides={showGuides}
+                />
+              </Card>
+
+              {showGuides && (
+                <div className="flex gap-6 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-2"><span className="w-4 border-t border-red-500" /> Linha de corte</span>
+                  <span className="flex items-center gap-2"><span className="w-4 h-3 bg-red-500/20" /> Sangria ({draft.bleedMm} mm)</span>
+                  <span className="flex items-center gap-2"><span className="w-4 border-t border-dashed border-sky-500" /> Margem segura ({draft.safeMarginMm} mm)</span>
+                </div>
+              )}
+            </div>
+
+            <Card className="p-4">
+              <Tabs value={selectedElement ? 'element' : 'template'} onValueChange={(tab) => tab === 'template' && setSelectedId(null)}>
+                <TabsList className="grid w-full grid-cols-2 mb-4">
+                  <TabsTrigger value="template">
+                    <IdCard className="w-4 h-4 mr-1" />
+                    Crachá
+                  </TabsTrigger>
+                  <TabsTrigger value="element" disabled={!selectedElement}>
+                    Elemento
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="template">
+                  <BadgeTemplateSettings
+                    template={draft}
+                    onChange={(patch) => updateDraft(template => ({ ...template, ...patch }))}
+                  />
+                </TabsContent>
+
+                <TabsContent value="element">
+                  {selectedElement && (
+                    <BadgeElementPanel
+                      element={selectedElement}
+                      template={draft}
+                      onChange={(patch) => updateElement(selectedElement.id, patch)}
+                      onRemove={() => removeElement(selectedElement.id)}
+                      onDuplicate={() => duplicateElement(selectedElement)}
+                      onMove={(direction) => moveElement(selectedElement.id, direction)}
+                    />
+                  )}
+                </TabsContent>
+              </Tabs>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BadgeDesigner;
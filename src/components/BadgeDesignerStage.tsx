@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from "react";
+import { RefreshCw } from "lucide-react";
+import {
+  BADGE_ELEMENT_LABELS,
+  MM_PER_INCH,
+  fullSize,
+  renderBadgeToCanvas,
+  type BadgeData,
+  type BadgeElement,
+  type BadgeTemplate,
+} from "@/lib/badge";
+import { cn } from "@/lib/utils";
+
+type ElementBox = Pick<BadgeElement, 'x' | 'y' | 'width' | 'height'>;
+
+interface BadgeDesignerStageProps {
+  template: BadgeTemplate;
+  data: BadgeData;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onChangeElement: (id: string, box: Partial<ElementBox>) => void;
+  showGuides: boolean;
+}
+
+interface DragState {
+  id: string;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: ElementBox;
+}
+
+// Largest on-screen size of the badge, bleed included
+const STAGE_MAX_WIDTH = 520;
+const STAGE_MAX_HEIGHT = 600;
+const SNAP_MM = 0.5;
+const MIN_SIZE_MM = 2;
+const RENDER_DELAY_MS = 120;
+
+const snap = (value: number) => Math.round(value / SNAP_MM) * SNAP_MM;
+
+/**
+ * Live preview of the template with draggable, resizable element boxes on
+ * top. The preview is the real renderer output, so what you see is exactly
+ * what gets exported.
+ */
+const BadgeDesignerStage = ({
+  template,
+  data,
+  selectedId,
+  onSelect,
+  onChangeElement,
+  showGuides,
+}: BadgeDesignerStageProps) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const full = fullSize(template);
+  const scale = Math.min(STAGE_MAX_WIDTH / full.width, STAGE_MAX_HEIGHT / full.height);
+  const bleed = template.bleedMm;
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const dpi = scale * MM_PER_INCH * (window.devicePixelRatio || 1);
+        const canvas = await renderBadgeToCanvas(template, data, { dpi, includeBleed: true });
+        if (!cancelled) setPreviewUrl(canvas.toDataURL('image/png'));
+      } catch (error) {
+        console.error('Error rendering badge preview:', error);
+      }
+    }, RENDER_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [template, data, scale]);
+
+  const startDrag = (e: React.PointerEvent<HTMLElement>, element: BadgeElement, mode: DragState['mode']) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    onSelect(element.id);
+    dragRef.current = {
+      id: element.id,
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      origin: { x: element.x, y: element.y, width: element.width, height: element.height },
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const dx = (e.clientX - drag.startX) / scale;
+    const dy = (e.clientY - drag.startY) / scale;
+
+    if (drag.mode === 'move') {
+      // Elements may reach into the bleed (e.g. full-width bands) but not beyond
+      onChangeElement(drag.id, {
+        x: Math.min(template.widthMm + bleed - drag.origin.width, Math.max(-bleed, snap(drag.origin.x + dx))),
+        y: Math.min(template.heightMm + bleed - drag.origin.height, Math.max(-bleed, snap(drag.origin.y + dy))),
+      });
+    } else {
+      onChangeElement(drag.id, {
+        width: Math.max(MIN_SIZE_MM, snap(drag.origin.width + dx)),
+        height: Math.max(MIN_SIZE_MM, snap(drag.origin.height + dy)),
+      });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const element = template.elements.find(el => el.id === selectedId);
+    if (!element) return;
+
+    const step = e.shiftKey ? 5 : SNAP_MM;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+    const move = moves[e.key];
+    if (!move) return;
+
+    e.preventDefault();
+    onChangeElement(element.id, { x: snap(element.x + move[0]), y: snap(element.y + move[1]) });
+  };
+
+  return (
+    <div
+      className="relative mx-auto select-none outline-none shadow-lg bg-white"
+      style={{ width: full.width * scale, height: full.height * scale }}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      onPointerDown={() => onSelect(null)}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => { dragRef.current = null; }}
+      onPointerCancel={() => { dragRef.current = null; }}
+    >
+      {previewUrl ? (
+        <img src={previewUrl} alt="Pré-visualização do modelo" className="absolute inset-0 w-full h-full" draggable={false} />
+      ) : (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <RefreshCw className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {showGuides && (
+        <>
+          {/* Bleed: everything outside the trim line is cut off */}
+          <div
+            className="absolute inset-0 pointer-events-none border-red-500/20"
+            style={{ borderWidth: bleed * scale }}
+          />
+          <div
+            className="absolute pointer-events-none border border-red-500"
+            style={{
+              left: bleed * scale,
+              top: bleed * scale,
+              width: template.widthMm * scale,
+              height: template.heightMm * scale,
+            }}
+          />
+          <div
+            className="absolute pointer-events-none border border-dashed border-sky-500"
+            style={{
+              left: (bleed + template.safeMarginMm) * scale,
+              top: (bleed + template.safeMarginMm) * scale,
+              width: (template.widthMm - template.safeMarginMm * 2) * scale,
+              height: (template.heightMm - template.safeMarginMm * 2) * scale,
+            }}
+          />
+        </>
+      )}
+
+      {template.elements.map(element => {
+        const isSelected = element.id === selectedId;
+        return (
+          <div
+            key={element.id}
+            className={cn(
+              "absolute cursor-move border",
+              isSelected ? "border-primary bg-primary/10" : "border-transparent hover:border-primary/50",
+            )}
+            style={{
+              left: (bleed + element.x) * scale,
+              top: (bleed + element.y) * scale,
+              width: element.width * scale,
+              height: element.height * scale,
+            }}
+            onPointerDown={(e) => startDrag(e, element, 'move')}
+            title={BADGE_ELEMENT_LABELS[element.type]}
+          >
+            {isSelected && (
+              <>
+                <span className="absolute -top-5 left-0 text-[10px] px-1 rounded bg-primary text-primary-foreground whitespace-nowrap">
+                  {BADGE_ELEMENT_LABELS[element.type]}
+                </span>
+                <div
+                  className="absolute -right-1.5 -bottom-1.5 w-3 h-3 rounded-sm bg-primary cursor-nwse-resize"
+                  onPointerDown={(e) => startDrag(e, element, 'resize')}
+                />
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BadgeDesignerStage;
@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { ExternalLink, FileDown, ImageDown, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import { useBadgeTemplate } from "@/hooks/use-badge-templates";
+import { logPhotoAction } from "@/lib/audit";
+import {
+  loadBadgeData,
+  renderBadgePdf,
+  renderBadgePng,
+  renderBadgeToCanvas,
+  PRINT_DPI,
+  type BadgeData,
+} from "@/lib/badge";
+import { downloadBlob } from "@/lib/download";
+import type { BadgeEvent } from "@/lib/events";
+import type { Photo } from "@/lib/photos";
+
+interface BadgeDialogProps {
+  // The dialog is open while a photo is set
+  photo: Photo | null;
+  event: BadgeEvent | null;
+  onClose: () => void;
+  onOpenExternal: (photo: Photo) => void;
+}
+
+const PREVIEW_DPI = 150;
+
+const BadgeDialog = ({ photo, event, onClose, onOpenExternal }: BadgeDialogProps) => {
+  const [data, setData] = useState<BadgeData | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // The photo's own event decides the layout, not the list filter
+  const { data: template } = useBadgeTemplate(event?.id ?? null);
+
+  useEffect(() => {
+    if (!photo || !template) return;
+
+    let cancelled = false;
+    setData(null);
+    setPreviewUrl(null);
+    setIsLoading(true);
+
+    (async () => {
+      try {
+        const badgeData = await loadBadgeData(photo, event);
+        const canvas = await renderBadgeToCanvas(template, badgeData, { dpi: PREVIEW_DPI, includeBleed: false });
+        if (cancelled) return;
+        setData(badgeData);
+        setPreviewUrl(canvas.toDataURL('image/png'));
+      } catch (error) {
+        console.error('Error rendering badge:', error);
+        if (!cancelled) {
+          toast({
+            title: "Erro",
+            description: "Erro ao gerar o crachá",
+            variant: "destructive",
+          });
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [photo, event, template]);
+
+  const handleExport = async (format: 'png' | 'pdf') => {
+    if (!photo || !data || !template) return;
+
+    setIsExporting(true);
+    try {
+      const blob = format === 'png'
+        ? await renderBadgePng(template, data, PRINT_DPI)
+        : await renderBadgePdf(template, data);
+      downloadBlob(blob, `cracha_${photo.id}.${format}`);
+      void logPhotoAction('photo_downloaded', [photo.id], { file: `badge_${format}` });
+    } catch (error) {
+      console.error('Error exporting badge:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao exportar o crachá",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!photo} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Crachá</DialogTitle>
+          <DialogDescription>
+            {template
+              ? `${template.name}: ${template.widthMm} × ${template.heightMm} mm, exportado a ${PRINT_DPI} DPI com ${template.bleedMm} mm de sangria`
+              : 'A carregar modelo...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center bg-muted rounded-lg p-4 min-h-[320px] items-center">
+          {isLoading || !previewUrl ? (
+            <RefreshCw className="w-8 h-8 animate-spin text-muted-foreground" />
+          ) : (
+            <img src={previewUrl} alt="Pré-visualização do crachá" className="max-h-[420px] shadow-lg" />
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {photo && (
+            <Button variant="ghost" onClick={() => onOpenExternal(photo)}>
+              <ExternalLink className="w-4 h-4 mr-2" />
+              Gerador externo
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => handleExport('png')} disabled={!data || isExporting}>
+            <ImageDown className="w-4 h-4 mr-2" />
+            PNG
+          </Button>
+          <Button onClick={() => handleExport('pdf')} disabled={!data || isExporting}>
+            <FileDown className="w-4 h-4 mr-2" />
+            PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BadgeDialog;
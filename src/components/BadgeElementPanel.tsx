@@ -0,0 +1,311 @@
+import { useRef, useState } from "react";
+import { ArrowDown, ArrowUp, Copy, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { BADGE_ELEMENT_LABELS, STANDARD_FONTS, type BadgeElement, type BadgeTemplate, type TextAlign } from "@/lib/badge";
+import { uploadBadgeAsset } from "@/lib/badge/assets";
+
+interface BadgeElementPanelProps {
+  element: BadgeElement;
+  template: BadgeTemplate;
+  onChange: (patch: Partial<BadgeElement>) => void;
+  onRemove: () => void;
+  onDuplicate: () => void;
+  onMove: (direction: -1 | 1) => void;
+}
+
+const ALIGN_LABELS: Record<TextAlign, string> = {
+  left: 'Esquerda',
+  center: 'Centro',
+  right: 'Direita',
+};
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+  min?: number;
+}
+
+export const NumberField = ({ id, label, value, onChange, step = 0.5, min }: NumberFieldProps) => (
+  <div className="space-y-1">
+    <Label htmlFor={id} className="text-xs">{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      step={step}
+      min={min}
+      value={Number.isFinite(value) ? value : ''}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        if (Number.isFinite(parsed)) onChange(parsed);
+      }}
+      className="h-8"
+    />
+  </div>
+);
+
+interface ColorFieldProps {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export const ColorField = ({ id, label, value, onChange }: ColorFieldProps) => (
+  <div className="space-y-1">
+    <Label htmlFor={id} className="text-xs">{label}</Label>
+    <div className="flex gap-2">
+      <input
+        id={id}
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-8 w-10 rounded border bg-transparent cursor-pointer"
+      />
+      <Input value={value} onChange={(e) => onChange(e.target.value)} className="h-8 font-mono text-xs" />
+    </div>
+  </div>
+);
+
+const BadgeElementPanel = ({ element, template, onChange, onRemove, onDuplicate, onMove }: BadgeElementPanelProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const fontOptions = [
+    ...STANDARD_FONTS,
+    ...[...new Set(template.fonts.map(font => font.family))].map(family => ({ value: family, label: family })),
+  ];
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      onChange({ src: await uploadBadgeAsset(file, 'logos') });
+    } catch (error) {
+      console.error('Error uploading logo:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar o logótipo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">{BADGE_ELEMENT_LABELS[element.type]}</h3>
+        <div className="flex gap-1">
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => onMove(-1)} title="Para trás">
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => onMove(1)} title="Para a frente">
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onDuplicate} title="Duplicar">
+            <Copy className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={onRemove} title="Remover">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        <NumberField id="element-x" label="X (mm)" value={element.x} onChange={(x) => onChange({ x })} />
+        <NumberField id="element-y" label="Y (mm)" value={element.y} onChange={(y) => onChange({ y })} />
+        <NumberField id="element-w" label="Larg. (mm)" value={element.width} min={1} onChange={(width) => onChange({ width })} />
+        <NumberField id="element-h" label="Alt. (mm)" value={element.height} min={1} onChange={(height) => onChange({ height })} />
+      </div>
+
+      {element.type === 'photo' && (
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField
+            id="photo-radius"
+            label="Cantos (mm)"
+            value={element.cornerRadius}
+            min={0}
+            onChange={(cornerRadius) => onChange({ cornerRadius })}
+          />
+          <NumberField
+            id="photo-border"
+            label="Contorno (mm)"
+            value={element.borderWidth}
+            step={0.1}
+            min={0}
+            onChange={(borderWidth) => onChange({ borderWidth })}
+          />
+          <div className="col-span-2">
+            <ColorField
+              id="photo-border-color"
+              label="Cor do contorno"
+              value={element.borderColor}
+              onChange={(borderColor) => onChange({ borderColor })}
+            />
+          </div>
+        </div>
+      )}
+
+      {(element.type === 'name' || element.type === 'role' || element.type === 'text') && (
+        <div className="space-y-3">
+          {element.type === 'text' && (
+            <div className="space-y-1">
+              <Label htmlFor="text-value" className="text-xs">Texto</Label>
+              <Input
+                id="text-value"
+                value={element.text ?? ''}
+                onChange={(e) => onChange({ text: e.target.value })}
+                className="h-8"
+              />
+              <p className="text-xs text-muted-foreground">
+                Pode usar {'{name}'}, {'{role}'}, {'{event}'} e {'{id}'}
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Letra</Label>
+              <Select value={element.fontFamily} onValueChange={(fontFamily) => onChange({ fontFamily })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {fontOptions.map(font => (
+                    <SelectItem key={font.value} value={font.value}>{font.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Alinhamento</Label>
+              <Select value={element.align} onValueChange={(align) => onChange({ align: align as TextAlign })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ALIGN_LABELS) as TextAlign[]).map(align => (
+                    <SelectItem key={align} value={align}>{ALIGN_LABELS[align]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField
+              id="text-max"
+              label="Máx. (pt)"
+              value={element.maxFontSize}
+              min={1}
+              onChange={(maxFontSize) => onChange({ maxFontSize, minFontSize: Math.min(element.minFontSize, maxFontSize) })}
+            />
+            <NumberField
+              id="text-min"
+              label="Mín. (pt)"
+              value={element.minFontSize}
+              min={1}
+              onChange={(minFontSize) => onChange({ minFontSize, maxFontSize: Math.max(element.maxFontSize, minFontSize) })}
+            />
+            <NumberField
+              id="text-lines"
+              label="Linhas"
+              value={element.maxLines}
+              step={1}
+              min={1}
+              onChange={(maxLines) => onChange({ maxLines: Math.max(1, Math.round(maxLines)) })}
+            />
+          </div>
+
+          <ColorField id="text-color" label="Cor" value={element.color} onChange={(color) => onChange({ color })} />
+
+          <div className="flex gap-6">
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <Switch checked={element.bold} onCheckedChange={(bold) => onChange({ bold })} />
+              Negrito
+            </label>
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <Switch checked={element.uppercase} onCheckedChange={(uppercase) => onChange({ uppercase })} />
+              Maiúsculas
+            </label>
+          </div>
+        </div>
+      )}
+
+      {element.type === 'logo' && (
+        <div className="space-y-1">
+          <Label htmlFor="logo-src" className="text-xs">Imagem (URL)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="logo-src"
+              value={element.src}
+              onChange={(e) => onChange({ src: e.target.value })}
+              placeholder="https://..."
+              className="h-8"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+            >
+              <Upload className="w-4 h-4" />
+            </Button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/webp,image/svg+xml"
+            className="hidden"
+            onChange={handleLogoUpload}
+          />
+        </div>
+      )}
+
+      {element.type === 'qr' && (
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="qr-value" className="text-xs">Conteúdo</Label>
+            <Input
+              id="qr-value"
+              value={element.value}
+              onChange={(e) => onChange({ value: e.target.value })}
+              className="h-8 font-mono"
+            />
+            <p className="text-xs text-muted-foreground">
+              Pode usar {'{name}'}, {'{role}'}, {'{event}'} e {'{id}'}
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <ColorField id="qr-color" label="Cor" value={element.color} onChange={(color) => onChange({ color })} />
+            <ColorField
+              id="qr-background"
+              label="Fundo"
+              value={element.background}
+              onChange={(background) => onChange({ background })}
+            />
+          </div>
+        </div>
+      )}
+
+      {element.type === 'band' && (
+        <ColorField id="band-color" label="Cor" value={element.color} onChange={(color) => onChange({ color })} />
+      )}
+    </div>
+  );
+};
+
+export default BadgeElementPanel;
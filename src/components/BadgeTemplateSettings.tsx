@@ -0,0 +1,258 @@
+import { useRef, useState } from "react";
+import { RotateCw, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ColorField, NumberField } from "@/components/BadgeElementPanel";
+import { toast } from "@/hooks/use-toast";
+import { BADGE_SIZE_PRESETS, type BadgeTemplate, type CustomFont } from "@/lib/badge";
+import { uploadBadgeAsset, type BadgeAssetKind } from "@/lib/badge/assets";
+
+interface BadgeTemplateSettingsProps {
+  template: BadgeTemplate;
+  onChange: (patch: Partial<BadgeTemplate>) => void;
+}
+
+const CUSTOM_SIZE = 'custom';
+
+const matchingPreset = (template: BadgeTemplate) => {
+  return BADGE_SIZE_PRESETS.find(preset => (
+    (preset.widthMm === template.widthMm && preset.heightMm === template.heightMm)
+    || (preset.widthMm === template.heightMm && preset.heightMm === template.widthMm)
+  ));
+};
+
+const BadgeTemplateSettings = ({ template, onChange }: BadgeTemplateSettingsProps) => {
+  const backgroundInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState<BadgeAssetKind | null>(null);
+  const [fontFamily, setFontFamily] = useState('');
+  const [fontBold, setFontBold] = useState(false);
+
+  const preset = matchingPreset(template);
+  const isLandscape = template.widthMm > template.heightMm;
+
+  const upload = async (file: File, kind: BadgeAssetKind): Promise<string | null> => {
+    setUploading(kind);
+    try {
+      return await uploadBadgeAsset(file, kind);
+    } catch (error) {
+      console.error('Error uploading badge asset:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar o ficheiro",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handlePresetChange = (id: string) => {
+    const selected = BADGE_SIZE_PRESETS.find(p => p.id === id);
+    if (!selected) return;
+    // Keep the current orientation
+    const [short, long] = [Math.min(selected.widthMm, selected.heightMm), Math.max(selected.widthMm, selected.heightMm)];
+    onChange(isLandscape ? { widthMm: long, heightMm: short } : { widthMm: short, heightMm: long });
+  };
+
+  const handleBackgroundUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const url = await upload(file, 'backgrounds');
+    if (url) onChange({ background: { ...template.background, imageUrl: url } });
+  };
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!/\.ttf$/i.test(file.name)) {
+      toast({
+        title: "Erro",
+        description: "Use um ficheiro de letra TrueType (.ttf)",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const family = fontFamily.trim() || file.name.replace(/\.ttf$/i, '');
+    const url = await upload(file, 'fonts');
+    if (!url) return;
+
+    const font: CustomFont = { family, url, bold: fontBold };
+    onChange({
+      fonts: [
+        ...template.fonts.filter(f => !(f.family === family && f.bold === fontBold)),
+        font,
+      ],
+    });
+    setFontFamily('');
+  };
+
+  const removeFont = (font: CustomFont) => {
+    onChange({ fonts: template.fonts.filter(f => f !== font) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label htmlFor="template-name" className="text-xs">Nome do modelo</Label>
+        <Input
+          id="template-name"
+          value={template.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          className="h-8"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Tamanho</Label>
+        <div className="flex gap-2">
+          <Select value={preset?.id ?? CUSTOM_SIZE} onValueChange={handlePresetChange}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BADGE_SIZE_PRESETS.map(p => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.label} — {p.widthMm} × {p.heightMm} mm
+                </SelectItem>
+              ))}
+              <SelectItem value={CUSTOM_SIZE} disabled>Personalizado</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8"
+            onClick={() => onChange({ widthMm: template.heightMm, heightMm: template.widthMm })}
+            title="Rodar orientação"
+          >
+            <RotateCw className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField
+          id="template-width"
+          label="Largura (mm)"
+          value={template.widthMm}
+          min={10}
+          onChange={(widthMm) => onChange({ widthMm })}
+        />
+        <NumberField
+          id="template-height"
+          label="Altura (mm)"
+          value={template.heightMm}
+          min={10}
+          onChange={(heightMm) => onChange({ heightMm })}
+        />
+        <NumberField
+          id="template-bleed"
+          label="Sangria (mm)"
+          value={template.bleedMm}
+          min={0}
+          onChange={(bleedMm) => onChange({ bleedMm: Math.max(0, bleedMm) })}
+        />
+        <NumberField
+          id="template-safe"
+          label="Margem segura (mm)"
+          value={template.safeMarginMm}
+          min={0}
+          onChange={(safeMarginMm) => onChange({ safeMarginMm: Math.max(0, safeMarginMm) })}
+        />
+      </div>
+
+      <ColorField
+        id="template-background"
+        label="Cor de fundo"
+        value={template.background.color}
+        onChange={(color) => onChange({ background: { ...template.background, color } })}
+      />
+
+      <div className="space-y-1">
+        <Label className="text-xs">Imagem de fundo</Label>
+        <div className="flex gap-2">
+          <Input
+            value={template.background.imageUrl ?? ''}
+            onChange={(e) => onChange({ background: { ...template.background, imageUrl: e.target.value || null } })}
+            placeholder="https://..."
+            className="h-8"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8"
+            onClick={() => backgroundInputRef.current?.click()}
+            disabled={uploading !== null}
+          >
+            <Upload className="w-4 h-4" />
+          </Button>
+        </div>
+        <input
+          ref={backgroundInputRef}
+          type="file"
+          accept="image/png,image/jpeg,image/webp"
+          className="hidden"
+          onChange={handleBackgroundUpload}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Tipos de letra personalizados (.ttf)</Label>
+        {template.fonts.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {template.fonts.map(font => (
+              <li key={`${font.family}-${font.bold}`} className="flex items-center justify-between">
+                <span style={{ fontFamily: `"${font.family}"`, fontWeight: font.bold ? 'bold' : 'normal' }}>
+                  {font.family}{font.bold ? ' (negrito)' : ''}
+                </span>
+                <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => removeFont(font)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2 items-center">
+          <Input
+            value={fontFamily}
+            onChange={(e) => setFontFamily(e.target.value)}
+            placeholder="Nome da família"
+            className="h-8"
+          />
+          <label className="flex items-center gap-1 text-xs whitespace-nowrap cursor-pointer">
+            <Switch checked={fontBold} onCheckedChange={setFontBold} />
+            Negrito
+          </label>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8"
+            onClick={() => fontInputRef.current?.click()}
+            disabled={uploading !== null}
+          >
+            <Upload className="w-4 h-4" />
+          </Button>
+        </div>
+        <input
+          ref={fontInputRef}
+          type="file"
+          accept=".ttf,font/ttf"
+          className="hidden"
+          onChange={handleFontUpload}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default BadgeTemplateSettings;
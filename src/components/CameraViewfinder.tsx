@@ -0,0 +1,283 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Camera, CameraOff, SwitchCamera, Timer, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { describeCameraError, type FacingMode } from "@/lib/camera";
+import { BADGE_PHOTO_ASPECT_RATIO, CAPTURE_COUNTDOWN_SECONDS } from "@/lib/photo-settings";
+import { cn } from "@/lib/utils";
+
+interface CameraViewfinderProps {
+  onCapture: (file: File) => void;
+  onCancel: () => void;
+  // Opens the OS file picker; offered when the camera can't be used
+  onUseFileInput: () => void;
+}
+
+const FACING_MODE_KEY = 'captureFacingMode';
+
+// Silhouette drawn in a 300-wide box whose height follows the badge aspect ratio
+const SILHOUETTE_WIDTH = 300;
+const SILHOUETTE_HEIGHT = SILHOUETTE_WIDTH / BADGE_PHOTO_ASPECT_RATIO;
+
+const silhouettePath = (() => {
+  const w = SILHOUETTE_WIDTH;
+  const h = SILHOUETTE_HEIGHT;
+  const neckY = h * 0.62;
+  return [
+    `M ${w * 0.05} ${h}`,
+    `C ${w * 0.08} ${h * 0.78}, ${w * 0.3} ${h * 0.72}, ${w * 0.4} ${neckY}`,
+    `L ${w * 0.6} ${neckY}`,
+    `C ${w * 0.7} ${h * 0.72}, ${w * 0.92} ${h * 0.78}, ${w * 0.95} ${h}`,
+  ].join(' ');
+})();
+
+const CameraViewfinder = ({ onCapture, onCancel, onUseFileInput }: CameraViewfinderProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>(() => {
+    return localStorage.getItem(FACING_MODE_KEY) === 'environment' ? 'environment' : 'user';
+  });
+  const [hasMultipleCameras, setHasMultipleCameras] = useState(false);
+  const [isStarting, setIsStarting] = useState(true);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [countdown, setCountdown] = useState<number | null>(null);
+
+  const stopStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const startCamera = async () => {
+      setIsStarting(true);
+      setCameraError(null);
+      stopStream();
+
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError("Este navegador não permite usar a câmara na página.");
+        setIsStarting(false);
+        return;
+      }
+
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: {
+            facingMode: { ideal: facingMode },
+            width: { ideal: 1920 },
+            height: { ideal: 1080 },
+          },
+          audio: false,
+        });
+
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play().catch(() => undefined);
+        }
+
+        // Device labels and counts are only reliable after permission is granted
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) {
+          setHasMultipleCameras(devices.filter(d => d.kind === 'videoinput').length > 1);
+        }
+      } catch (error) {
+        console.error('Error starting camera:', error);
+        if (!cancelled) {
+          setCameraError(describeCameraError(error));
+        }
+      } finally {
+        if (!cancelled) {
+          setIsStarting(false);
+        }
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      cancelled = true;
+      stopStream();
+    };
+  }, [facingMode]);
+
+  const handleSwitchCamera = () => {
+    const next: FacingMode = facingMode === 'user' ? 'environment' : 'user';
+    localStorage.setItem(FACING_MODE_KEY, next);
+    setFacingMode(next);
+  };
+
+  const grabStill = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth || !video.videoHeight) return;
+
+    // Crop the frame the same way object-cover does, so the still matches
+    // exactly what was inside the framing guide
+    const videoAspect = video.videoWidth / video.videoHeight;
+    let sw = video.videoWidth;
+    let sh = video.videoHeight;
+    if (videoAspect > BADGE_PHOTO_ASPECT_RATIO) {
+      sw = Math.round(sh * BADGE_PHOTO_ASPECT_RATIO);
+    } else {
+      sh = Math.round(sw / BADGE_PHOTO_ASPECT_RATIO);
+    }
+    const sx = Math.round((video.videoWidth - sw) / 2);
+    const sy = Math.round((video.videoHeight - sh) / 2);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = sw;
+    canvas.height = sh;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(video, sx, sy, sw, sh, 0, 0, sw, sh);
+
+    canvas.toBlob((blob) => {
+      if (!blob) return;
+      const file = new File([blob], `capture_${Date.now()}.jpg`, { type: 'image/jpeg' });
+      stopStream();
+      onCapture(file);
+    }, 'image/jpeg', 0.92);
+  }, [onCapture]);
+
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      grabStill();
+      return;
+    }
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown, grabStill]);
+
+  if (cameraError) {
+    return (
+      <div className="text-center space-y-6 py-8">
+        <CameraOff className="w-20 h-20 mx-auto text-muted-foreground" />
+        <div>
+          <h2 className="text-xl font-semibold mb-2">Câmara indisponível</h2>
+          <p className="text-muted-foreground">{cameraError}</p>
+        </div>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <Button onClick={onCancel} variant="outline" size="lg" className="h-16 text-lg">
+            <X className="w-6 h-6 mr-2" />
+            Cancelar
+          </Button>
+          <Button onClick={onUseFileInput} size="lg" variant="tablet" className="h-16 text-lg">
+            <Upload className="w-6 h-6 mr-2" />
+            Usar câmara do sistema
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div
+        className="relative max-w-md mx-auto overflow-hidden rounded-lg bg-black shadow-md"
+        style={{ aspectRatio: BADGE_PHOTO_ASPECT_RATIO }}
+      >
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className={cn(
+            "absolute inset-0 w-full h-full object-cover",
+            // Mirror the front camera preview so it behaves like a mirror;
+            // the saved still is never mirrored
+            facingMode === 'user' && "-scale-x-100"
+          )}
+        />
+
+        {/* Head-and-shoulders framing guide */}
+        <svg
+          viewBox={`0 0 ${SILHOUETTE_WIDTH} ${SILHOUETTE_HEIGHT}`}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          preserveAspectRatio="none"
+        >
+          <ellipse
+            cx={SILHOUETTE_WIDTH / 2}
+            cy={SILHOUETTE_HEIGHT * 0.38}
+            rx={SILHOUETTE_WIDTH * 0.2}
+            ry={SILHOUETTE_HEIGHT * 0.2}
+            fill="none"
+            stroke="white"
+            strokeOpacity={0.85}
+            strokeWidth={3}
+            strokeDasharray="10 6"
+          />
+          <path
+            d={silhouettePath}
+            fill="none"
+            stroke="white"
+            strokeOpacity={0.85}
+            strokeWidth={3}
+            strokeDasharray="10 6"
+          />
+        </svg>
+
+        {isStarting && (
+          <div className="absolute inset-0 flex items-center justify-center text-white">
+            <Camera className="w-12 h-12 animate-pulse" />
+          </div>
+        )}
+
+        {countdown !== null && countdown > 0 && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/20">
+            <span className="text-8xl font-bold text-white drop-shadow-lg">{countdown}</span>
+          </div>
+        )}
+
+        <p className="absolute bottom-3 inset-x-0 text-center text-sm text-white drop-shadow">
+          Alinhe a cabeça e os ombros com a guia
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <Button
+          onClick={() => {
+            stopStream();
+            onCancel();
+          }}
+          variant="outline"
+          size="lg"
+          className="h-16 text-lg"
+          disabled={countdown !== null}
+        >
+          <X className="w-6 h-6 mr-2" />
+          Cancelar
+        </Button>
+
+        <Button
+          onClick={handleSwitchCamera}
+          variant="outline"
+          size="lg"
+          className="h-16 text-lg"
+          disabled={!hasMultipleCameras || countdown !== null}
+        >
+          <SwitchCamera className="w-6 h-6 mr-2" />
+          {facingMode === 'user' ? "Câmara traseira" : "Câmara frontal"}
+        </Button>
+
+        <Button
+          onClick={() => setCountdown(CAPTURE_COUNTDOWN_SECONDS)}
+          size="lg"
+          variant="tablet"
+          className="h-16 text-lg"
+          disabled={isStarting || countdown !== null}
+        >
+          <Timer className="w-6 h-6 mr-2" />
+          {countdown !== null ? "A preparar..." : "Capturar"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraViewfinder;
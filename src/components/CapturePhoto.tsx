@@ -1,38 +1,164 @@
-import { useState, useRef } from "react";
-import { Camera, Check, RotateCcw, Upload } from "lucide-react";
+import { useEffect, useState, useRef } from "react";
+import { Link } from "react-router-dom";
+import { AlertTriangle, Camera, Check, CheckCircle2, CloudOff, CloudUpload, RefreshCw, RotateCcw, ScanLine, Tablet, Unplug, Upload, X, XCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import AttendeeLookup from "@/components/AttendeeLookup";
+import CameraViewfinder from "@/components/CameraViewfinder";
+import PhotoEditor from "@/components/PhotoEditor";
+import TicketScanner from "@/components/TicketScanner";
 import { toast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { useCaptureQueue } from "@/hooks/use-capture-queue";
+import { useCaptureStation } from "@/hooks/use-capture-station";
+import { usePhotoQuality } from "@/hooks/use-photo-quality";
+import { useRetakeRequests } from "@/hooks/use-retake-requests";
+import type { AttendeeMatch } from "@/lib/attendees";
+import { autoCrop } from "@/lib/autocrop";
+import { prepareBackgroundReplacement, replaceBackground } from "@/lib/backdrop";
+import type { RetakeRequest } from "@/lib/capture-station";
+import { differenceHash } from "@/lib/duplicates";
+import { getBackdrop, getBadgeGeneratorUrl, getRequiredFields, type BadgeEvent } from "@/lib/events";
+import {
+  defaultEdits,
+  drawTransformed,
+  loadNormalizedImage,
+  renderEditedImage,
+  rotatedSize,
+  type EncodeOptions,
+  type PhotoEdits,
+} from "@/lib/image";
+import {
+  BADGE_PHOTO_ASPECT_RATIO,
+  PHOTO_FORMAT,
+  PHOTO_MAX_DIMENSION,
+  PHOTO_QUALITY,
+} from "@/lib/photo-settings";
+import { REJECTION_REASON_LABELS } from "@/lib/photo-status";
+import type { QualityLevel } from "@/lib/quality";
+import { renderThumbnails } from "@/lib/thumbnails";
+import { cn } from "@/lib/utils";
 
-const CapturePhoto = () => {
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+const ENCODE_OPTIONS: EncodeOptions = {
+  maxDimension: PHOTO_MAX_DIMENSION,
+  format: PHOTO_FORMAT,
+  quality: PHOTO_QUALITY,
+};
+
+// Shrinking in one step from full resolution would alias the 9x8 hash
+const HASH_SOURCE_SIZE = 256;
+
+const QUALITY_STYLES: Record<QualityLevel, { icon: typeof CheckCircle2; className: string }> = {
+  pass: { icon: CheckCircle2, className: "border-success/50 bg-success/10 text-success" },
+  warn: { icon: AlertTriangle, className: "border-warning/50 bg-warning/10 text-warning" },
+  fail: { icon: XCircle, className: "border-destructive/50 bg-destructive/10 text-destructive" },
+};
+
+interface CapturePhotoProps {
+  // Event the station captures for; null on the legacy "/" route
+  event: BadgeEvent | null;
+}
+
+const CapturePhoto = ({ event }: CapturePhotoProps) => {
   const [capturedFile, setCapturedFile] = useState<File | null>(null);
+  // EXIF-normalised copy of capturedFile that the editor works on
+  const [sourceImage, setSourceImage] = useState<HTMLCanvasElement | null>(null);
+  const [edits, setEdits] = useState<PhotoEdits | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
   const [name, setName] = useState("");
   const [role, setRole] = useState("");
+  // Registered attendee picked from the type-ahead, replaces the typed name
+  const [attendee, setAttendee] = useState<AttendeeMatch | null>(null);
+  // Rejected photo the next capture replaces
+  const [retake, setRetake] = useState<RetakeRequest | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const requiredFields = getRequiredFields(event);
+  const backdrop = getBackdrop(event);
+  const { enqueue, flush, pendingCount, failedCaptures, retryFailed, discardFailed, isSyncing, isOnline } = useCaptureQueue();
+  const station = useCaptureStation(pendingCount + failedCaptures.length, isOnline);
+  // The server only accepts captures for the station's own event
+  const isOtherEvent = !!station && station.eventId !== (event?.id ?? null);
+  const { requests: retakeRequests, dismiss: dismissRetake } = useRetakeRequests(station?.stationId ?? null, event?.id ?? null);
+  const quality = usePhotoQuality(sourceImage, edits);
+  // Saving waits for the checks, unless they can't run on this device
+  const isCheckingQuality = !quality.report && !quality.unavailable;
+
+  // Load the segmentation model up front so the first save isn't slowed down
+  useEffect(() => {
+    if (!event?.backdrop_enabled) return;
+    prepareBackgroundReplacement().catch(error => {
+      console.error('Error loading background segmentation:', error);
+    });
+  }, [event?.backdrop_enabled]);
+
+  const handleTicketResolved = (match: AttendeeMatch) => {
+    setAttendee(match);
+    setName(match.full_name);
+    setIsScanning(false);
+  };
 
   const handleTakePhoto = () => {
+    setIsCameraOpen(true);
+  };
+
+  // Fills in the person from the rejected photo and opens the camera. With
+  // a wrong name the registry link is dropped so the name can be corrected.
+  const handleStartRetake = (request: RetakeRequest) => {
+    dismissRetake(request.photoId);
+    setRetake(request);
+    if (request.attendeeId && request.reason !== 'wrong_name') {
+      setAttendee({ id: request.attendeeId, full_name: request.name ?? '', role: request.role ?? '' });
+      setName(request.name ?? '');
+      setRole('');
+    } else {
+      setAttendee(null);
+      setName(request.name ?? '');
+      setRole(request.role ?? '');
+    }
+    setIsScanning(false);
+    setIsCameraOpen(true);
+  };
+
+  const loadCapturedFile = async (file: File) => {
+    setCapturedFile(file);
+    try {
+      const image = await loadNormalizedImage(file);
+      setSourceImage(image);
+      setEdits(defaultEdits(image, BADGE_PHOTO_ASPECT_RATIO));
+    } catch (error) {
+      console.error('Error decoding photo:', error);
+      setCapturedFile(null);
+      toast({
+        title: "Erro",
+        description: "Não foi possível abrir a foto. Tente novamente.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCameraCapture = (file: File) => {
+    setIsCameraOpen(false);
+    loadCapturedFile(file);
+  };
+
+  // Fallback when the in-page camera is unavailable (e.g. permission denied)
+  const handleUseFileInput = () => {
     fileInputRef.current?.click();
   };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
     if (file) {
-      setCapturedFile(file);
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setCapturedImage(e.target?.result as string);
-      };
-      reader.readAsDataURL(file);
+      setIsCameraOpen(false);
+      loadCapturedFile(file);
     }
   };
 
   const handleSave = async () => {
-    if (!capturedImage || !capturedFile) {
+    if (!capturedFile || !sourceImage || !edits) {
       toast({
         title: "Erro",
         description: "Nenhuma foto foi capturada",
@@ -41,10 +167,14 @@ const CapturePhoto = () => {
       return;
     }
 
-    if (!name.trim() || !role.trim()) {
+    const missingName = requiredFields.includes('name') && !attendee && !name.trim();
+    const missingRole = requiredFields.includes('role') && !attendee?.role && !role.trim();
+    if (missingName || missingRole) {
       toast({
         title: "Erro",
-        description: "Nome e função são obrigatórios",
+        description: missingName && missingRole
+          ? "Nome e função são obrigatórios"
+          : missingName ? "O nome é obrigatório" : "A função é obrigatória",
         variant: "destructive",
       });
       return;
@@ -53,58 +183,81 @@ const CapturePhoto = () => {
     setIsUploading(true);
     
     try {
-      const fileName = `photo_${Date.now()}.${capturedFile.type.split('/')[1]}`;
-      
-      // Upload to Supabase Storage
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('photos')
-        .upload(fileName, capturedFile, {
-          cacheControl: '3600',
-          upsert: false
-        });
+      const processed = await renderEditedImage(sourceImage, edits, ENCODE_OPTIONS);
+      // Lets the server spot the same person captured again at another station
+      const imageHash = differenceHash(drawTransformed(sourceImage, edits, HASH_SOURCE_SIZE), edits.crop);
 
-      if (uploadError) {
-        throw uploadError;
-      }
+      // The event's backdrop behind the person; the capture is saved with
+      // the real background only if segmentation fails on this device
+      const replaced = backdrop
+        ? await replaceBackground(sourceImage, edits, backdrop).catch(error => {
+          console.error('Error replacing background:', error);
+          return null;
+        })
+        : null;
+      const withBackdrop = replaced ? await renderEditedImage(replaced, edits, ENCODE_OPTIONS) : null;
 
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('photos')
-        .getPublicUrl(fileName);
-
-      // Insert record into database
-      const { error: dbError } = await supabase
-        .from('photos')
-        .insert([
-          {
-            file_url: publicUrl,
-            file_path: fileName,
-            name: name.trim(),
-            role: role.trim(),
-          }
-        ]);
-
-      if (dbError) {
-        throw dbError;
-      }
+      // Badge crop centred on the face, from the same rotation and flip as
+      // the operator's edit; operators can nudge it later in the list
+      const size = rotatedSize(sourceImage.width, sourceImage.height, edits.rotation);
+      const faceCrop = quality.faces && autoCrop(size.width, size.height, quality.faces, BADGE_PHOTO_ASPECT_RATIO);
+      const cropBox = faceCrop
+        ? { rotation: edits.rotation, flipHorizontal: edits.flipHorizontal, crop: faceCrop, auto: true }
+        : null;
+      const crop = cropBox ? await renderEditedImage(replaced ?? sourceImage, cropBox, ENCODE_OPTIONS) : null;
+
+      // The management list shows these instead of the full photo
+      const thumbnails = await renderThumbnails(replaced ?? sourceImage, edits, replaced ? sourceImage : null);
+
+      // Persist first so a dropped connection never loses the capture;
+      // the queue uploads it now or retries once the network is back.
+      // A picked attendee is sent by id only and the server fills in the
+      // registered name and role
+      await enqueue({
+        eventId: event?.id ?? null,
+        attendeeId: attendee?.id ?? null,
+        isWalkIn: !!event && !attendee,
+        retakeOf: retake?.photoId ?? null,
+        name: attendee ? null : name.trim() || null,
+        role: attendee?.role ? null : role.trim() || null,
+        quality: quality.report?.quality ?? null,
+        imageHash,
+        original: capturedFile,
+        processed,
+        backdrop: withBackdrop,
+        crop,
+        cropBox,
+        thumbnails,
+      });
 
       toast({
         title: "Sucesso!",
-        description: "Foto guardada com sucesso",
+        description: navigator.onLine
+          ? "Foto guardada com sucesso"
+          : "Sem ligação: a foto será enviada automaticamente",
         variant: "default",
       });
+      if (backdrop && !replaced) {
+        toast({
+          title: "Fundo não substituído",
+          description: "Não foi possível separar a pessoa do fundo neste dispositivo. A foto foi guardada com o fundo original.",
+        });
+      }
 
       // Reset for next photo
-      setCapturedImage(null);
       setCapturedFile(null);
+      setSourceImage(null);
+      setEdits(null);
       setName("");
       setRole("");
+      setAttendee(null);
+      setRetake(null);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
 
     } catch (error) {
-      console.error('Error uploading photo:', error);
+      console.error('Error saving photo:', error);
       toast({
         title: "Erro",
         description: "Erro ao guardar a foto. Tente novamente.",
@@ -116,8 +269,9 @@ const CapturePhoto = () => {
   };
 
   const handleRetake = () => {
-    setCapturedImage(null);
     setCapturedFile(null);
+    setSourceImage(null);
+    setEdits(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -132,32 +286,197 @@ const CapturePhoto = () => {
               Captura de Crachás
             </h1>
             <p className="text-lg text-muted-foreground">
-              Tire uma foto para criar o crachá
+              {event ? event.name : "Tire uma foto para criar o crachá"}
+            </p>
+            <p className="mt-1 flex items-center justify-center gap-1 text-sm text-muted-foreground">
+              <Tablet className="w-4 h-4" />
+              {station ? station.name : "Posto não emparelhado"}
             </p>
           </div>
 
-          {!capturedImage ? (
+          {!station && (
+            <div className="mb-6 flex items-center gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-4">
+              <Unplug className="w-6 h-6 shrink-0 text-destructive" />
+              <div>
+                <p className="font-semibold">Este tablet não é um posto de captura</p>
+                <p className="text-sm text-muted-foreground">
+                  Só os postos emparelhados podem guardar fotos. Peça a um administrador o QR de emparelhamento em Postos.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {isOtherEvent && (
+            <div className="mb-6 flex items-center gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-4">
+              <Tablet className="w-6 h-6 shrink-0 text-destructive" />
+              <div>
+                <p className="font-semibold">Este posto captura para outro evento</p>
+                <p className="text-sm text-muted-foreground">
+                  O posto {station.name} só pode guardar fotos no seu evento.{" "}
+                  <Link to={station.eventSlug ? `/e/${station.eventSlug}` : '/'} className="underline">
+                    Abrir a captura do posto
+                  </Link>
+                </p>
+              </div>
+            </div>
+          )}
+
+          {(pendingCount > 0 || !isOnline) && (
+            <div className="mb-6 flex items-center justify-between rounded-lg border border-warning/50 bg-warning/10 p-4">
+              <div className="flex items-center gap-3">
+                {isOnline ? (
+                  <CloudUpload className={`w-6 h-6 text-warning ${isSyncing ? 'animate-pulse' : ''}`} />
+                ) : (
+                  <CloudOff className="w-6 h-6 text-warning" />
+                )}
+                <div>
+                  <p className="font-semibold">
+                    {pendingCount === 1 ? "1 foto por enviar" : `${pendingCount} fotos por enviar`}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {isOnline
+                      ? (isSyncing ? "A enviar..." : "Nova tentativa em breve")
+                      : "Sem ligação — as fotos ficam guardadas neste dispositivo"}
+                  </p>
+                </div>
+              </div>
+              {isOnline && pendingCount > 0 && (
+                <Button variant="outline" size="sm" onClick={() => flush(true)} disabled={isSyncing}>
+                  <RefreshCw className="w-4 h-4 mr-1" />
+                  Enviar agora
+                </Button>
+              )}
+            </div>
+          )}
+
+          {failedCaptures.length > 0 && (
+            <div className="mb-6 space-y-3">
+              {failedCaptures.map(capture => (
+                <div
+                  key={capture.id}
+                  className="flex items-center justify-between gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-4"
+                >
+                  <div>
+                    <p className="font-semibold">
+                      Foto {capture.name ? `de ${capture.name} ` : ""}das{" "}
+                      {new Date(capture.capturedAt).toLocaleTimeString('pt-PT', { hour: '2-digit', minute: '2-digit' })} recusada
+                    </p>
+                    <p className="text-sm text-muted-foreground">{capture.lastError}</p>
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <Button size="sm" variant="outline" onClick={() => retryFailed(capture)} disabled={!isOnline}>
+                      <RefreshCw className="w-4 h-4 mr-1" />
+                      Tentar novamente
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => discardFailed(capture)} aria-label="Descartar foto">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {retakeRequests.length > 0 && !capturedFile && !isCameraOpen && (
+            <div className="mb-6 space-y-3">
+              {retakeRequests.map(request => (
+                <div
+                  key={request.photoId}
+                  className="flex items-center justify-between gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-4"
+                >
+                  <div>
+                    <p className="font-semibold">Repetir a foto de {request.name || "participante sem nome"}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Rejeitada pela equipa: {REJECTION_REASON_LABELS[request.reason]}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <Button size="sm" onClick={() => handleStartRetake(request)}>
+                      <Camera className="w-4 h-4 mr-1" />
+                      Repetir
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => dismissRetake(request.photoId)} aria-label="Ignorar pedido">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {retake && (
+            <div className="mb-6 flex items-center justify-between rounded-lg border p-3 text-sm">
+              <span>
+                Nova foto para substituir a rejeitada ({REJECTION_REASON_LABELS[retake.reason].toLowerCase()})
+              </span>
+              <Button size="sm" variant="ghost" onClick={() => setRetake(null)} disabled={isUploading}>
+                Cancelar
+              </Button>
+            </div>
+          )}
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            capture="user"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+
+          {isScanning && event && !capturedFile ? (
+            <TicketScanner
+              eventId={event.id}
+              onResolved={handleTicketResolved}
+              onCancel={() => setIsScanning(false)}
+            />
+          ) : isCameraOpen && !capturedFile ? (
+            <CameraViewfinder
+              onCapture={handleCameraCapture}
+              onCancel={() => setIsCameraOpen(false)}
+              onUseFileInput={handleUseFileInput}
+            />
+          ) : !capturedFile ? (
             <div className="space-y-6">
+              {event && !attendee && (
+                <Button
+                  onClick={() => setIsScanning(true)}
+                  variant="outline"
+                  size="lg"
+                  className="w-full h-14 text-lg"
+                >
+                  <ScanLine className="w-6 h-6 mr-2" />
+                  Ler Bilhete
+                </Button>
+              )}
+
               <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                 <div className="space-y-2">
-                  <Label htmlFor="name">Nome</Label>
-                  <Input
+                  <Label htmlFor="name">
+                    Nome{!requiredFields.includes('name') && <span className="text-muted-foreground"> (opcional)</span>}
+                  </Label>
+                  <AttendeeLookup
                     id="name"
-                    type="text"
-                    placeholder="Digite o nome"
+                    eventId={event?.id ?? null}
+                    placeholder={event ? "Pesquise ou digite o nome" : "Digite o nome"}
                     value={name}
-                    onChange={(e) => setName(e.target.value)}
+                    onChange={setName}
+                    selected={attendee}
+                    onSelect={setAttendee}
                     className="h-12"
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="role">Função</Label>
+                  <Label htmlFor="role">
+                    Função{!requiredFields.includes('role') && <span className="text-muted-foreground"> (opcional)</span>}
+                  </Label>
                   <Input
                     id="role"
                     type="text"
                     placeholder="Digite a função"
-                    value={role}
+                    value={attendee?.role ?? role}
                     onChange={(e) => setRole(e.target.value)}
+                    disabled={!!attendee?.role}
                     className="h-12"
                   />
                 </div>
@@ -177,29 +496,58 @@ const CapturePhoto = () => {
                   <Camera className="w-8 h-8 mr-3" />
                   Tirar Foto
                 </Button>
-                
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept="image/*"
-                  capture="environment"
-                  className="hidden"
-                  onChange={handleFileChange}
-                />
               </div>
             </div>
           ) : (
             <div className="space-y-6">
               <div className="text-center">
-                <h2 className="text-xl font-semibold mb-4">Pré-visualização</h2>
-                <div className="relative max-w-md mx-auto">
-                  <img
-                    src={capturedImage}
-                    alt="Foto capturada"
-                    className="w-full rounded-lg shadow-md"
+                <h2 className="text-xl font-semibold mb-1">Pré-visualização</h2>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Arraste o recorte para ajustar o enquadramento do crachá
+                </p>
+                {sourceImage && edits ? (
+                  <PhotoEditor
+                    source={sourceImage}
+                    value={edits}
+                    onChange={setEdits}
+                    aspect={BADGE_PHOTO_ASPECT_RATIO}
+                    disabled={isUploading}
                   />
-                </div>
+                ) : (
+                  <div className="py-12">
+                    <RefreshCw className="w-8 h-8 mx-auto animate-spin text-primary mb-4" />
+                    <p className="text-muted-foreground">A preparar foto...</p>
+                  </div>
+                )}
               </div>
+
+              {sourceImage && edits && (
+                <div className="flex flex-wrap justify-center gap-2">
+                  {quality.report ? (
+                    quality.report.checks.map(check => {
+                      const { icon: Icon, className } = QUALITY_STYLES[check.level];
+                      return (
+                        <span
+                          key={check.key}
+                          className={cn("inline-flex items-center gap-1 rounded-full border px-3 py-1 text-sm font-medium", className)}
+                        >
+                          <Icon className="w-4 h-4" />
+                          {check.message}
+                        </span>
+                      );
+                    })
+                  ) : quality.unavailable ? (
+                    <span className="text-sm text-muted-foreground">
+                      Não foi possível verificar a qualidade da foto neste dispositivo
+                    </span>
+                  ) : (
+                    <span className="inline-flex items-center gap-2 text-sm text-muted-foreground">
+                      <RefreshCw className="w-4 h-4 animate-spin" />
+                      A verificar qualidade...
+                    </span>
+                  )}
+                </div>
+              )}
               
               <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                 <Button
@@ -218,14 +566,16 @@ const CapturePhoto = () => {
                   size="lg"
                   variant="tablet"
                   className="h-16 text-lg"
-                  disabled={isUploading}
+                  disabled={isUploading || !edits || isCheckingQuality || !station || isOtherEvent}
                 >
                   {isUploading ? (
                     <Upload className="w-6 h-6 mr-2 animate-spin" />
                   ) : (
                     <Check className="w-6 h-6 mr-2" />
                   )}
-                  {isUploading ? "A guardar..." : "Guardar"}
+                  {isUploading
+                    ? "A guardar..."
+                    : quality.report?.quality.level === 'fail' ? "Guardar mesmo assim" : "Guardar"}
                 </Button>
               </div>
             </div>
@@ -235,10 +585,10 @@ const CapturePhoto = () => {
             <h3 className="font-semibold mb-2">Instruções:</h3>
             <ol className="text-sm text-muted-foreground space-y-1">
               <li>1. Clique em "Tirar Foto" para abrir a câmara</li>
-              <li>2. Tire uma foto clara do participante</li>
+              <li>2. Enquadre o participante na guia e clique em "Capturar"</li>
               <li>3. Clique em "Guardar" para enviar para a equipa</li>
               <li>4. A equipa irá gerar o crachá em: <br/>
-                  <span className="font-mono text-xs">https://growing-badges.lovable.app/</span>
+                  <span className="font-mono text-xs">{getBadgeGeneratorUrl(event)}</span>
               </li>
             </ol>
           </div>
@@ -0,0 +1,352 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { BatteryCharging, Pencil, Plus, QrCode, RefreshCw, Tablet, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import ManagementNav from "@/components/ManagementNav";
+import StationPairingDialog from "@/components/StationPairingDialog";
+import { toast } from "@/hooks/use-toast";
+import { useCaptureStations, type CaptureStationSummary } from "@/hooks/use-capture-stations";
+import { useEvents } from "@/hooks/use-events";
+import { supabase } from "@/integrations/supabase/client";
+import { getStationState, STATION_STATE_LABELS, type CaptureStation, type StationState } from "@/lib/capture-station";
+
+const NO_EVENT = 'none';
+
+// Keeps the "last seen" column moving between refreshes
+const CLOCK_TICK_MS = 15_000;
+
+const STATE_BADGE_VARIANTS: Record<StationState, "default" | "secondary" | "destructive" | "outline"> = {
+  online: 'default',
+  offline: 'destructive',
+  pairing: 'secondary',
+  unpaired: 'outline',
+};
+
+const relativeTime = new Intl.RelativeTimeFormat('pt-PT', { numeric: 'auto' });
+
+const formatSince = (dateString: string | null, now: number) => {
+  if (!dateString) return '—';
+  const seconds = Math.round((new Date(dateString).getTime() - now) / 1000);
+  if (seconds > -60) return relativeTime.format(Math.min(0, seconds), 'second');
+  if (seconds > -3600) return relativeTime.format(Math.round(seconds / 60), 'minute');
+  if (seconds > -86400) return relativeTime.format(Math.round(seconds / 3600), 'hour');
+  return relativeTime.format(Math.round(seconds / 86400), 'day');
+};
+
+const CaptureStationManager = () => {
+  const queryClient = useQueryClient();
+  const { data: stations = [], isLoading, isFetching, refetch } = useCaptureStations();
+  const { data: events = [] } = useEvents();
+  const [now, setNow] = useState(() => Date.now());
+  const [editing, setEditing] = useState<CaptureStation | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState({ name: '', eventId: NO_EVENT });
+  const [isSaving, setIsSaving] = useState(false);
+  const [pairingStation, setPairingStation] = useState<CaptureStation | null>(null);
+  const [deletingStation, setDeletingStation] = useState<CaptureStation | null>(null);
+
+  const eventNames = new Map(events.map(event => [event.id, event.name]));
+  const onlineCount = stations.filter(station => getStationState(station, now) === 'online').length;
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // A refresh brings new heartbeats; measure against the current time
+  useEffect(() => {
+    setNow(Date.now());
+  }, [stations]);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm({ name: `Posto ${stations.length + 1}`, eventId: events[0]?.id ?? NO_EVENT });
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (station: CaptureStation) => {
+    setEditing(station);
+    setForm({ name: station.name, eventId: station.event_id ?? NO_EVENT });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!form.name.trim()) {
+      toast({
+        title: "Erro",
+        description: "O nome do posto é obrigatório",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const values = {
+      name: form.name.trim(),
+      event_id: form.eventId === NO_EVENT ? null : form.eventId,
+    };
+
+    try {
+      if (editing) {
+        const { error } = await supabase.from('capture_stations').update(values).eq('id', editing.id);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { data, error } = await supabase
+          .from('capture_stations')
+          .insert([{ ...values, created_by: user?.id ?? null }])
+          .select()
+          .single();
+        if (error) throw error;
+        // A new station is only useful once a tablet is paired with it
+        setPairingStation(data);
+      }
+
+      await queryClient.invalidateQueries({ queryKey: ['capture-stations'] });
+      setIsDialogOpen(false);
+      toast({
+        title: editing ? "Posto atualizado" : "Posto criado",
+        description: values.name,
+      });
+    } catch (error) {
+      console.error('Error saving capture station:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao guardar o posto",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingStation) return;
+
+    try {
+      const { error } = await supabase.from('capture_stations').delete().eq('id', deletingStation.id);
+      if (error) throw error;
+
+      await queryClient.invalidateQueries({ queryKey: ['capture-stations'] });
+      toast({
+        title: "Posto eliminado",
+        description: deletingStation.name,
+      });
+    } catch (error) {
+      console.error('Error deleting capture station:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao eliminar o posto",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingStation(null);
+    }
+  };
+
+  const renderBattery = (station: CaptureStationSummary) => {
+    if (station.battery_level === null) return '—';
+    return (
+      <span className="flex items-center gap-1">
+        {Math.round(station.battery_level * 100)}%
+        {station.battery_charging && <BatteryCharging className="w-4 h-4 text-success" />}
+      </span>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto">
+        <ManagementNav />
+
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              Postos de Captura
+            </h1>
+            <p className="text-lg text-muted-foreground">
+              {stations.length === 0
+                ? "Registe os tablets de captura para saber de onde vem cada foto"
+                : `${onlineCount} de ${stations.length} postos ligados`}
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={() => refetch()} variant="outline" size="lg" className="h-12">
+              <RefreshCw className={`w-5 h-5 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+              Atualizar
+            </Button>
+            <Button onClick={openCreate} size="lg" className="h-12">
+              <Plus className="w-5 h-5 mr-2" />
+              Novo Posto
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <RefreshCw className="w-8 h-8 mx-auto animate-spin text-primary mb-4" />
+            <p className="text-lg text-muted-foreground">A carregar postos...</p>
+          </div>
+        ) : stations.length === 0 ? (
+          <Card className="p-12">
+            <div className="text-center">
+              <Tablet className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+              <h2 className="text-xl font-semibold mb-2">Nenhum posto registado</h2>
+              <p className="text-muted-foreground">
+                Crie um posto e leia o QR de emparelhamento com o tablet
+              </p>
+            </div>
+          </Card>
+        ) : (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Posto</TableHead>
+                  <TableHead>Estado</TableHead>
+                  <TableHead>Última atividade</TableHead>
+                  <TableHead>Bateria</TableHead>
+                  <TableHead>Por enviar</TableHead>
+                  <TableHead>Versão</TableHead>
+                  <TableHead>Capturas</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stations.map(station => {
+                  const state = getStationState(station, now);
+                  return (
+                    <TableRow key={station.id}>
+                      <TableCell>
+                        <div className="font-medium">{station.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {(station.event_id && eventNames.get(station.event_id)) || "Sem evento"}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATE_BADGE_VARIANTS[state]}>{STATION_STATE_LABELS[state]}</Badge>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatSince(station.last_seen_at, now)}</TableCell>
+                      <TableCell>{renderBattery(station)}</TableCell>
+                      <TableCell>{station.queue_depth ?? '—'}</TableCell>
+                      <TableCell className="font-mono text-xs">{station.app_version ?? '—'}</TableCell>
+                      <TableCell>
+                        <div>{station.captureCount}</div>
+                        {station.lastCaptureAt && (
+                          <div className="text-xs text-muted-foreground">
+                            última {formatSince(station.lastCaptureAt, now)}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="outline" size="sm" onClick={() => setPairingStation(station)}>
+                            <QrCode className="w-4 h-4 mr-1" />
+                            {station.paired_at ? "Reemparelhar" : "Emparelhar"}
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => openEdit(station)} aria-label="Editar posto">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setDeletingStation(station)} aria-label="Eliminar posto">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Editar Posto' : 'Novo Posto'}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="station-name">Nome</Label>
+              <Input
+                id="station-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Posto 1 — Entrada principal"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Evento</Label>
+              <Select value={form.eventId} onValueChange={(eventId) => setForm(prev => ({ ...prev, eventId }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_EVENT}>Sem evento</SelectItem>
+                  {events.map(event => (
+                    <SelectItem key={event.id} value={event.id}>{event.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                O tablet abre a captura deste evento depois de emparelhado
+              </p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "A guardar..." : editing ? "Guardar" : "Criar e emparelhar"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <StationPairingDialog station={pairingStation} onClose={() => setPairingStation(null)} />
+
+      <AlertDialog open={!!deletingStation} onOpenChange={(open) => !open && setDeletingStation(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Eliminar {deletingStation?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O tablet deixa de ser reconhecido. As fotos tiradas neste posto mantêm-se, mas deixam de indicar o posto.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Eliminar</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default CaptureStationManager;
@@ -0,0 +1,470 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { CalendarDays, Copy, ExternalLink, Pencil, Plus, RefreshCw, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ColorField } from "@/components/BadgeElementPanel";
+import ManagementNav from "@/components/ManagementNav";
+import { toast } from "@/hooks/use-toast";
+import { useEvents } from "@/hooks/use-events";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_BACKDROP_COLOR } from "@/lib/backdrop";
+import { uploadBadgeAsset } from "@/lib/badge/assets";
+import {
+  DEFAULT_REQUIRED_FIELDS,
+  formatEventDates,
+  getBadgeGeneratorUrl,
+  getCaptureUrl,
+  getRequiredFields,
+  slugify,
+  type BadgeEvent,
+  type EventField,
+} from "@/lib/events";
+
+interface EventFormState {
+  name: string;
+  slug: string;
+  starts_on: string;
+  ends_on: string;
+  badge_generator_url: string;
+  required_fields: EventField[];
+  backdrop_enabled: boolean;
+  backdrop_color: string;
+  backdrop_image_url: string;
+}
+
+const emptyForm: EventFormState = {
+  name: '',
+  slug: '',
+  starts_on: '',
+  ends_on: '',
+  badge_generator_url: '',
+  required_fields: DEFAULT_REQUIRED_FIELDS,
+  backdrop_enabled: false,
+  backdrop_color: DEFAULT_BACKDROP_COLOR,
+  backdrop_image_url: '',
+};
+
+const FIELD_LABELS: Record<EventField, string> = {
+  name: 'Nome',
+  role: 'Função',
+};
+
+const EventManager = () => {
+  const queryClient = useQueryClient();
+  const { data: events = [], isLoading } = useEvents();
+  const [editing, setEditing] = useState<BadgeEvent | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<EventFormState>(emptyForm);
+  const [slugTouched, setSlugTouched] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploadingBackdrop, setIsUploadingBackdrop] = useState(false);
+  const backdropInputRef = useRef<HTMLInputElement>(null);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setSlugTouched(false);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (event: BadgeEvent) => {
+    setEditing(event);
+    setForm({
+      name: event.name,
+      slug: event.slug,
+      starts_on: event.starts_on ?? '',
+      ends_on: event.ends_on ?? '',
+      badge_generator_url: event.badge_generator_url ?? '',
+      required_fields: getRequiredFields(event),
+      backdrop_enabled: event.backdrop_enabled,
+      backdrop_color: event.backdrop_color,
+      backdrop_image_url: event.backdrop_image_url ?? '',
+    });
+    setSlugTouched(true);
+    setIsDialogOpen(true);
+  };
+
+  const handleNameChange = (name: string) => {
+    setForm(prev => ({
+      ...prev,
+      name,
+      slug: slugTouched ? prev.slug : slugify(name),
+    }));
+  };
+
+  const toggleRequiredField = (field: EventField, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      required_fields: checked
+        ? [...prev.required_fields, field]
+        : prev.required_fields.filter(f => f !== field),
+    }));
+  };
+
+  const handleBackdropUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploadingBackdrop(true);
+    try {
+      const url = await uploadBadgeAsset(file, 'backdrops');
+      setForm(prev => ({ ...prev, backdrop_image_url: url }));
+    } catch (error) {
+      console.error('Error uploading backdrop:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar a imagem de fundo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploadingBackdrop(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const slug = slugify(form.slug);
+    if (!form.name.trim() || !slug) {
+      toast({
+        title: "Erro",
+        description: "Nome e identificador são obrigatórios",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (form.starts_on && form.ends_on && form.ends_on < form.starts_on) {
+      toast({
+        title: "Erro",
+        description: "A data de fim não pode ser anterior à data de início",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const values = {
+      name: form.name.trim(),
+      slug,
+      starts_on: form.starts_on || null,
+      ends_on: form.ends_on || null,
+      badge_generator_url: form.badge_generator_url.trim() || null,
+      required_fields: form.required_fields,
+      backdrop_enabled: form.backdrop_enabled,
+      backdrop_color: form.backdrop_color || DEFAULT_BACKDROP_COLOR,
+      backdrop_image_url: form.backdrop_image_url.trim() || null,
+    };
+
+    try {
+      const { error } = editing
+        ? await supabase.from('events').update(values).eq('id', editing.id)
+        : await supabase.from('events').insert([values]);
+
+      if (error) {
+        throw error;
+      }
+
+      await queryClient.invalidateQueries({ queryKey: ['events'] });
+      setIsDialogOpen(false);
+      toast({
+        title: editing ? "Evento atualizado" : "Evento criado",
+        description: values.name,
+      });
+    } catch (error) {
+      console.error('Error saving event:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao guardar o evento. Verifique se o identificador já existe.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopyCaptureUrl = async (event: BadgeEvent) => {
+    try {
+      await navigator.clipboard.writeText(getCaptureUrl(event));
+      toast({
+        title: "Link copiado",
+        description: "Abra este link nos tablets de captura do evento",
+      });
+    } catch (error) {
+      console.error('Error copying capture URL:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao copiar link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto">
+        <ManagementNav />
+
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              Eventos
+            </h1>
+            <p className="text-lg text-muted-foreground">
+              Cada evento tem as suas fotos, link de captura e definições de crachá
+            </p>
+          </div>
+
+          <Button onClick={openCreate} size="lg" className="h-12">
+            <Plus className="w-5 h-5 mr-2" />
+            Novo Evento
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <RefreshCw className="w-8 h-8 mx-auto animate-spin text-primary mb-4" />
+            <p className="text-lg text-muted-foreground">A carregar eventos...</p>
+          </div>
+        ) : events.length === 0 ? (
+          <Card className="p-12">
+            <div className="text-center">
+              <CalendarDays className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+              <h2 className="text-xl font-semibold mb-2">Nenhum evento criado</h2>
+              <p className="text-muted-foreground">
+                Crie um evento para obter o link de captura dos tablets
+              </p>
+            </div>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {events.map(event => (
+              <Card key={event.id} className="p-6 space-y-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h2 className="text-xl font-semibold">{event.name}</h2>
+                    <p className="text-sm text-muted-foreground">{formatEventDates(event)}</p>
+                  </div>
+                  <Button onClick={() => openEdit(event)} variant="outline" size="sm">
+                    <Pencil className="w-4 h-4 mr-1" />
+                    Editar
+                  </Button>
+                </div>
+
+                <div className="space-y-2 text-sm">
+                  <div>
+                    <span className="text-muted-foreground">Link de captura: </span>
+                    <span className="font-mono text-xs">{getCaptureUrl(event)}</span>
+                  </div>
+                  <div>
+                    <span className="text-muted-foreground">Gerador de crachás: </span>
+                    <span className="font-mono text-xs">{getBadgeGeneratorUrl(event)}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">Campos obrigatórios:</span>
+                    {getRequiredFields(event).length === 0 ? (
+                      <Badge variant="outline">Nenhum</Badge>
+                    ) : (
+                      getRequiredFields(event).map(field => (
+                        <Badge key={field} variant="secondary">{FIELD_LABELS[field]}</Badge>
+                      ))
+                    )}
+                  </div>
+                  {event.backdrop_enabled && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-muted-foreground">Fundo das fotos:</span>
+                      <span
+                        className="inline-block w-4 h-4 rounded border bg-cover bg-center"
+                        style={{
+                          backgroundColor: event.backdrop_color,
+                          backgroundImage: event.backdrop_image_url ? `url(${event.backdrop_image_url})` : undefined,
+                        }}
+                      />
+                      <span>{event.backdrop_image_url ? "Imagem" : "Cor sólida"}</span>
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <Button onClick={() => handleCopyCaptureUrl(event)} variant="outline" size="sm">
+                    <Copy className="w-4 h-4 mr-1" />
+                    Copiar Link
+                  </Button>
+                  <Button
+                    onClick={() => window.open(getCaptureUrl(event), '_blank')}
+                    variant="outline"
+                    size="sm"
+                  >
+                    <ExternalLink className="w-4 h-4 mr-1" />
+                    Abrir Captura
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Editar Evento' : 'Novo Evento'}</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="event-name">Nome</Label>
+              <Input
+                id="event-name"
+                value={form.name}
+                onChange={(e) => handleNameChange(e.target.value)}
+                placeholder="Conferência 2025"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="event-slug">Identificador no link</Label>
+              <Input
+                id="event-slug"
+                value={form.slug}
+                onChange={(e) => {
+                  setSlugTouched(true);
+                  setForm(prev => ({ ...prev, slug: e.target.value }));
+                }}
+                placeholder="conferencia-2025"
+                className="font-mono"
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                Link de captura: /e/{slugify(form.slug) || '...'}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="event-starts">Início</Label>
+                <Input
+                  id="event-starts"
+                  type="date"
+                  value={form.starts_on}
+                  onChange={(e) => setForm(prev => ({ ...prev, starts_on: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="event-ends">Fim</Label>
+                <Input
+                  id="event-ends"
+                  type="date"
+                  value={form.ends_on}
+                  onChange={(e) => setForm(prev => ({ ...prev, ends_on: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="event-badges-url">URL do gerador de crachás</Label>
+              <Input
+                id="event-badges-url"
+                type="url"
+                value={form.badge_generator_url}
+                onChange={(e) => setForm(prev => ({ ...prev, badge_generator_url: e.target.value }))}
+                placeholder={getBadgeGeneratorUrl(null)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Campos obrigatórios na captura</Label>
+              <div className="flex gap-6">
+                {(Object.keys(FIELD_LABELS) as EventField[]).map(field => (
+                  <label key={field} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={form.required_fields.includes(field)}
+                      onCheckedChange={(checked) => toggleRequiredField(field, checked === true)}
+                    />
+                    {FIELD_LABELS[field]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3 rounded-lg border p-3">
+              <label className="flex items-center justify-between gap-4 text-sm cursor-pointer">
+                <span>
+                  <span className="font-medium">Substituir o fundo das fotos</span>
+                  <span className="block text-xs text-muted-foreground">
+                    Os tablets separam a pessoa do fundo e guardam também uma versão com este fundo
+                  </span>
+                </span>
+                <Switch
+                  checked={form.backdrop_enabled}
+                  onCheckedChange={(backdrop_enabled) => setForm(prev => ({ ...prev, backdrop_enabled }))}
+                />
+              </label>
+
+              {form.backdrop_enabled && (
+                <>
+                  <ColorField
+                    id="event-backdrop-color"
+                    label="Cor de fundo"
+                    value={form.backdrop_color}
+                    onChange={(backdrop_color) => setForm(prev => ({ ...prev, backdrop_color }))}
+                  />
+
+                  <div className="space-y-1">
+                    <Label className="text-xs">Imagem de fundo (opcional)</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        value={form.backdrop_image_url}
+                        onChange={(e) => setForm(prev => ({ ...prev, backdrop_image_url: e.target.value }))}
+                        placeholder="https://..."
+                        className="h-8"
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className="h-8"
+                        onClick={() => backdropInputRef.current?.click()}
+                        disabled={isUploadingBackdrop}
+                      >
+                        {isUploadingBackdrop ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                    <input
+                      ref={backdropInputRef}
+                      type="file"
+                      accept="image/png,image/jpeg,image/webp"
+                      className="hidden"
+                      onChange={handleBackdropUpload}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSaving || isUploadingBackdrop}>
+                {isSaving ? "A guardar..." : "Guardar"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EventManager;
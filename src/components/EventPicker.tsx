@@ -0,0 +1,38 @@
+import { CalendarDays } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatEventDates, type BadgeEvent } from "@/lib/events";
+
+interface EventPickerProps {
+  events: BadgeEvent[];
+  value: BadgeEvent | null;
+  onChange: (slug: string | null) => void;
+  // Label of the "no event" option
+  allLabel?: string;
+}
+
+const ALL_EVENTS = '__all__';
+
+const EventPicker = ({ events, value, onChange, allLabel = "Todos os eventos" }: EventPickerProps) => {
+  return (
+    <Select
+      value={value?.slug ?? ALL_EVENTS}
+      onValueChange={(slug) => onChange(slug === ALL_EVENTS ? null : slug)}
+    >
+      <SelectTrigger className="w-72 h-12">
+        <CalendarDays className="w-4 h-4 mr-2 text-muted-foreground" />
+        <SelectValue placeholder="Escolher evento" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_EVENTS}>{allLabel}</SelectItem>
+        {events.map(event => (
+          <SelectItem key={event.id} value={event.slug}>
+            {event.name}
+            <span className="ml-2 text-xs text-muted-foreground">{formatEventDates(event)}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default EventPicker;
@@ -0,0 +1,42 @@
+import { NavLink } from "react-router-dom";
+import { CalendarDays, Images, LayoutTemplate, ScrollText, Tablet, Users } from "lucide-react";
+import { useStaff } from "@/hooks/use-staff";
+import { cn } from "@/lib/utils";
+
+const links = [
+  { to: '/lista', label: 'Fotos', icon: Images, adminOnly: false },
+  { to: '/lista/eventos', label: 'Eventos', icon: CalendarDays, adminOnly: true },
+  { to: '/lista/modelos', label: 'Modelos', icon: LayoutTemplate, adminOnly: true },
+  { to: '/lista/participantes', label: 'Participantes', icon: Users, adminOnly: true },
+  { to: '/lista/postos', label: 'Postos', icon: Tablet, adminOnly: true },
+  { to: '/lista/auditoria', label: 'Auditoria', icon: ScrollText, adminOnly: true },
+];
+
+const ManagementNav = () => {
+  const { isAdmin } = useStaff();
+
+  return (
+    <nav className="flex gap-1 mb-6 border-b">
+      {links
+        .filter(link => isAdmin || !link.adminOnly)
+        .map(({ to, label, icon: Icon }) => (
+          <NavLink
+            key={to}
+            to={to}
+            end
+            className={({ isActive }) => cn(
+              "flex items-center gap-2 px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors",
+              isActive
+                ? "border-primary text-foreground"
+                : "border-transparent text-muted-foreground hover:text-foreground"
+            )}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </NavLink>
+        ))}
+    </nav>
+  );
+};
+
+export default ManagementNav;
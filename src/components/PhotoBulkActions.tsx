@@ -0,0 +1,336 @@
+import { useState } from "react";
+import JSZip from "jszip";
+import { Archive, ChevronDown, FileSpreadsheet, Images, ListChecks, Printer, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import PrintSheetDialog from "@/components/PrintSheetDialog";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { logPhotoAction } from "@/lib/audit";
+import { runBulk, type BulkFailure, type BulkProgress } from "@/lib/bulk";
+import { toCsv } from "@/lib/csv";
+import { downloadBlob, safeFileName } from "@/lib/download";
+import type { BadgeEvent } from "@/lib/events";
+import {
+  PHOTO_STATUS_ACTIONS,
+  PHOTO_STATUS_LABELS,
+  PHOTO_STATUSES,
+  transitionPhotoStatus,
+  type PhotoStatus,
+} from "@/lib/photo-status";
+import { getPhotoUrl, getStoredPaths, isMissingThumbnails, photoFileName, photoLabel, type Photo } from "@/lib/photos";
+import { createThumbnails } from "@/lib/thumbnails";
+
+interface PhotoBulkActionsProps {
+  selectedPhotos: Photo[];
+  events: BadgeEvent[];
+  onClearSelection: () => void;
+  // Called after any action that changed photos, to reload the list
+  onComplete: () => void;
+}
+
+interface BulkRun {
+  title: string;
+  progress: BulkProgress;
+  failures: BulkFailure[];
+  isRunning: boolean;
+}
+
+const PhotoBulkActions = ({ selectedPhotos, events, onClearSelection, onComplete }: PhotoBulkActionsProps) => {
+  const [run, setRun] = useState<BulkRun | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [printOpen, setPrintOpen] = useState(false);
+
+  const count = selectedPhotos.length;
+  const isRunning = run?.isRunning ?? false;
+  const missingThumbnails = selectedPhotos.filter(isMissingThumbnails);
+
+  const startRun = async (
+    title: string,
+    action: (photo: Photo) => Promise<void>,
+    concurrency?: number,
+    photos = selectedPhotos,
+  ) => {
+    setRun({ title, progress: { done: 0, total: photos.length }, failures: [], isRunning: true });
+
+    const failures = await runBulk(photos, action, {
+      label: photoLabel,
+      concurrency,
+      onProgress: (progress) => setRun(prev => prev && { ...prev, progress }),
+    });
+
+    setRun(prev => prev && { ...prev, failures, isRunning: false });
+    return failures;
+  };
+
+  const handleSetStatus = async (status: PhotoStatus) => {
+    const failures = await startRun(
+      PHOTO_STATUS_ACTIONS[status],
+      async (photo) => {
+        // Photos already in the status count as done
+        if (photo.status === status) return;
+        const moved = await transitionPhotoStatus([photo.id], status);
+        if (!moved.has(photo.id)) {
+          throw new Error(`Não pode passar de "${PHOTO_STATUS_LABELS[photo.status]}" a "${PHOTO_STATUS_LABELS[status]}"`);
+        }
+      },
+      6,
+    );
+
+    onComplete();
+    if (failures.length === 0) {
+      onClearSelection();
+    }
+  };
+
+  const handleDelete = async () => {
+    setConfirmDelete(false);
+
+    const failures = await startRun("Eliminar fotos", async (photo) => {
+      // The row goes first: if it can't be deleted the photo keeps its files,
+      // and files left behind by a failed removal only take up space
+      const { data, error } = await supabase
+        .from('photos')
+        .delete()
+        .eq('id', photo.id)
+        .select('id');
+
+      if (error) throw error;
+      if (!data?.length) throw new Error('Foto não encontrada ou sem permissão');
+
+      const paths = getStoredPaths(photo);
+      if (paths.length > 0) {
+        const { error: storageError } = await supabase.storage.from('photos').remove(paths);
+        if (storageError) console.error('Error removing photo files:', storageError);
+      }
+    });
+
+    onComplete();
+    if (failures.length === 0) {
+      onClearSelection();
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    const zip = new JSZip();
+
+    const failures = await startRun("Descarregar ZIP", async (photo) => {
+      const photoUrl = await getPhotoUrl(photo);
+      const response = await fetch(photoUrl);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const blob = await response.blob();
+
+      // Name first so the archive sorts by attendee; the id keeps names unique
+      const prefix = photo.name ? safeFileName(photo.name) || undefined : undefined;
+      zip.file(photoFileName(photo, prefix), blob);
+    });
+
+    if (failures.length === count) return;
+
+    try {
+      const content = await zip.generateAsync({ type: 'blob' });
+      downloadBlob(content, `fotos_${new Date().toISOString().slice(0, 10)}.zip`);
+      const failedIds = new Set(failures.map(failure => failure.id));
+      const zippedIds = selectedPhotos.map(photo => photo.id).filter(id => !failedIds.has(id));
+      void logPhotoAction('photo_downloaded', zippedIds, { via: 'zip' });
+    } catch (error) {
+      console.error('Error generating ZIP:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao gerar o ficheiro ZIP",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Photos captured before the tablets sent thumbnails; decoding full
+  // photos is heavy, so only two at a time
+  const handleCreateThumbnails = async () => {
+    await startRun("Gerar miniaturas", createThumbnails, 2, missingThumbnails);
+    onComplete();
+  };
+
+  const handleExportCsv = () => {
+    const eventNames = new Map(events.map(event => [event.id, event.name]));
+    const csv = toCsv(selectedPhotos, [
+      { header: 'id', value: photo => photo.id },
+      { header: 'criada_em', value: photo => photo.created_at },
+      { header: 'evento', value: photo => (photo.event_id && eventNames.get(photo.event_id)) || '' },
+      { header: 'nome', value: photo => photo.name },
+      { header: 'funcao', value: photo => photo.role },
+      { header: 'estado', value: photo => PHOTO_STATUS_LABELS[photo.status] },
+      { header: 'no_local', value: photo => (photo.is_walk_in ? 'sim' : 'nao') },
+      { header: 'impressa_em', value: photo => photo.printed_at },
+      { header: 'ficheiro', value: photo => photo.file_path },
+    ]);
+    downloadBlob(csv, `fotos_${new Date().toISOString().slice(0, 10)}.csv`);
+    void logPhotoAction('photo_exported', selectedPhotos.map(photo => photo.id));
+
+    toast({
+      title: "CSV exportado",
+      description: `${count} fotos exportadas`,
+    });
+  };
+
+  const handlePrinted = (allPrinted: boolean) => {
+    onComplete();
+    if (allPrinted) {
+      onClearSelection();
+    }
+  };
+
+  if (count === 0 && !run && !printOpen) {
+    return null;
+  }
+
+  return (
+    <>
+      {count > 0 && (
+        <Card className="sticky top-4 z-20 p-3 flex flex-wrap items-center gap-2 shadow-lg">
+          <span className="text-sm font-medium px-2">
+            {count === 1 ? "1 foto selecionada" : `${count} fotos selecionadas`}
+          </span>
+
+          <div className="flex flex-wrap gap-2 ml-auto">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm" variant="secondary" disabled={isRunning}>
+                  <ListChecks className="w-4 h-4 mr-1" />
+                  Mudar estado
+                  <ChevronDown className="w-4 h-4 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                {PHOTO_STATUSES.map(status => (
+                  <DropdownMenuItem key={status} onSelect={() => handleSetStatus(status)}>
+                    {PHOTO_STATUS_LABELS[status]}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button size="sm" variant="outline" onClick={() => setPrintOpen(true)} disabled={isRunning}>
+              <Printer className="w-4 h-4 mr-1" />
+              Folha de impressão
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleDownloadZip} disabled={isRunning}>
+              <Archive className="w-4 h-4 mr-1" />
+              ZIP
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleExportCsv} disabled={isRunning}>
+              <FileSpreadsheet className="w-4 h-4 mr-1" />
+              CSV
+            </Button>
+            {missingThumbnails.length > 0 && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleCreateThumbnails}
+                disabled={isRunning}
+                title={`${missingThumbnails.length} fotos sem miniaturas carregam a foto inteira na lista`}
+              >
+                <Images className="w-4 h-4 mr-1" />
+                Gerar miniaturas
+              </Button>
+            )}
+            <Button size="sm" variant="destructive" onClick={() => setConfirmDelete(true)} disabled={isRunning}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              Eliminar
+            </Button>
+            <Button size="sm" variant="ghost" onClick={onClearSelection} disabled={isRunning}>
+              <X className="w-4 h-4 mr-1" />
+              Limpar
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      <PrintSheetDialog
+        open={printOpen}
+        photos={selectedPhotos}
+        events={events}
+        onClose={() => setPrintOpen(false)}
+        onComplete={handlePrinted}
+      />
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Eliminar {count === 1 ? "1 foto" : `${count} fotos`}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              As fotos e os ficheiros originais serão apagados definitivamente. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Eliminar</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!run} onOpenChange={(open) => !open && !isRunning && setRun(null)}>
+        <DialogContent>
+          {run && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{run.title}</DialogTitle>
+              </DialogHeader>
+
+              <div className="space-y-2">
+                <Progress value={run.progress.total ? (run.progress.done / run.progress.total) * 100 : 0} />
+                <p className="text-sm text-muted-foreground">
+                  {run.progress.done} de {run.progress.total}
+                  {!run.isRunning && ` — ${run.progress.total - run.failures.length} com sucesso`}
+                </p>
+              </div>
+
+              {!run.isRunning && run.failures.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-destructive">
+                    {run.failures.length === 1 ? "1 falha" : `${run.failures.length} falhas`}
+                  </p>
+                  <ScrollArea className="h-48 rounded-md border">
+                    <ul className="p-3 space-y-2 text-sm">
+                      {run.failures.map(failure => (
+                        <li key={failure.id}>
+                          <span className="font-medium">{failure.label}</span>
+                          <span className="text-muted-foreground"> — {failure.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button onClick={() => setRun(null)} disabled={run.isRunning}>
+                  {run.isRunning ? "A processar..." : "Fechar"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PhotoBulkActions;
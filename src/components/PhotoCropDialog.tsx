@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { RefreshCw, Save, ScanFace } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import PhotoEditor from "@/components/PhotoEditor";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { autoCrop, type CropBox } from "@/lib/autocrop";
+import { replaceBackground } from "@/lib/backdrop";
+import { getBackdrop, type BadgeEvent } from "@/lib/events";
+import {
+  defaultEdits,
+  extensionForType,
+  loadNormalizedImage,
+  renderEditedImage,
+  type PhotoEdits,
+} from "@/lib/image";
+import {
+  BADGE_PHOTO_ASPECT_RATIO,
+  PHOTO_FORMAT,
+  PHOTO_MAX_DIMENSION,
+  PHOTO_QUALITY,
+} from "@/lib/photo-settings";
+import type { Photo } from "@/lib/photos";
+import { findFaces, prepareQualityImage } from "@/lib/quality";
+
+interface PhotoCropDialogProps {
+  // The dialog is open while a photo is set
+  photo: Photo | null;
+  event: BadgeEvent | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Face-centred crop for the given rotation and flip, or null without a face
+const findFaceCrop = async (
+  source: HTMLCanvasElement,
+  edits: Pick<PhotoEdits, 'rotation' | 'flipHorizontal'>,
+): Promise<PhotoEdits | null> => {
+  const image = prepareQualityImage(source, edits);
+  const crop = autoCrop(image.width, image.height, await findFaces(image), BADGE_PHOTO_ASPECT_RATIO);
+  return crop ? { rotation: edits.rotation, flipHorizontal: edits.flipHorizontal, crop } : null;
+};
+
+const PhotoCropDialog = ({ photo, event, onClose, onSaved }: PhotoCropDialogProps) => {
+  const [source, setSource] = useState<HTMLCanvasElement | null>(null);
+  const [edits, setEdits] = useState<PhotoEdits | null>(null);
+  const [isCentering, setIsCentering] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    if (!photo) return;
+
+    let cancelled = false;
+    setSource(null);
+    setEdits(null);
+    setLoadFailed(false);
+
+    const load = async () => {
+      // The crop is cut from the original capture; photos taken before
+      // originals were kept only have the processed file
+      const { data, error } = await supabase.storage
+        .from('photos')
+        .download(photo.original_path ?? photo.file_path);
+      if (error) throw error;
+
+      const image = await loadNormalizedImage(data);
+      const saved = photo.crop_box as CropBox | null;
+      const initial = saved
+        ?? await findFaceCrop(image, { rotation: 0, flipHorizontal: false }).catch(error => {
+          console.error('Error finding face:', error);
+          return null;
+        })
+        ?? defaultEdits(image, BADGE_PHOTO_ASPECT_RATIO);
+
+      if (!cancelled) {
+        setSource(image);
+        setEdits({ rotation: initial.rotation, flipHorizontal: initial.flipHorizontal, crop: initial.crop });
+      }
+    };
+
+    load().catch(error => {
+      console.error('Error loading photo for crop:', error);
+      if (!cancelled) setLoadFailed(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [photo]);
+
+  const handleCenterOnFace = async () => {
+    if (!source || !edits) return;
+
+    setIsCentering(true);
+    try {
+      const faceCrop = await findFaceCrop(source, edits);
+      if (faceCrop) {
+        setEdits(faceCrop);
+      } else {
+        toast({
+          title: "Nenhum rosto detetado",
+          description: "Ajuste o recorte manualmente",
+        });
+      }
+    } catch (error) {
+      console.error('Error finding face:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível detetar o rosto neste dispositivo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCentering(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!photo || !source || !edits) return;
+
+    setIsSaving(true);
+    try {
+      // Photos saved on the event's backdrop keep it in the new crop
+      const backdrop = photo.backdrop_path ? getBackdrop(event) : null;
+      const image = backdrop ? await replaceBackground(source, edits, backdrop) : source;
+
+      const crop = await renderEditedImage(image, edits, {
+        maxDimension: PHOTO_MAX_DIMENSION,
+        format: PHOTO_FORMAT,
+        quality: PHOTO_QUALITY,
+      });
+
+      // New file name on every save, so browsers and the CDN never serve the old crop
+      const cropPath = `crops/${photo.id}-${Date.now()}.${extensionForType(crop.type)}`;
+      const { error: uploadError } = await supabase.storage
+        .from('photos')
+        .upload(cropPath, crop, { cacheControl: '3600', contentType: crop.type });
+      if (uploadError) throw uploadError;
+
+      const cropBox: CropBox = { ...edits, auto: false };
+      const { error } = await supabase
+        .from('photos')
+        .update({ crop_path: cropPath, crop_box: cropBox as Json })
+        .eq('id', photo.id);
+      if (error) {
+        await supabase.storage.from('photos').remove([cropPath]);
+        throw error;
+      }
+
+      if (photo.crop_path) {
+        const { error: removeError } = await supabase.storage.from('photos').remove([photo.crop_path]);
+        if (removeError) console.error('Error removing previous crop:', removeError);
+      }
+
+      toast({
+        title: "Recorte guardado",
+        description: "O crachá passa a usar o novo recorte",
+      });
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error saving crop:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao guardar o recorte",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isBusy = isCentering || isSaving;
+
+  return (
+    <Dialog open={!!photo} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Recorte do crachá</DialogTitle>
+          <DialogDescription>
+            {photo?.crop_box && (photo.crop_box as CropBox).auto
+              ? "Recorte automático centrado no rosto. Arraste para o ajustar."
+              : "Arraste o recorte para ajustar a foto usada no crachá."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {source && edits ? (
+          <PhotoEditor
+            source={source}
+            value={edits}
+            onChange={setEdits}
+            aspect={BADGE_PHOTO_ASPECT_RATIO}
+            disabled={isBusy}
+          />
+        ) : loadFailed ? (
+          <p className="py-16 text-center text-sm text-muted-foreground">
+            Não foi possível carregar a foto original.
+          </p>
+        ) : (
+          <div className="flex justify-center py-16">
+            <RefreshCw className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleCenterOnFace} disabled={!edits || isBusy}>
+            <ScanFace className={`w-4 h-4 mr-2 ${isCentering ? 'animate-pulse' : ''}`} />
+            Centrar no rosto
+          </Button>
+          <Button onClick={handleSave} disabled={!edits || isBusy}>
+            {isSaving ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            {isSaving ? "A guardar..." : "Guardar recorte"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PhotoCropDialog;
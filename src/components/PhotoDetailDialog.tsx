@@ -0,0 +1,92 @@
+import { Download } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import PhotoImage from "@/components/PhotoImage";
+import { PHOTO_STATUS_LABELS } from "@/lib/photo-status";
+import { photoLabel, type Photo } from "@/lib/photos";
+import { qualityIssues, type PhotoQuality } from "@/lib/quality";
+
+interface PhotoDetailDialogProps {
+  // The dialog is open while a photo is set
+  photo: Photo | null;
+  onClose: () => void;
+  onDownload: (photo: Photo) => void;
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('pt-PT', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+// The grid only shows thumbnails; the full files load here
+const PhotoDetailDialog = ({ photo, onClose, onDownload }: PhotoDetailDialogProps) => {
+  const versions = photo
+    ? [
+      { path: photo.file_path, label: "Foto" },
+      { path: photo.backdrop_path, label: "Fundo substituído" },
+      { path: photo.crop_path, label: "Recorte do crachá" },
+    ].filter(version => !!version.path)
+    : [];
+  const issues = photo ? qualityIssues(photo.quality as PhotoQuality | null) : [];
+
+  return (
+    <Dialog open={!!photo} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        {photo && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{photoLabel(photo)}</DialogTitle>
+              <DialogDescription>
+                {photo.role ? `${photo.role} · ` : ""}{formatDate(photo.created_at)} · ID {photo.id.slice(-8)}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className={`grid gap-4 ${versions.length > 1 ? "md:grid-cols-2" : ""}`}>
+              {versions.map(version => (
+                <figure key={version.label} className="space-y-1">
+                  <PhotoImage
+                    path={version.path}
+                    alt={`Foto de ${photoLabel(photo)} (${version.label.toLowerCase()})`}
+                    className="w-full max-h-[60vh] rounded-md bg-muted object-contain"
+                  />
+                  <figcaption className="text-center text-xs text-muted-foreground">{version.label}</figcaption>
+                </figure>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{PHOTO_STATUS_LABELS[photo.status]}</Badge>
+              {photo.is_walk_in && <Badge variant="outline">No local</Badge>}
+              {photo.printed_at && <Badge variant="outline">Impressa em {formatDate(photo.printed_at)}</Badge>}
+              {issues.map(issue => (
+                <Badge
+                  key={issue.label}
+                  variant="outline"
+                  className={issue.level === 'fail' ? 'border-destructive text-destructive' : 'border-warning text-warning'}
+                >
+                  {issue.label}
+                </Badge>
+              ))}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onDownload(photo)}>
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+              <Button onClick={onClose}>Fechar</Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PhotoDetailDialog;
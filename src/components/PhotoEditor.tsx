@@ -0,0 +1,180 @@
+import { useMemo, useRef } from "react";
+import { FlipHorizontal, RotateCcw, RotateCw, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  centeredCrop,
+  drawTransformed,
+  rotatedSize,
+  type CropRect,
+  type PhotoEdits,
+  type Rotation,
+} from "@/lib/image";
+
+interface PhotoEditorProps {
+  // EXIF-normalised source image
+  source: HTMLCanvasElement;
+  value: PhotoEdits;
+  onChange: (edits: PhotoEdits) => void;
+  // Crop box aspect ratio (width / height)
+  aspect: number;
+  disabled?: boolean;
+}
+
+const PREVIEW_MAX_SIZE = 720;
+const MIN_CROP_WIDTH = 0.15;
+
+type DragMode = 'move' | 'resize';
+
+interface DragState {
+  mode: DragMode;
+  pointerX: number;
+  pointerY: number;
+  crop: CropRect;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const PhotoEditor = ({ source, value, onChange, aspect, disabled }: PhotoEditorProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const { rotation, flipHorizontal, crop } = value;
+
+  const previewUrl = useMemo(() => {
+    return drawTransformed(source, { rotation, flipHorizontal }, PREVIEW_MAX_SIZE)
+      .toDataURL('image/jpeg', 0.85);
+  }, [source, rotation, flipHorizontal]);
+
+  const imageSize = rotatedSize(source.width, source.height, rotation);
+  // Crop height as a fraction of the image for a given fractional width
+  const heightForWidth = (width: number) => (width * imageSize.width) / (imageSize.height * aspect);
+
+  const rotate = (delta: 90 | -90) => {
+    const nextRotation = (((rotation + delta) % 360 + 360) % 360) as Rotation;
+    const size = rotatedSize(source.width, source.height, nextRotation);
+    // A new orientation changes the image aspect, so start from a fresh crop
+    onChange({ ...value, rotation: nextRotation, crop: centeredCrop(size.width, size.height, aspect) });
+  };
+
+  const flip = () => {
+    // Mirror the crop box too so it keeps framing the same subject
+    onChange({
+      ...value,
+      flipHorizontal: !flipHorizontal,
+      crop: { ...crop, x: 1 - crop.x - crop.width },
+    });
+  };
+
+  const handlePointerDown = (mode: DragMode) => (e: React.PointerEvent) => {
+    if (disabled) return;
+    e.preventDefault();
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    dragRef.current = { mode, pointerX: e.clientX, pointerY: e.clientY, crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const container = containerRef.current;
+    if (!drag || !container) return;
+
+    const rect = container.getBoundingClientRect();
+    const dx = (e.clientX - drag.pointerX) / rect.width;
+    const dy = (e.clientY - drag.pointerY) / rect.height;
+
+    if (drag.mode === 'move') {
+      onChange({
+        ...value,
+        crop: {
+          ...drag.crop,
+          x: clamp(drag.crop.x + dx, 0, 1 - drag.crop.width),
+          y: clamp(drag.crop.y + dy, 0, 1 - drag.crop.height),
+        },
+      });
+      return;
+    }
+
+    // Resize from the bottom-right corner, keeping the aspect ratio
+    const maxWidth = Math.min(1 - drag.crop.x, ((1 - drag.crop.y) * imageSize.height * aspect) / imageSize.width);
+    const width = clamp(drag.crop.width + dx, Math.min(MIN_CROP_WIDTH, maxWidth), maxWidth);
+    onChange({
+      ...value,
+      crop: { ...drag.crop, width, height: heightForWidth(width) },
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        ref={containerRef}
+        className="relative max-w-md mx-auto overflow-hidden rounded-lg shadow-md select-none touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <img src={previewUrl} alt="Foto capturada" className="w-full block" draggable={false} />
+
+        <div
+          className="absolute border-2 border-white cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+          style={{
+            left: `${crop.x * 100}%`,
+            top: `${crop.y * 100}%`,
+            width: `${crop.width * 100}%`,
+            height: `${crop.height * 100}%`,
+          }}
+          onPointerDown={handlePointerDown('move')}
+        >
+          {/* Rule-of-thirds guides */}
+          <div className="absolute inset-y-0 left-1/3 border-l border-white/40" />
+          <div className="absolute inset-y-0 left-2/3 border-l border-white/40" />
+          <div className="absolute inset-x-0 top-1/3 border-t border-white/40" />
+          <div className="absolute inset-x-0 top-2/3 border-t border-white/40" />
+
+          <div
+            className="absolute -right-3 -bottom-3 w-6 h-6 rounded-full bg-white border-2 border-primary cursor-nwse-resize"
+            onPointerDown={handlePointerDown('resize')}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-2">
+        <Button type="button" variant="outline" onClick={() => rotate(-90)} disabled={disabled}>
+          <RotateCcw className="w-4 h-4 mr-1" />
+          Rodar à esquerda
+        </Button>
+        <Button type="button" variant="outline" onClick={() => rotate(90)} disabled={disabled}>
+          <RotateCw className="w-4 h-4 mr-1" />
+          Rodar à direita
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={flip}
+          disabled={disabled}
+        >
+          <FlipHorizontal className="w-4 h-4 mr-1" />
+          Espelhar
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => onChange({
+            rotation: 0,
+            flipHorizontal: false,
+            crop: centeredCrop(source.width, source.height, aspect),
+          })}
+          disabled={disabled}
+        >
+          <Undo2 className="w-4 h-4 mr-1" />
+          Repor
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoEditor;
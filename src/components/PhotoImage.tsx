@@ -0,0 +1,36 @@
+import { useSignedUrl } from "@/hooks/use-signed-url";
+
+interface PhotoImageProps {
+  // Path in the photos bucket
+  path: string | null;
+  alt: string;
+  className?: string;
+}
+
+// Image from the private photos bucket, through a signed URL
+const PhotoImage = ({ path, alt, className }: PhotoImageProps) => {
+  const { url, isError } = useSignedUrl(path);
+
+  if (isError) {
+    return <img src="/placeholder.svg" alt={alt} className={className} />;
+  }
+
+  if (!url) {
+    return <div className={className} aria-label={alt} role="img" />;
+  }
+
+  return (
+    <img
+      src={url}
+      alt={alt}
+      className={className}
+      loading="lazy"
+      decoding="async"
+      onError={(e) => {
+        e.currentTarget.src = '/placeholder.svg';
+      }}
+    />
+  );
+};
+
+export default PhotoImage;
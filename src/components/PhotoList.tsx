@@ -1,36 +1,166 @@
-import { useState, useEffect, useCallback } from "react";
-import { Download, Check, RefreshCw, Image as ImageIcon, ExternalLink, Copy, Search, Volume2, LogOut, Settings, Play, Square } from "lucide-react";
+import { useState, useEffect, useCallback, useLayoutEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useWindowVirtualizer } from "@tanstack/react-virtual";
+import { Download, Crop, IdCard, Merge, RefreshCw, Image as ImageIcon, ExternalLink, Copy, Search, ShieldAlert, Volume2, LogOut, Settings, Play, Printer, Square, Tag, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "@/hooks/use-toast";
+import { useStaff } from "@/hooks/use-staff";
+import { useSelectedEvent } from "@/hooks/use-events";
+import { useLivePhotos, type LiveStatus } from "@/hooks/use-live-photos";
+import { usePhotoDuplicates } from "@/hooks/use-photo-duplicates";
+import {
+  fetchAllMatchingPhotos,
+  usePhotoCounts,
+  usePhotoFilterParams,
+  usePhotos,
+  type PhotoFilters,
+  type PhotoSort,
+  type QualityFilter,
+  type StatusFilter,
+} from "@/hooks/use-photos";
 import { supabase } from "@/integrations/supabase/client";
+import { getBadgeGeneratorUrl } from "@/lib/events";
+import { logPhotoAction } from "@/lib/audit";
+import { downloadBlob } from "@/lib/download";
+import type { PhotoDuplicate } from "@/lib/duplicates";
+import { PHOTO_STATUS_LABELS, PHOTO_STATUSES, type PhotoStatus } from "@/lib/photo-status";
+import { getBadgePhotoUrl, getPhotoUrl, getProcessedThumbnailPath, getThumbnailPath, photoFileName, type Photo } from "@/lib/photos";
+import { qualityIssues, QUALITY_LEVEL_LABELS, type PhotoQuality } from "@/lib/quality";
+import BadgeDialog from "@/components/BadgeDialog";
+import ThermalLabelDialog from "@/components/ThermalLabelDialog";
+import PhotoCropDialog from "@/components/PhotoCropDialog";
+import PhotoDetailDialog from "@/components/PhotoDetailDialog";
+import PhotoImage from "@/components/PhotoImage";
+import PhotoMergeDialog from "@/components/PhotoMergeDialog";
+import PhotoRejectDialog from "@/components/PhotoRejectDialog";
+import PhotoStatusActions from "@/components/PhotoStatusActions";
+import PhotoStatusHistoryDialog from "@/components/PhotoStatusHistoryDialog";
+import EventPicker from "@/components/EventPicker";
+import ManagementNav from "@/components/ManagementNav";
+import PhotoBulkActions from "@/components/PhotoBulkActions";
 
-interface Photo {
-  id: string;
-  file_url: string;
-  file_path?: string;
-  created_at: string;
-  processed: boolean;
-  name?: string;
-  role?: string;
-}
+const SORT_LABELS: Record<PhotoSort, string> = {
+  newest: 'Mais recentes',
+  oldest: 'Mais antigas',
+  name: 'Nome',
+  role: 'Função',
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const STATUS_BADGE_VARIANTS: Record<PhotoStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  captured: 'secondary',
+  in_review: 'outline',
+  approved: 'default',
+  rejected: 'destructive',
+  badge_generated: 'default',
+  printed: 'default',
+  collected: 'outline',
+};
+
+const LIVE_STATUS: Record<LiveStatus, { label: string; className: string }> = {
+  connecting: { label: 'A ligar...', className: 'bg-muted-foreground' },
+  live: { label: 'Tempo real ativo', className: 'bg-green-500' },
+  offline: { label: 'Sem tempo real — a tentar novamente', className: 'bg-destructive' },
+};
+
+const uniqueById = (photos: Photo[]) => {
+  const seen = new Set<string>();
+  return photos.filter(photo => {
+    if (seen.has(photo.id)) return false;
+    seen.add(photo.id);
+    return true;
+  });
+};
+
+// Grid columns at Tailwind's lg and md breakpoints, widest first
+const GRID_BREAKPOINTS = [
+  { minWidth: 1024, columns: 3 },
+  { minWidth: 768, columns: 2 },
+];
+
+// A card with its thumbnail and buttons; rows are measured once rendered
+const ESTIMATED_ROW_HEIGHT = 800;
+
+const currentGridColumns = () => {
+  return GRID_BREAKPOINTS.find(breakpoint => window.matchMedia(`(min-width: ${breakpoint.minWidth}px)`).matches)?.columns ?? 1;
+};
+
+const useGridColumns = () => {
+  const [columns, setColumns] = useState(currentGridColumns);
 
-type FilterType = 'pending' | 'processed' | 'all';
+  useEffect(() => {
+    const queries = GRID_BREAKPOINTS.map(breakpoint => window.matchMedia(`(min-width: ${breakpoint.minWidth}px)`));
+    const onChange = () => setColumns(currentGridColumns());
+    queries.forEach(query => query.addEventListener('change', onChange));
+    return () => queries.forEach(query => query.removeEventListener('change', onChange));
+  }, []);
+
+  return columns;
+};
 
 // Module-level variables for auto-open functionality
 let generatorWin: Window | null = null;
 let lastAutoOpenTime = 0;
 
 const PhotoList = () => {
-  const [photos, setPhotos] = useState<Photo[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [processingIds, setProcessingIds] = useState<Set<string>>(new Set());
-  const [filter, setFilter] = useState<FilterType>('pending');
-  const [searchTerm, setSearchTerm] = useState('');
+  const { staff } = useStaff();
+  const { event, events, setEventSlug } = useSelectedEvent();
+  const eventId = event?.id ?? null;
+  const { status: filter, search, sort, from, to, quality, setParams } = usePhotoFilterParams();
+  const filters: PhotoFilters = { eventId, status: filter, search, sort, from, to, quality };
+  const queryClient = useQueryClient();
+  const {
+    data,
+    isLoading,
+    isError,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = usePhotos(filters);
+  const { data: counts } = usePhotoCounts(filters);
+  const { data: duplicates } = usePhotoDuplicates(filters.eventId);
+  // Live changes can shift offsets, so neighbouring pages may share a row
+  const photos = uniqueById(data?.pages.flatMap(page => page.photos) ?? []);
+  const totalMatching = data?.pages[0]?.total ?? 0;
+
+  // Typed text; written to the URL once the user stops typing
+  const [searchInput, setSearchInput] = useState(search);
+  // Keyed by id so selections can include photos from pages not loaded yet
+  const [selected, setSelected] = useState<Map<string, Photo>>(new Map());
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
+  // Anchor for shift-click range selection
+  const lastSelectedIdRef = useRef<string | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Photo shown in the built-in badge renderer
+  const [badgePhoto, setBadgePhoto] = useState<Photo | null>(null);
+  const [labelPhoto, setLabelPhoto] = useState<Photo | null>(null);
+  const [cropPhoto, setCropPhoto] = useState<Photo | null>(null);
+  const [mergeDuplicate, setMergeDuplicate] = useState<PhotoDuplicate | null>(null);
+  const [historyPhoto, setHistoryPhoto] = useState<Photo | null>(null);
+  const [rejectPhoto, setRejectPhoto] = useState<Photo | null>(null);
+  // Photo opened at full size
+  const [detailPhoto, setDetailPhoto] = useState<Photo | null>(null);
+
+  // Only the rows near the viewport are rendered, so large events scroll
+  // smoothly and only visible thumbnails are fetched
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [gridTop, setGridTop] = useState(0);
+  const columns = useGridColumns();
+  const rowVirtualizer = useWindowVirtualizer({
+    count: Math.ceil(photos.length / columns),
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    overscan: 2,
+    scrollMargin: gridTop,
+  });
   
   // Auto-open state management
   const [autoOpenGenerator, setAutoOpenGenerator] = useState(() => {
@@ -40,16 +170,17 @@ const PhotoList = () => {
     return sessionStorage.getItem('generatorArmed') === 'true';
   });
 
-  const BADGES_URL = import.meta.env.VITE_BADGES_URL || 'https://growing-badges.lovable.app';
+  const BADGES_URL = getBadgeGeneratorUrl(event);
 
   // Auto-open utility functions
   const getBadgeUrl = async (photo: Photo): Promise<string> => {
-    const photoUrl = await getPhotoUrl(photo);
+    const photoUrl = await getBadgePhotoUrl(photo);
+    const photoEvent = events.find(e => e.id === photo.event_id);
     const params = new URLSearchParams();
     params.append('photo', photoUrl);
     if (photo.name) params.append('name', photo.name);
     if (photo.role) params.append('role', photo.role);
-    return `${BADGES_URL}/?${params.toString()}`;
+    return `${getBadgeGeneratorUrl(photoEvent)}/?${params.toString()}`;
   };
 
   const getOpenedPhotosSet = (): Set<string> => {
@@ -129,29 +260,28 @@ const PhotoList = () => {
       return;
     }
 
+    // New photos don't come from a click, so the browser only lets the tab
+    // opened when arming be reused; a new one would be blocked
+    if (!generatorWin || generatorWin.closed) {
+      setIsArmed(false);
+      sessionStorage.removeItem('generatorArmed');
+      generatorWin = null;
+      toast({
+        title: "Separador do gerador fechado",
+        description: "Arme novamente o auto-abrir ou clique no botão para abrir manualmente.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       const badgeUrl = await getBadgeUrl(photo);
-      
-      if (generatorWin && !generatorWin.closed) {
-        // Use existing armed window
-        generatorWin.location.href = badgeUrl;
-        generatorWin.focus();
-      } else {
-        // Fallback to new window
-        const newWin = window.open(badgeUrl, '_blank');
-        if (!newWin) {
-          toast({
-            title: "Bloqueio de pop-up",
-            description: "Não foi possível abrir automaticamente. Clique no botão para abrir manualmente.",
-            variant: "destructive",
-          });
-          return;
-        }
-        generatorWin = newWin;
-      }
+      generatorWin.location.href = badgeUrl;
+      generatorWin.focus();
       
       markPhotoAsOpened(photo.id);
       lastAutoOpenTime = now;
+      void logPhotoAction('photo_opened_in_generator', [photo.id], { auto: true });
       
       toast({
         title: "📋 Gerador aberto automaticamente",
@@ -167,78 +297,33 @@ const PhotoList = () => {
     }
   };
 
-  const handleLogout = () => {
-    sessionStorage.removeItem('list_auth_ok');
-    window.location.reload();
+  const handleLogout = async () => {
+    // AuthGuard listens for the sign-out and shows the login form again
+    await supabase.auth.signOut();
   };
 
-  const fetchPhotos = useCallback(async (filterType: FilterType = filter) => {
-    try {
-      let query = supabase
-        .from('photos')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(100);
-
-      if (filterType === 'pending') {
-        query = query.eq('processed', false);
-      } else if (filterType === 'processed') {
-        query = query.eq('processed', true);
-      }
-
-      const { data, error } = await query;
+  const refreshPhotos = useCallback(() => {
+    return queryClient.invalidateQueries({ queryKey: ['photos'] });
+  }, [queryClient]);
 
-      if (error) {
-        throw error;
-      }
-
-      setPhotos(data || []);
-    } catch (error) {
-      console.error('Error fetching photos:', error);
+  const handleOpenInBadgeGenerator = async (photo: Photo) => {
+    // Opened before signing the photo URL: after the wait the browser no
+    // longer counts it as part of the click and blocks the pop-up
+    const win = window.open('', '_blank');
+    if (!win) {
       toast({
-        title: "Erro",
-        description: "Erro ao carregar fotos",
+        title: "Bloqueio de pop-up",
+        description: "Não foi possível abrir o gerador. Verifique se pop-ups estão permitidos.",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
-    }
-  }, [filter]);
-
-  const getPhotoUrl = async (photo: Photo): Promise<string> => {
-    // If bucket is public, use file_url directly
-    if (photo.file_url) {
-      return photo.file_url;
-    }
-
-    // If bucket is private and we have file_path, create signed URL
-    if (photo.file_path) {
-      try {
-        const { data, error } = await supabase.storage
-          .from('photos')
-          .createSignedUrl(photo.file_path, 900); // 15 minutes
-
-        if (error) throw error;
-        return data.signedUrl;
-      } catch (error) {
-        console.error('Error creating signed URL:', error);
-        return photo.file_url; // Fallback to file_url
-      }
+      return;
     }
 
-    return photo.file_url;
-  };
-
-  const handleOpenInBadgeGenerator = async (photo: Photo) => {
     try {
-      const photoUrl = await getPhotoUrl(photo);
-      const params = new URLSearchParams();
-      params.append('photo', photoUrl);
-      if (photo.name) params.append('name', photo.name);
-      if (photo.role) params.append('role', photo.role);
-      const badgeUrl = `${BADGES_URL}/?${params.toString()}`;
-      window.open(badgeUrl, '_blank');
+      win.location.href = await getBadgeUrl(photo);
+      void logPhotoAction('photo_opened_in_generator', [photo.id]);
     } catch (error) {
+      win.close();
       console.error('Error opening badge generator:', error);
       toast({
         title: "Erro",
@@ -252,9 +337,10 @@ const PhotoList = () => {
     try {
       const photoUrl = await getPhotoUrl(photo);
       await navigator.clipboard.writeText(photoUrl);
+      void logPhotoAction('photo_link_copied', [photo.id]);
       toast({
         title: "Link copiado",
-        description: "URL da foto copiado para a área de transferência",
+        description: "Link temporário da foto copiado para a área de transferência (válido durante pelo menos 10 minutos)",
       });
     } catch (error) {
       console.error('Error copying link:', error);
@@ -271,17 +357,9 @@ const PhotoList = () => {
       const photoUrl = await getPhotoUrl(photo);
       const response = await fetch(photoUrl);
       const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `badge_photo_${photo.id}.jpg`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      window.URL.revokeObjectURL(url);
-      
+      downloadBlob(blob, photoFileName(photo));
+      void logPhotoAction('photo_downloaded', [photo.id]);
+
       toast({
         title: "Download concluído",
         description: "Foto descarregada com sucesso",
@@ -296,49 +374,6 @@ const PhotoList = () => {
     }
   };
 
-  const handleMarkAsProcessed = async (photoId: string) => {
-    setProcessingIds(prev => new Set(prev).add(photoId));
-    
-    try {
-      const { error } = await supabase
-        .from('photos')
-        .update({ processed: true })
-        .eq('id', photoId);
-
-      if (error) {
-        throw error;
-      }
-
-      // Remove from local state if viewing pending only
-      if (filter === 'pending') {
-        setPhotos(prev => prev.filter(photo => photo.id !== photoId));
-      } else {
-        // Update local state to reflect processed status
-        setPhotos(prev => prev.map(photo => 
-          photo.id === photoId ? { ...photo, processed: true } : photo
-        ));
-      }
-      
-      toast({
-        title: "Marcado como processado",
-        description: "Foto marcada como processada",
-      });
-    } catch (error) {
-      console.error('Error marking as processed:', error);
-      toast({
-        title: "Erro",
-        description: "Erro ao marcar como processado",
-        variant: "destructive",
-      });
-    } finally {
-      setProcessingIds(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(photoId);
-        return newSet;
-      });
-    }
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString('pt-PT', {
       day: '2-digit',
@@ -349,6 +384,194 @@ const PhotoList = () => {
     });
   };
 
+  // One card of the grid; it only loads the small thumbnail, the full
+  // photo opens in the detail dialog
+  const renderPhotoCard = (photo: Photo) => (
+    <Card
+      key={photo.id}
+      className={`p-4 hover:shadow-lg transition-shadow ${selected.has(photo.id) ? 'ring-2 ring-primary' : ''}`}
+    >
+      <div className="space-y-4">
+        <div className="relative aspect-square bg-muted rounded-lg overflow-hidden">
+          <div
+            className="absolute top-2 left-2 z-10 rounded bg-background/90 p-1.5 shadow"
+            onClick={(e) => {
+              e.preventDefault();
+              handleToggleSelect(photo, e.shiftKey);
+            }}
+          >
+            <Checkbox
+              checked={selected.has(photo.id)}
+              aria-label="Selecionar foto"
+              className="pointer-events-none"
+            />
+          </div>
+          <button
+            type="button"
+            className="block w-full h-full"
+            onClick={() => setDetailPhoto(photo)}
+            title="Ver foto completa"
+          >
+            {photo.backdrop_path ? (
+              <div className="grid grid-cols-2 h-full gap-px">
+                {[
+                  { path: getProcessedThumbnailPath(photo), label: "Original" },
+                  { path: getThumbnailPath(photo, 'small'), label: "Fundo substituído" },
+                ].map(version => (
+                  <div key={version.label} className="relative">
+                    <PhotoImage
+                      path={version.path}
+                      alt={`Foto do participante (${version.label.toLowerCase()})`}
+                      className="w-full h-full object-cover"
+                    />
+                    <span className="absolute bottom-1 inset-x-1 rounded bg-background/90 px-1 text-center text-xs">
+                      {version.label}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <PhotoImage
+                path={getThumbnailPath(photo, 'small')}
+                alt="Foto do participante"
+                className="w-full h-full object-cover"
+              />
+            )}
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Badge variant="outline">
+              {formatDate(photo.created_at)}
+            </Badge>
+            <Badge variant={STATUS_BADGE_VARIANTS[photo.status]}>
+              {PHOTO_STATUS_LABELS[photo.status]}
+            </Badge>
+            {photo.is_walk_in && (
+              <Badge variant="outline" className="ml-1" title="Nome escrito à mão, sem bilhete nem inscrição">
+                No local
+              </Badge>
+            )}
+            {(photo.quality_level === 'warn' || photo.quality_level === 'fail') && (
+              <Badge
+                variant="outline"
+                className={`ml-1 ${photo.quality_level === 'fail' ? 'border-destructive text-destructive' : 'border-warning text-warning'}`}
+                title={`Qualidade ${QUALITY_LEVEL_LABELS[photo.quality_level].toLowerCase()}: ${qualityIssues(photo.quality as PhotoQuality | null).map(issue => issue.label).join(', ')}`}
+              >
+                <ShieldAlert className="w-3 h-3" />
+              </Badge>
+            )}
+            {duplicates?.get(photo.id) && (
+              <Badge
+                variant="outline"
+                role="button"
+                className="ml-1 cursor-pointer border-warning text-warning"
+                title={duplicates.get(photo.id).length > 1
+                  ? `Parecida com ${duplicates.get(photo.id).length} outras fotos`
+                  : "Parecida com outra foto deste evento"}
+                onClick={() => setMergeDuplicate(duplicates.get(photo.id)[0])}
+              >
+                <Merge className="w-3 h-3 mr-1" />
+                Possível duplicado
+              </Badge>
+            )}
+            {photo.printed_at && (
+              <Badge variant="outline" className="ml-1" title={`Impressa em ${formatDate(photo.printed_at)}`}>
+                <Printer className="w-3 h-3" />
+              </Badge>
+            )}
+            {autoOpenGenerator && photo.status === 'captured' && isArmed && (
+              <Badge variant="default" className="ml-1">
+                AUTO
+              </Badge>
+            )}
+          </div>
+
+          {(photo.name || photo.role) && (
+            <div className="text-sm space-y-1">
+              {photo.name && (
+                <div className="font-medium text-foreground">{photo.name}</div>
+              )}
+              {photo.role && (
+                <div className="text-muted-foreground">{photo.role}</div>
+              )}
+            </div>
+          )}
+
+          <div className="text-xs text-muted-foreground">
+            ID: {photo.id.slice(-8)}
+          </div>
+
+          <div className="grid grid-cols-1 gap-2">
+            <Button
+              onClick={() => handleOpenInBadgeGenerator(photo)}
+              variant="default"
+              className="w-full"
+            >
+              <ExternalLink className="w-4 h-4 mr-2" />
+              Abrir no Gerador de Crachás
+            </Button>
+
+            <Button
+              onClick={() => setBadgePhoto(photo)}
+              variant="outline"
+              className="w-full"
+            >
+              <IdCard className="w-4 h-4 mr-2" />
+              Gerar Crachá (PNG/PDF)
+            </Button>
+
+            <Button
+              onClick={() => setLabelPhoto(photo)}
+              variant="outline"
+              className="w-full"
+            >
+              <Tag className="w-4 h-4 mr-2" />
+              Etiqueta Térmica (ZPL/EPL)
+            </Button>
+
+            <Button
+              onClick={() => setCropPhoto(photo)}
+              variant="outline"
+              className="w-full"
+            >
+              <Crop className="w-4 h-4 mr-2" />
+              {photo.crop_path ? "Ajustar Recorte do Crachá" : "Recortar para o Crachá"}
+            </Button>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                onClick={() => handleCopyLink(photo)}
+                variant="outline"
+                size="sm"
+              >
+                <Copy className="w-4 h-4 mr-1" />
+                Copiar Link
+              </Button>
+
+              <Button
+                onClick={() => handleDownload(photo)}
+                variant="outline"
+                size="sm"
+              >
+                <Download className="w-4 h-4 mr-1" />
+                Download
+              </Button>
+            </div>
+
+            <PhotoStatusActions
+              photo={photo}
+              onChanged={refreshPhotos}
+              onShowHistory={setHistoryPhoto}
+              onReject={setRejectPhoto}
+            />
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+
   const playNotificationSound = () => {
     // Create a simple beep sound
     const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -368,54 +591,149 @@ const PhotoList = () => {
     oscillator.stop(audioContext.currentTime + 0.5);
   };
 
-  const filteredPhotos = photos.filter(photo => {
-    if (searchTerm) {
-      const fileName = photo.file_path || photo.file_url;
-      return fileName.toLowerCase().includes(searchTerm.toLowerCase());
+  const selectedPhotos = [...selected.values()];
+  const allFilteredSelected = totalMatching > 0 && selected.size === totalMatching;
+  const hasFilters = !!(search || from || to || quality !== 'all');
+
+  const handleToggleSelect = (photo: Photo, shiftKey: boolean) => {
+    const anchorIndex = lastSelectedIdRef.current
+      ? photos.findIndex(p => p.id === lastSelectedIdRef.current)
+      : -1;
+    const index = photos.findIndex(p => p.id === photo.id);
+
+    setSelected(prev => {
+      const next = new Map(prev);
+      const select = !prev.has(photo.id);
+
+      if (shiftKey && anchorIndex !== -1 && index !== -1) {
+        // Apply the clicked card's new state to the whole range
+        const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+        photos.slice(start, end + 1).forEach(p => {
+          if (select) next.set(p.id, p);
+          else next.delete(p.id);
+        });
+      } else if (select) {
+        next.set(photo.id, photo);
+      } else {
+        next.delete(photo.id);
+      }
+      return next;
+    });
+
+    lastSelectedIdRef.current = photo.id;
+  };
+
+  const handleSelectAllFiltered = async (checked: boolean) => {
+    lastSelectedIdRef.current = null;
+    if (!checked) {
+      setSelected(new Map());
+      return;
     }
-    return true;
-  });
 
+    // Only part of the result may be loaded: fetch the rest before selecting
+    setIsSelectingAll(true);
+    try {
+      const allPhotos = totalMatching > photos.length ? await fetchAllMatchingPhotos(filters) : photos;
+      setSelected(new Map(allPhotos.map(photo => [photo.id, photo])));
+      if (allPhotos.length < totalMatching) {
+        toast({
+          title: "Seleção limitada",
+          description: `Apenas as primeiras ${allPhotos.length} fotos foram selecionadas`,
+        });
+      }
+    } catch (error) {
+      console.error('Error selecting all photos:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao selecionar todas as fotos",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
+
+  const clearSelection = useCallback(() => {
+    setSelected(new Map());
+    lastSelectedIdRef.current = null;
+  }, []);
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setParams({ search: '', from: null, to: null, quality: 'all' });
+  };
+
+  const handleLiveInsert = async (newPhoto: Photo) => {
+    // Play notification sound and show visual alert
+    playNotificationSound();
+    toast({
+      title: "📸 Nova foto recebida!",
+      description: `Foto criada em ${formatDate(newPhoto.created_at)}`,
+    });
+
+    // Auto-open badge generator if enabled and conditions are met
+    if (autoOpenGenerator && newPhoto.status === 'captured' && isArmed) {
+      await autoOpenBadgeGenerator(newPhoto);
+    }
+  };
+
+  const liveStatus = useLivePhotos(filters, { onInsert: handleLiveInsert });
+
+  // Keep the input in sync when the URL changes (back button, shared link)
   useEffect(() => {
-    fetchPhotos();
-
-    // Set up realtime subscription
-    const channel = supabase
-      .channel('photos-channel')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'photos'
-        },
-        async (payload) => {
-          const newPhoto = payload.new as Photo;
-          setPhotos(prev => [newPhoto, ...prev]);
-          
-          // Play notification sound and show visual alert
-          playNotificationSound();
-          toast({
-            title: "📸 Nova foto recebida!",
-            description: `Foto criada em ${formatDate(newPhoto.created_at)}`,
-          });
-
-          // Auto-open badge generator if enabled and conditions are met
-          if (autoOpenGenerator && !newPhoto.processed && isArmed) {
-            await autoOpenBadgeGenerator(newPhoto);
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [fetchPhotos]);
+    setSearchInput(search);
+  }, [search]);
+
+  useEffect(() => {
+    if (searchInput === search) return;
+    const timer = setTimeout(() => setParams({ search: searchInput.trim() }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, search, setParams]);
+
+  // The window scrolls, so the virtualizer needs where the grid starts on
+  // the page; it moves when the header, filters or selection bar change
+  // size, which also resizes the page
+  const hasPhotos = photos.length > 0;
+  useLayoutEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) return;
+
+    const measure = () => setGridTop(Math.round(grid.getBoundingClientRect().top + window.scrollY));
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, [hasPhotos, isLoading]);
+
+  // Infinite scroll: load the next page when the sentinel below the grid shows up
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
+  // A selection only makes sense within the view it was made in
   useEffect(() => {
-    fetchPhotos(filter);
-  }, [filter, fetchPhotos]);
+    clearSelection();
+  }, [filter, eventId, search, from, to, quality, clearSelection]);
+
+  useEffect(() => {
+    if (isError) {
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar fotos",
+        variant: "destructive",
+      });
+    }
+  }, [isError]);
 
   if (isLoading) {
     return (
@@ -430,12 +748,11 @@ const PhotoList = () => {
     );
   }
 
-  const pendingCount = photos.filter(p => !p.processed).length;
-  const processedCount = photos.filter(p => p.processed).length;
-
   return (
     <div className="min-h-screen bg-background p-6">
       <div className="max-w-6xl mx-auto">
+        <ManagementNav />
+
         <div className="flex items-center justify-between mb-8">
           <div>
             <h1 className="text-3xl font-bold text-foreground mb-2">
@@ -444,11 +761,16 @@ const PhotoList = () => {
             <p className="text-lg text-muted-foreground">
               Gestão de fotos para geração de crachás
             </p>
+            <p className="text-sm text-muted-foreground mt-1">
+              {staff.email} · {staff.role === 'admin' ? 'Administrador' : 'Operador'}
+            </p>
           </div>
           
           <div className="flex gap-3">
+            <EventPicker events={events} value={event} onChange={setEventSlug} />
+
             <Button
-              onClick={() => fetchPhotos()}
+              onClick={() => refetch()}
               variant="outline"
               size="lg"
               className="h-12"
@@ -475,16 +797,71 @@ const PhotoList = () => {
             <div className="relative flex-1 max-w-md">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
               <Input
-                placeholder="Pesquisar por nome do ficheiro..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Pesquisar por nome, função ou ficheiro..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
                 className="pl-10"
               />
             </div>
+            <Select value={sort} onValueChange={(value) => setParams({ sort: value as PhotoSort })}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SORT_LABELS) as PhotoSort[]).map(option => (
+                  <SelectItem key={option} value={option}>
+                    {SORT_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <div className="flex items-center space-x-2 text-sm text-muted-foreground">
               <Volume2 className="w-4 h-4" />
               <span>Som ativo para novas fotos</span>
             </div>
+            <div className="flex items-center space-x-2 text-sm text-muted-foreground" aria-live="polite">
+              <span className={`w-2 h-2 rounded-full ${LIVE_STATUS[liveStatus].className}`} />
+              <span>{LIVE_STATUS[liveStatus].label}</span>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center gap-2">
+              <span className="text-muted-foreground">De</span>
+              <Input
+                type="date"
+                value={from ?? ''}
+                max={to ?? undefined}
+                onChange={(e) => setParams({ from: e.target.value || null })}
+                className="w-auto"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-muted-foreground">Até</span>
+              <Input
+                type="date"
+                value={to ?? ''}
+                min={from ?? undefined}
+                onChange={(e) => setParams({ to: e.target.value || null })}
+                className="w-auto"
+              />
+            </label>
+            <Select value={quality} onValueChange={(value) => setParams({ quality: value as QualityFilter })}>
+              <SelectTrigger className="w-auto">
+                <ShieldAlert className="w-4 h-4 mr-2 text-muted-foreground" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Qualquer qualidade</SelectItem>
+                <SelectItem value="low">Com avisos de qualidade</SelectItem>
+              </SelectContent>
+            </Select>
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={clearFilters}>
+                <X className="w-4 h-4 mr-1" />
+                Limpar filtros
+              </Button>
+            )}
           </div>
 
           {/* Auto-open Controls */}
@@ -546,127 +923,85 @@ const PhotoList = () => {
             </div>
           </Card>
 
-          <Tabs value={filter} onValueChange={(value) => setFilter(value as FilterType)}>
-            <TabsList className="grid w-full max-w-md grid-cols-3">
-              <TabsTrigger value="pending">
-                A Processar ({pendingCount})
-              </TabsTrigger>
-              <TabsTrigger value="processed">
-                Processadas ({processedCount})
-              </TabsTrigger>
+          <Tabs value={filter} onValueChange={(value) => setParams({ status: value as StatusFilter })}>
+            <TabsList className="flex flex-wrap h-auto justify-start">
+              {PHOTO_STATUSES.map(status => (
+                <TabsTrigger key={status} value={status}>
+                  {PHOTO_STATUS_LABELS[status]} ({counts?.[status] ?? '…'})
+                </TabsTrigger>
+              ))}
               <TabsTrigger value="all">
-                Todas ({photos.length})
+                Todas ({counts?.all ?? '…'})
               </TabsTrigger>
             </TabsList>
 
+            <div className="flex items-center justify-between mt-4">
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={allFilteredSelected}
+                  onCheckedChange={(checked) => handleSelectAllFiltered(checked === true)}
+                  disabled={totalMatching === 0 || isSelectingAll}
+                />
+                {isSelectingAll ? "A selecionar..." : `Selecionar todas (${totalMatching})`}
+              </label>
+              <span className="text-xs text-muted-foreground">
+                Shift + clique para selecionar um intervalo
+              </span>
+            </div>
+
+            <div className="mt-4">
+              <PhotoBulkActions
+                selectedPhotos={selectedPhotos}
+                events={events}
+                onClearSelection={clearSelection}
+                onComplete={refreshPhotos}
+              />
+            </div>
+
             <TabsContent value={filter} className="mt-6">
-              {filteredPhotos.length === 0 ? (
+              {photos.length === 0 ? (
                 <Card className="p-12">
                   <div className="text-center">
                     <ImageIcon className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
                     <h2 className="text-xl font-semibold mb-2">
-                      {filter === 'pending' ? 'Nenhuma foto pendente' : 
-                       filter === 'processed' ? 'Nenhuma foto processada' : 
-                       'Nenhuma foto encontrada'}
+                      {filter === 'all'
+                        ? 'Nenhuma foto encontrada'
+                        : `Nenhuma foto no estado "${PHOTO_STATUS_LABELS[filter]}"`}
                     </h2>
                     <p className="text-muted-foreground">
-                      {searchTerm ? 'Tente ajustar o termo de pesquisa' : 'As novas fotos aparecerão aqui automaticamente'}
+                      {hasFilters ? 'Tente ajustar a pesquisa ou os filtros' : 'As novas fotos aparecerão aqui automaticamente'}
                     </p>
                   </div>
                 </Card>
               ) : (
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {filteredPhotos.map((photo) => (
-                    <Card key={photo.id} className="p-4 hover:shadow-lg transition-shadow">
-                      <div className="space-y-4">
-                        <div className="aspect-square bg-muted rounded-lg overflow-hidden">
-                          <img
-                            src={photo.file_url}
-                            alt="Foto do participante"
-                            className="w-full h-full object-cover"
-                            onError={(e) => {
-                              e.currentTarget.src = '/placeholder.svg';
-                            }}
-                          />
-                        </div>
-                        
-                        <div className="space-y-2">
-                          <div className="flex items-center justify-between">
-                            <Badge variant="outline">
-                              {formatDate(photo.created_at)}
-                            </Badge>
-                            <Badge variant={photo.processed ? "default" : "secondary"}>
-                              {photo.processed ? "Processada" : "Pendente"}
-                            </Badge>
-                            {autoOpenGenerator && !photo.processed && isArmed && (
-                              <Badge variant="default" className="ml-1">
-                                AUTO
-                              </Badge>
-                            )}
-                          </div>
-                          
-                          {(photo.name || photo.role) && (
-                            <div className="text-sm space-y-1">
-                              {photo.name && (
-                                <div className="font-medium text-foreground">{photo.name}</div>
-                              )}
-                              {photo.role && (
-                                <div className="text-muted-foreground">{photo.role}</div>
-                              )}
-                            </div>
-                          )}
-                          
-                          <div className="text-xs text-muted-foreground">
-                            ID: {photo.id.slice(-8)}
-                          </div>
-                          
-                          <div className="grid grid-cols-1 gap-2">
-                            <Button
-                              onClick={() => handleOpenInBadgeGenerator(photo)}
-                              variant="default"
-                              className="w-full"
-                            >
-                              <ExternalLink className="w-4 h-4 mr-2" />
-                              Abrir no Gerador de Crachás
-                            </Button>
-                            
-                            <div className="grid grid-cols-2 gap-2">
-                              <Button
-                                onClick={() => handleCopyLink(photo)}
-                                variant="outline"
-                                size="sm"
-                              >
-                                <Copy className="w-4 h-4 mr-1" />
-                                Copiar Link
-                              </Button>
-                              
-                              <Button
-                                onClick={() => handleDownload(photo)}
-                                variant="outline"
-                                size="sm"
-                              >
-                                <Download className="w-4 h-4 mr-1" />
-                                Download
-                              </Button>
-                            </div>
-                            
-                            {!photo.processed && (
-                              <Button
-                                onClick={() => handleMarkAsProcessed(photo.id)}
-                                variant="secondary"
-                                className="w-full"
-                                disabled={processingIds.has(photo.id)}
-                              >
-                                <Check className="w-4 h-4 mr-2" />
-                                {processingIds.has(photo.id) ? "A processar..." : "Marcar como Processada"}
-                              </Button>
-                            )}
-                          </div>
-                        </div>
+                <>
+                  <div
+                    ref={gridRef}
+                    className="relative"
+                    style={{ height: rowVirtualizer.getTotalSize() }}
+                  >
+                    {rowVirtualizer.getVirtualItems().map(row => (
+                      <div
+                        key={row.key}
+                        ref={rowVirtualizer.measureElement}
+                        data-index={row.index}
+                        className="absolute inset-x-0 top-0 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 pb-6"
+                        style={{ transform: `translateY(${row.start - rowVirtualizer.options.scrollMargin}px)` }}
+                      >
+                        {photos.slice(row.index * columns, (row.index + 1) * columns).map(renderPhotoCard)}
                       </div>
-                    </Card>
-                  ))}
-                </div>
+                    ))}
+                  </div>
+
+                  <div ref={loadMoreRef} className="flex flex-col items-center gap-2 py-8 text-sm text-muted-foreground">
+                    <span>{photos.length} de {totalMatching} fotos</span>
+                    {hasNextPage && (
+                      <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                        {isFetchingNextPage ? "A carregar..." : "Carregar mais"}
+                      </Button>
+                    )}
+                  </div>
+                </>
               )}
             </TabsContent>
           </Tabs>
@@ -676,12 +1011,55 @@ const PhotoList = () => {
           <h3 className="font-semibold mb-3">Fluxo de trabalho:</h3>
           <ol className="space-y-2 text-sm text-muted-foreground">
             <li>1. <strong>Abrir no Gerador de Crachás</strong> - Abre automaticamente a aplicação com a foto carregada</li>
-            <li>2. <strong>Alternativa:</strong> Copiar link ou fazer download da foto</li>
+            <li>2. <strong>Alternativa:</strong> Gerar o crachá na própria aplicação (PNG/PDF), copiar link ou fazer download da foto</li>
             <li>3. Gerar o crachá na aplicação: <span className="font-mono bg-background px-2 py-1 rounded">{BADGES_URL}</span></li>
-            <li>4. <strong>Marcar como Processada</strong> após concluir o crachá</li>
+            <li>4. <strong>Mudar o estado</strong> à medida que o crachá avança: aprovada, crachá gerado, impressa e entregue</li>
           </ol>
         </Card>
       </div>
+
+      <BadgeDialog
+        photo={badgePhoto}
+        event={events.find(e => e.id === badgePhoto?.event_id) ?? null}
+        onClose={() => setBadgePhoto(null)}
+        onOpenExternal={handleOpenInBadgeGenerator}
+      />
+
+      <ThermalLabelDialog
+        photo={labelPhoto}
+        event={events.find(e => e.id === labelPhoto?.event_id) ?? null}
+        onClose={() => setLabelPhoto(null)}
+      />
+
+      <PhotoMergeDialog
+        duplicate={mergeDuplicate}
+        onClose={() => setMergeDuplicate(null)}
+        onResolved={refreshPhotos}
+      />
+
+      <PhotoRejectDialog
+        photo={rejectPhoto}
+        onClose={() => setRejectPhoto(null)}
+        onRejected={refreshPhotos}
+      />
+
+      <PhotoStatusHistoryDialog
+        photo={historyPhoto}
+        onClose={() => setHistoryPhoto(null)}
+      />
+
+      <PhotoDetailDialog
+        photo={detailPhoto}
+        onClose={() => setDetailPhoto(null)}
+        onDownload={handleDownload}
+      />
+
+      <PhotoCropDialog
+        photo={cropPhoto}
+        event={events.find(e => e.id === cropPhoto?.event_id) ?? null}
+        onClose={() => setCropPhoto(null)}
+        onSaved={refreshPhotos}
+      />
     </div>
   );
 };
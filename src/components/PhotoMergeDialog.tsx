@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { Check, Merge, RefreshCw, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import PhotoImage from "@/components/PhotoImage";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { dismissDuplicate, duplicateReasons, mergeDuplicatePhotos, type PhotoDuplicate } from "@/lib/duplicates";
+import { PHOTO_STATUS_LABELS, PHOTO_STATUSES } from "@/lib/photo-status";
+import { getThumbnailPath, photoLabel, type Photo } from "@/lib/photos";
+import { cn } from "@/lib/utils";
+
+interface PhotoMergeDialogProps {
+  // The dialog is open while a pair is set
+  duplicate: PhotoDuplicate | null;
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('pt-PT', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+// How far a photo got towards a badge; a rejected photo is the last choice
+const progress = (photo: Photo) => (photo.status === 'rejected' ? -1 : PHOTO_STATUSES.indexOf(photo.status));
+
+// Suggest keeping the photo a badge was already made from, else the earlier one
+const suggestKeep = (a: Photo, b: Photo): Photo => {
+  if (!!a.printed_at !== !!b.printed_at) return a.printed_at ? a : b;
+  if (progress(a) !== progress(b)) return progress(a) > progress(b) ? a : b;
+  return a.created_at <= b.created_at ? a : b;
+};
+
+const PhotoMergeDialog = ({ duplicate, onClose, onResolved }: PhotoMergeDialogProps) => {
+  const [photos, setPhotos] = useState<Photo[] | null>(null);
+  const [keepId, setKeepId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!duplicate) return;
+
+    let cancelled = false;
+    setPhotos(null);
+    setKeepId(null);
+
+    supabase
+      .from('photos')
+      .select('*')
+      .in('id', [duplicate.duplicate_of, duplicate.photo_id])
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error || !data || data.length < 2) {
+          console.error('Error loading duplicate photos:', error);
+          toast({
+            title: "Erro",
+            description: "Não foi possível carregar as duas fotos",
+            variant: "destructive",
+          });
+          return;
+        }
+        const pair = [...data].sort((a, b) => a.created_at.localeCompare(b.created_at));
+        setPhotos(pair);
+        setKeepId(suggestKeep(pair[0], pair[1]).id);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [duplicate]);
+
+  const resolve = async (action: () => Promise<void>, success: { title: string; description: string }) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast(success);
+      onResolved();
+      onClose();
+    } catch (error) {
+      console.error('Error resolving duplicate:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao resolver o duplicado",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleMerge = () => {
+    const keep = photos?.find(photo => photo.id === keepId);
+    const archive = photos?.find(photo => photo.id !== keepId);
+    if (!keep || !archive) return;
+
+    resolve(() => mergeDuplicatePhotos(keep.id, archive.id), {
+      title: "Fotos juntas",
+      description: `Ficou a foto de ${photoLabel(keep)}; a outra foi arquivada`,
+    });
+  };
+
+  const handleDismiss = () => {
+    if (!duplicate) return;
+    resolve(() => dismissDuplicate(duplicate.id), {
+      title: "Marcado como diferente",
+      description: "As duas fotos ficam na lista",
+    });
+  };
+
+  const reasons = duplicate ? duplicateReasons(duplicate) : [];
+
+  return (
+    <Dialog open={!!duplicate} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Possível duplicado</DialogTitle>
+          <DialogDescription>
+            {reasons.length > 0 ? `${reasons.join(' · ')}. ` : ''}
+            Escolha a foto a manter; a outra é arquivada e deixa de aparecer na lista.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!photos ? (
+          <div className="flex justify-center py-16">
+            <RefreshCw className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            {photos.map(photo => (
+              <button
+                key={photo.id}
+                type="button"
+                onClick={() => setKeepId(photo.id)}
+                disabled={isSaving}
+                className={cn(
+                  "rounded-lg border-2 p-3 text-left space-y-2 transition-colors",
+                  keepId === photo.id ? "border-primary bg-primary/5" : "border-transparent hover:border-muted-foreground/30"
+                )}
+              >
+                <div className="relative aspect-square bg-muted rounded-md overflow-hidden">
+                  <PhotoImage
+                    path={getThumbnailPath(photo, 'medium')}
+                    alt={`Foto de ${photoLabel(photo)}`}
+                    className="w-full h-full object-cover"
+                  />
+                  {keepId === photo.id && (
+                    <span className="absolute top-2 right-2 rounded-full bg-primary p-1 text-primary-foreground">
+                      <Check className="w-4 h-4" />
+                    </span>
+                  )}
+                </div>
+                <div className="font-medium truncate">{photo.name || "Sem nome"}</div>
+                {photo.role && <div className="text-sm text-muted-foreground truncate">{photo.role}</div>}
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="outline">{formatDate(photo.created_at)}</Badge>
+                  <Badge variant={photo.status === 'rejected' ? "destructive" : "default"}>
+                    {PHOTO_STATUS_LABELS[photo.status]}
+                  </Badge>
+                  {photo.is_walk_in && <Badge variant="outline">No local</Badge>}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleDismiss} disabled={!duplicate || isSaving}>
+            <X className="w-4 h-4 mr-2" />
+            Não é duplicado
+          </Button>
+          <Button onClick={handleMerge} disabled={!photos || !keepId || isSaving}>
+            {isSaving ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Merge className="w-4 h-4 mr-2" />}
+            Manter a selecionada e arquivar a outra
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PhotoMergeDialog;
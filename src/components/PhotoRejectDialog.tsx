@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { RefreshCw, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { toast } from "@/hooks/use-toast";
+import { requestRetake } from "@/lib/capture-station";
+import { REJECTION_REASON_LABELS, transitionPhotoStatus, type RejectionReason } from "@/lib/photo-status";
+import { photoLabel, type Photo } from "@/lib/photos";
+
+interface PhotoRejectDialogProps {
+  // The dialog is open while a photo is set
+  photo: Photo | null;
+  onClose: () => void;
+  onRejected: () => void;
+}
+
+// Rejects a photo with a reason and asks the station that took it for a retake
+const PhotoRejectDialog = ({ photo, onClose, onRejected }: PhotoRejectDialogProps) => {
+  const [reason, setReason] = useState<RejectionReason | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setReason(null);
+  }, [photo]);
+
+  const handleReject = async () => {
+    if (!photo || !reason) return;
+
+    setIsSaving(true);
+    try {
+      const moved = await transitionPhotoStatus([photo.id], 'rejected', reason);
+      onRejected();
+      if (!moved.has(photo.id)) {
+        toast({
+          title: "Estado não alterado",
+          description: "A foto mudou de estado entretanto. A lista foi atualizada.",
+          variant: "destructive",
+        });
+        onClose();
+        return;
+      }
+
+      const sent = await requestRetake(photo, reason).catch(error => {
+        console.error('Error sending retake request:', error);
+        return false;
+      });
+      toast({
+        title: "Foto rejeitada",
+        description: sent
+          ? `Pedido de nova foto de ${photoLabel(photo)} enviado para o posto de captura`
+          : photo.station_id
+            ? "Não foi possível avisar o posto de captura. Peça a nova foto diretamente."
+            : "Esta foto não tem posto de captura registado. Peça a nova foto diretamente.",
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error rejecting photo:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao rejeitar a foto",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!photo} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Rejeitar foto</DialogTitle>
+          <DialogDescription>
+            O posto de captura que tirou a foto recebe um pedido para a repetir, com o nome e a função já preenchidos.
+            A nova foto substitui esta.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={reason ?? ''}
+          onValueChange={(value) => setReason(value as RejectionReason)}
+          className="space-y-2"
+        >
+          {(Object.keys(REJECTION_REASON_LABELS) as RejectionReason[]).map(option => (
+            <div key={option} className="flex items-center gap-2">
+              <RadioGroupItem value={option} id={`reject-${option}`} />
+              <Label htmlFor={`reject-${option}`}>{REJECTION_REASON_LABELS[option]}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button variant="destructive" onClick={handleReject} disabled={!reason || isSaving}>
+            {isSaving ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <XCircle className="w-4 h-4 mr-2" />}
+            Rejeitar e pedir nova foto
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PhotoRejectDialog;
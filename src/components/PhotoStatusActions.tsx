@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { ChevronDown, History, RefreshCw, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ToastAction } from "@/components/ui/toast";
+import { toast } from "@/hooks/use-toast";
+import {
+  canTransition,
+  NEXT_PHOTO_STATUS,
+  PHOTO_STATUS_ACTIONS,
+  PHOTO_STATUS_LABELS,
+  PHOTO_STATUS_TRANSITIONS,
+  transitionPhotoStatus,
+  type PhotoStatus,
+} from "@/lib/photo-status";
+import { photoLabel, type Photo } from "@/lib/photos";
+
+interface PhotoStatusActionsProps {
+  photo: Photo;
+  onChanged: () => void;
+  onShowHistory: (photo: Photo) => void;
+  // Rejecting asks for a reason, so it is handed back to the list
+  onReject: (photo: Photo) => void;
+}
+
+// Main next step for a photo, with the other allowed moves in a menu
+const PhotoStatusActions = ({ photo, onChanged, onShowHistory, onReject }: PhotoStatusActionsProps) => {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const next = NEXT_PHOTO_STATUS[photo.status];
+  const canReject = canTransition(photo.status, 'rejected');
+  const others = PHOTO_STATUS_TRANSITIONS[photo.status].filter(status => status !== next && status !== 'rejected');
+
+  const changeStatus = async (from: PhotoStatus, to: PhotoStatus, reason?: string) => {
+    setIsSaving(true);
+    try {
+      const moved = await transitionPhotoStatus([photo.id], to, reason);
+      onChanged();
+
+      if (!moved.has(photo.id)) {
+        toast({
+          title: "Estado não alterado",
+          description: "A foto mudou de estado entretanto. A lista foi atualizada.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: PHOTO_STATUS_LABELS[to],
+        description: `${photoLabel(photo)}: ${PHOTO_STATUS_LABELS[from]} → ${PHOTO_STATUS_LABELS[to]}`,
+        action: canTransition(to, from) ? (
+          <ToastAction altText="Anular a mudança de estado" onClick={() => changeStatus(to, from, 'Anulado')}>
+            Anular
+          </ToastAction>
+        ) : undefined,
+      });
+    } catch (error) {
+      console.error('Error changing photo status:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao mudar o estado da foto",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      {next && (
+        <Button
+          onClick={() => changeStatus(photo.status, next)}
+          variant="secondary"
+          className="flex-1"
+          disabled={isSaving}
+        >
+          {isSaving && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+          {PHOTO_STATUS_ACTIONS[next]}
+        </Button>
+      )}
+
+      {canReject && (
+        <Button variant="outline" onClick={() => onReject(photo)} disabled={isSaving} title="Rejeitar e pedir nova foto">
+          <XCircle className="w-4 h-4 mr-1 text-destructive" />
+          Rejeitar
+        </Button>
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className={next ? undefined : "flex-1"} disabled={isSaving}>
+            Estado
+            <ChevronDown className="w-4 h-4 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {others.map(status => (
+            <DropdownMenuItem key={status} onSelect={() => changeStatus(photo.status, status)}>
+              {PHOTO_STATUS_ACTIONS[status]}
+            </DropdownMenuItem>
+          ))}
+          {others.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem onSelect={() => onShowHistory(photo)}>
+            <History className="w-4 h-4 mr-2" />
+            Histórico
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
+
+export default PhotoStatusActions;
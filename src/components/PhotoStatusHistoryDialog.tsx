@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  fetchPhotoStatusHistory,
+  PHOTO_STATUS_LABELS,
+  statusReasonLabel,
+  type PhotoStatusChange,
+} from "@/lib/photo-status";
+import { photoLabel, type Photo } from "@/lib/photos";
+
+interface PhotoStatusHistoryDialogProps {
+  // The dialog is open while a photo is set
+  photo: Photo | null;
+  onClose: () => void;
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('pt-PT', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+// Changes of the rejected photos a retake replaced happened before it was taken
+const isBeforeCapture = (change: PhotoStatusChange, photo: Photo) => {
+  return new Date(change.changed_at).getTime() < new Date(photo.created_at).getTime();
+};
+
+const PhotoStatusHistoryDialog = ({ photo, onClose }: PhotoStatusHistoryDialogProps) => {
+  const [changes, setChanges] = useState<PhotoStatusChange[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    if (!photo) return;
+
+    let cancelled = false;
+    setChanges(null);
+    setLoadFailed(false);
+
+    fetchPhotoStatusHistory(photo)
+      .then(history => {
+        if (!cancelled) setChanges(history);
+      })
+      .catch(error => {
+        console.error('Error loading status history:', error);
+        if (!cancelled) setLoadFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [photo]);
+
+  const renderChange = (change: PhotoStatusChange) => (
+    <li key={change.id} className="rounded-md border p-3 space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline">{PHOTO_STATUS_LABELS[change.from_status]}</Badge>
+        <span className="text-muted-foreground">→</span>
+        <Badge>{PHOTO_STATUS_LABELS[change.to_status]}</Badge>
+        {change.photo_id !== photo?.id && <Badge variant="secondary">Foto substituída</Badge>}
+      </div>
+      <div className="text-muted-foreground">
+        {formatDate(change.changed_at)} · {change.staff?.full_name || change.staff?.email || "Utilizador removido"}
+      </div>
+      {change.reason && <div>{statusReasonLabel(change.reason)}</div>}
+    </li>
+  );
+
+  return (
+    <Dialog open={!!photo} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Histórico de estados</DialogTitle>
+          <DialogDescription>
+            {photo && `${photoLabel(photo)} · atualmente ${PHOTO_STATUS_LABELS[photo.status].toLowerCase()}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadFailed ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Não foi possível carregar o histórico.
+          </p>
+        ) : !changes || !photo ? (
+          <div className="flex justify-center py-8">
+            <RefreshCw className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-96">
+            <ol className="space-y-3 text-sm">
+              {changes.filter(change => !isBeforeCapture(change, photo)).map(renderChange)}
+              <li className="rounded-md border border-dashed p-3 text-muted-foreground">
+                {formatDate(photo.created_at)} · {photo.retake_of ? "Nova foto tirada para substituir a rejeitada" : "Foto capturada"}
+              </li>
+              {changes.filter(change => isBeforeCapture(change, photo)).map(renderChange)}
+            </ol>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PhotoStatusHistoryDialog;
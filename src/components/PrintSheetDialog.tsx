@@ -0,0 +1,329 @@
+import { useMemo, useState } from "react";
+import { useQueries } from "@tanstack/react-query";
+import { Printer, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { NumberField } from "@/components/BadgeElementPanel";
+import { toast } from "@/hooks/use-toast";
+import { badgeTemplateQuery } from "@/hooks/use-badge-templates";
+import {
+  computeSheetLayout,
+  createBadgeSheet,
+  loadBadgeData,
+  DEFAULT_SHEET_OPTIONS,
+  PAPER_SIZES,
+  type BadgeTemplate,
+  type PaperSize,
+  type SheetOptions,
+  type SheetOrientation,
+} from "@/lib/badge";
+import { errorMessage, type BulkFailure, type BulkProgress } from "@/lib/bulk";
+import { downloadBlob } from "@/lib/download";
+import type { BadgeEvent } from "@/lib/events";
+import { transitionPhotoStatus } from "@/lib/photo-status";
+import { claimForPrinting, photoLabel, releasePrinted, type Photo } from "@/lib/photos";
+
+interface PrintSheetDialogProps {
+  open: boolean;
+  photos: Photo[];
+  events: BadgeEvent[];
+  onClose: () => void;
+  // Called after printing, to reload the list with the new printed_at values
+  onComplete: (allPrinted: boolean) => void;
+}
+
+interface PrintResult {
+  printed: number;
+  pages: number;
+  // Printed by another operator between opening the dialog and printing
+  skipped: number;
+  failures: BulkFailure[];
+}
+
+const OPTIONS_KEY = 'printSheetOptions';
+
+const loadOptions = (): SheetOptions => {
+  try {
+    return { ...DEFAULT_SHEET_OPTIONS, ...JSON.parse(localStorage.getItem(OPTIONS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SHEET_OPTIONS;
+  }
+};
+
+const PrintSheetDialog = ({ open, photos, events, onClose, onComplete }: PrintSheetDialogProps) => {
+  const [options, setOptions] = useState<SheetOptions>(loadOptions);
+  const [includePrinted, setIncludePrinted] = useState(false);
+  const [progress, setProgress] = useState<BulkProgress | null>(null);
+  const [result, setResult] = useState<PrintResult | null>(null);
+
+  const isRunning = progress !== null && result === null;
+  const queue = useMemo(
+    () => (includePrinted ? photos : photos.filter(photo => !photo.printed_at)),
+    [photos, includePrinted],
+  );
+  const alreadyPrinted = photos.filter(photo => photo.printed_at).length;
+
+  // Photos of the same event share a template, so they are kept together
+  const groups = useMemo(() => {
+    const byEvent = new Map<string | null, Photo[]>();
+    queue.forEach(photo => {
+      const key = photo.event_id ?? null;
+      byEvent.set(key, [...(byEvent.get(key) ?? []), photo]);
+    });
+    return [...byEvent.entries()].map(([eventId, items]) => ({ eventId, photos: items }));
+  }, [queue]);
+
+  const templateQueries = useQueries({
+    queries: groups.map(group => ({ ...badgeTemplateQuery(group.eventId), enabled: open })),
+  });
+  const templates = templateQueries.map(query => query.data);
+  const templatesReady = templates.every((template): template is BadgeTemplate => !!template);
+
+  const eventsById = new Map(events.map(event => [event.id, event]));
+
+  const updateOptions = (patch: Partial<SheetOptions>) => {
+    setOptions(prev => {
+      const next = { ...prev, ...patch };
+      localStorage.setItem(OPTIONS_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const handleClose = () => {
+    if (isRunning) return;
+    setProgress(null);
+    setResult(null);
+    onClose();
+  };
+
+  const handlePrint = async () => {
+    if (!templatesReady || queue.length === 0) return;
+
+    setResult(null);
+    setProgress({ done: 0, total: queue.length });
+
+    // Only photos that weren't printed before go back to "not printed" on failure
+    const releasable = (ids: string[]) => {
+      const wasUnprinted = new Set(queue.filter(photo => !photo.printed_at).map(photo => photo.id));
+      return ids.filter(id => wasUnprinted.has(id));
+    };
+
+    let claimed = new Set<string>();
+    let allPrinted = false;
+    try {
+      claimed = await claimForPrinting(queue.map(photo => photo.id), includePrinted);
+
+      const sheet = createBadgeSheet(options);
+      const failures: BulkFailure[] = [];
+      let done = 0;
+
+      for (const [index, group] of groups.entries()) {
+        const template = templates[index] as BadgeTemplate;
+        const event = group.eventId ? eventsById.get(group.eventId) ?? null : null;
+
+        for (const photo of group.photos) {
+          if (claimed.has(photo.id)) {
+            try {
+              await sheet.addBadge(template, await loadBadgeData(photo, event));
+            } catch (error) {
+              console.error('Error adding badge to sheet:', error);
+              failures.push({ id: photo.id, label: photoLabel(photo), message: errorMessage(error) });
+            }
+          }
+          setProgress({ done: ++done, total: queue.length });
+        }
+      }
+
+      const printed = claimed.size - failures.length;
+      if (printed > 0) {
+        downloadBlob(sheet.output(), `folha_crachas_${new Date().toISOString().slice(0, 10)}.pdf`);
+      }
+
+      if (failures.length > 0) {
+        await releasePrinted(releasable(failures.map(failure => failure.id)));
+      }
+
+      // Photos not yet approved keep their status; the sheet still has their badge
+      const failed = new Set(failures.map(failure => failure.id));
+      const onSheet = [...claimed].filter(id => !failed.has(id));
+      if (onSheet.length > 0) {
+        await transitionPhotoStatus(onSheet, 'printed', 'Folha de impressão').catch(statusError => {
+          console.error('Error marking photos as printed:', statusError);
+        });
+      }
+
+      setResult({ printed, pages: sheet.pageCount(), skipped: queue.length - claimed.size, failures });
+      allPrinted = failures.length === 0 && claimed.size === queue.length;
+    } catch (error) {
+      console.error('Error printing badge sheet:', error);
+      await releasePrinted(releasable([...claimed])).catch(releaseError => {
+        console.error('Error releasing printed photos:', releaseError);
+      });
+      setProgress(null);
+      toast({
+        title: "Erro",
+        description: "Erro ao gerar a folha de impressão",
+        variant: "destructive",
+      });
+    } finally {
+      onComplete(allPrinted);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Folha de impressão</DialogTitle>
+          <DialogDescription>
+            Vários crachás por página num PDF vetorial, com sangria e marcas de corte.
+          </DialogDescription>
+        </DialogHeader>
+
+        {progress === null ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Papel</Label>
+                <Select value={options.paper} onValueChange={(paper) => updateOptions({ paper: paper as PaperSize })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PAPER_SIZES) as PaperSize[]).map(paper => (
+                      <SelectItem key={paper} value={paper}>{PAPER_SIZES[paper].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Orientação</Label>
+                <Select
+                  value={options.orientation}
+                  onValueChange={(orientation) => updateOptions({ orientation: orientation as SheetOrientation })}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="portrait">Vertical</SelectItem>
+                    <SelectItem value="landscape">Horizontal</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <NumberField
+                id="sheet-margin"
+                label="Margens (mm)"
+                value={options.marginMm}
+                min={0}
+                onChange={(marginMm) => updateOptions({ marginMm: Math.max(0, marginMm) })}
+              />
+              <NumberField
+                id="sheet-gutter"
+                label="Espaço entre crachás (mm)"
+                value={options.gutterMm}
+                min={0}
+                onChange={(gutterMm) => updateOptions({ gutterMm: Math.max(0, gutterMm) })}
+              />
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Switch checked={options.cropMarks} onCheckedChange={(cropMarks) => updateOptions({ cropMarks })} />
+                Marcas de corte
+              </label>
+              {alreadyPrinted > 0 && (
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Switch checked={includePrinted} onCheckedChange={setIncludePrinted} />
+                  Reimprimir {alreadyPrinted === 1 ? "1 foto já impressa" : `${alreadyPrinted} fotos já impressas`}
+                </label>
+              )}
+            </div>
+
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              {queue.length === 0 ? (
+                <p className="text-muted-foreground">Todas as fotos selecionadas já foram impressas.</p>
+              ) : !templatesReady ? (
+                <p className="text-muted-foreground">A carregar modelos...</p>
+              ) : (
+                groups.map((group, index) => {
+                  const template = templates[index] as BadgeTemplate;
+                  const layout = computeSheetLayout(template, options);
+                  const eventName = group.eventId ? eventsById.get(group.eventId)?.name ?? 'Evento' : 'Sem evento';
+                  return (
+                    <p key={group.eventId ?? 'none'}>
+                      <span className="font-medium">{eventName}</span>
+                      {': '}
+                      {layout.perPage === 0 ? (
+                        <span className="text-destructive">o crachá não cabe na folha</span>
+                      ) : (
+                        <span className="text-muted-foreground">
+                          {group.photos.length} crachás, {layout.columns} × {layout.rows} por folha,{' '}
+                          {Math.ceil(group.photos.length / layout.perPage)} folha(s)
+                        </span>
+                      )}
+                    </p>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+            <p className="text-sm text-muted-foreground">
+              {progress.done} de {progress.total}
+              {result && ` — ${result.printed} impressos em ${result.pages} folha(s)`}
+            </p>
+            {result && result.skipped > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {result.skipped === 1
+                  ? "1 foto foi ignorada porque outro operador já a imprimiu."
+                  : `${result.skipped} fotos foram ignoradas porque outro operador já as imprimiu.`}
+              </p>
+            )}
+            {result && result.failures.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-destructive">
+                  {result.failures.length === 1 ? "1 falha" : `${result.failures.length} falhas`}
+                </p>
+                <ScrollArea className="h-40 rounded-md border">
+                  <ul className="p-3 space-y-2 text-sm">
+                    {result.failures.map(failure => (
+                      <li key={failure.id}>
+                        <span className="font-medium">{failure.label}</span>
+                        <span className="text-muted-foreground"> — {failure.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={handleClose}>Fechar</Button>
+          ) : (
+            <Button onClick={handlePrint} disabled={isRunning || !templatesReady || queue.length === 0}>
+              {isRunning ? (
+                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Printer className="w-4 h-4 mr-2" />
+              )}
+              {isRunning ? "A gerar..." : "Gerar PDF"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PrintSheetDialog;
@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { getStationPairingUrl, startStationPairing, type CaptureStation } from "@/lib/capture-station";
+
+interface StationPairingDialogProps {
+  station: CaptureStation | null;
+  onClose: () => void;
+}
+
+interface Pairing {
+  url: string;
+  qr: string;
+  expiresAt: string;
+}
+
+// How often the dialog checks whether the tablet has scanned the code
+const PAIRED_POLL_MS = 3000;
+
+const StationPairingDialog = ({ station, onClose }: StationPairingDialogProps) => {
+  const queryClient = useQueryClient();
+  const [pairing, setPairing] = useState<Pairing | null>(null);
+  const [failed, setFailed] = useState(false);
+  const stationId = station?.id ?? null;
+
+  useEffect(() => {
+    if (!stationId) return;
+    let cancelled = false;
+    setPairing(null);
+    setFailed(false);
+
+    const start = async () => {
+      try {
+        const { pairing_code, pairing_expires_at } = await startStationPairing(stationId);
+        const url = getStationPairingUrl(pairing_code);
+        const qr = await QRCode.toDataURL(url, { width: 320, margin: 1, errorCorrectionLevel: 'M' });
+        // A check from an earlier pairing would show this one as done
+        queryClient.removeQueries({ queryKey: ['capture-stations', stationId, 'paired_at'] });
+        // The previous tablet was unpaired; the dashboard should show it
+        queryClient.invalidateQueries({ queryKey: ['capture-stations'] });
+        if (!cancelled) {
+          setPairing({ url, qr, expiresAt: pairing_expires_at });
+        }
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error starting station pairing:', error);
+        toast({
+          title: "Erro",
+          description: "Erro ao gerar o código de emparelhamento",
+          variant: "destructive",
+        });
+        setFailed(true);
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stationId, queryClient]);
+
+  const { data: pairedAt } = useQuery({
+    queryKey: ['capture-stations', stationId, 'paired_at'],
+    enabled: !!stationId && !!pairing,
+    refetchInterval: (query) => (query.state.data ? false : PAIRED_POLL_MS),
+    queryFn: async (): Promise<string | null> => {
+      const { data, error } = await supabase
+        .from('capture_stations')
+        .select('paired_at')
+        .eq('id', stationId)
+        .single();
+
+      if (error) throw error;
+      return data.paired_at;
+    },
+  });
+
+  const isPaired = !!pairing && !!pairedAt;
+
+  useEffect(() => {
+    if (isPaired) {
+      queryClient.invalidateQueries({ queryKey: ['capture-stations'] });
+    }
+  }, [isPaired, queryClient]);
+
+  return (
+    <Dialog open={!!station} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Emparelhar {station?.name}</DialogTitle>
+          <DialogDescription>
+            Leia o código com a câmara do tablet que vai ser este posto. O tablet emparelhado antes deixa de ser reconhecido.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isPaired ? (
+          <div className="py-8 text-center">
+            <CheckCircle2 className="w-16 h-16 mx-auto text-success mb-4" />
+            <p className="text-lg font-semibold">Tablet emparelhado</p>
+          </div>
+        ) : pairing ? (
+          <div className="space-y-3 text-center">
+            <img src={pairing.qr} alt="QR de emparelhamento" className="mx-auto w-64 h-64" />
+            <p className="font-mono text-xs break-all text-muted-foreground">{pairing.url}</p>
+            <p className="text-sm text-muted-foreground">
+              Válido até às {new Date(pairing.expiresAt).toLocaleTimeString('pt-PT', { hour: '2-digit', minute: '2-digit' })}
+            </p>
+          </div>
+        ) : failed ? (
+          <p className="py-12 text-center text-muted-foreground">
+            Não foi possível gerar o código. Feche e tente novamente.
+          </p>
+        ) : (
+          <div className="py-12 text-center">
+            <RefreshCw className="w-8 h-8 mx-auto animate-spin text-primary" />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant={isPaired ? "default" : "outline"} onClick={onClose}>
+            {isPaired ? "Concluir" : "Fechar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StationPairingDialog;
@@ -0,0 +1,301 @@
+import { useEffect, useMemo, useState } from "react";
+import { FileDown, RefreshCw, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { NumberField } from "@/components/BadgeElementPanel";
+import { toast } from "@/hooks/use-toast";
+import { loadBadgeData, type BadgeData } from "@/lib/badge";
+import { downloadBlob } from "@/lib/download";
+import type { BadgeEvent } from "@/lib/events";
+import type { Photo } from "@/lib/photos";
+import {
+  buildLabelCommands,
+  prepareLabel,
+  renderLabelPreview,
+  sendToPrintAgent,
+  DEFAULT_LABEL_SETTINGS,
+  DEFAULT_PRINTER_TARGET,
+  LABEL_LANGUAGES,
+  PRINT_AGENT_URL,
+  PRINTER_DEFAULT_PORTS,
+  type LabelLanguage,
+  type LabelSettings,
+  type PrinterDpi,
+  type PrinterProtocol,
+  type PrinterTarget,
+} from "@/lib/thermal";
+
+interface ThermalLabelDialogProps {
+  // The dialog is open while a photo is set
+  photo: Photo | null;
+  event: BadgeEvent | null;
+  onClose: () => void;
+}
+
+const SETTINGS_KEY = 'thermalLabelSettings';
+const TARGET_KEY = 'thermalPrinterTarget';
+
+const loadStored = <T,>(key: string, fallback: T): T => {
+  try {
+    return { ...fallback, ...JSON.parse(localStorage.getItem(key) || '{}') };
+  } catch {
+    return fallback;
+  }
+};
+
+const ThermalLabelDialog = ({ photo, event, onClose }: ThermalLabelDialogProps) => {
+  const [settings, setSettings] = useState<LabelSettings>(() => loadStored(SETTINGS_KEY, DEFAULT_LABEL_SETTINGS));
+  const [target, setTarget] = useState<PrinterTarget>(() => loadStored(TARGET_KEY, DEFAULT_PRINTER_TARGET));
+  const [data, setData] = useState<BadgeData | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    if (!photo) return;
+
+    let cancelled = false;
+    setData(null);
+
+    loadBadgeData(photo, event)
+      .then(badgeData => {
+        if (!cancelled) setData(badgeData);
+      })
+      .catch(error => {
+        console.error('Error loading photo for label:', error);
+        if (!cancelled) {
+          toast({
+            title: "Erro",
+            description: "Erro ao carregar a foto",
+            variant: "destructive",
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [photo, event]);
+
+  // The preview is drawn from the generated commands, so it shows exactly what gets printed
+  const output = useMemo(() => {
+    if (!data) return null;
+    try {
+      const commands = buildLabelCommands(prepareLabel(data, settings));
+      return { commands, previewUrl: renderLabelPreview(commands, settings).toDataURL('image/png') };
+    } catch (error) {
+      console.error('Error generating label:', error);
+      return null;
+    }
+  }, [data, settings]);
+
+  const updateSettings = (patch: Partial<LabelSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch };
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const updateTarget = (patch: Partial<PrinterTarget>) => {
+    setTarget(prev => {
+      const next = { ...prev, ...patch };
+      localStorage.setItem(TARGET_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const extension = LABEL_LANGUAGES.find(language => language.value === settings.language)?.extension ?? 'txt';
+
+  const handleDownload = () => {
+    if (!photo || !output) return;
+    downloadBlob(new Blob([output.commands], { type: 'application/octet-stream' }), `etiqueta_${photo.id}.${extension}`);
+  };
+
+  const handleSend = async () => {
+    if (!output) return;
+
+    setIsSending(true);
+    try {
+      await sendToPrintAgent(output.commands, target);
+      toast({
+        title: "Etiqueta enviada",
+        description: `Enviada para ${target.host}:${target.port}`,
+      });
+    } catch (error) {
+      console.error('Error sending label to printer:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao enviar para a impressora",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!photo} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Etiqueta térmica</DialogTitle>
+          <DialogDescription>
+            Código ZPL ou EPL para impressoras de etiquetas, com a foto convertida para preto e branco.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-[1fr_280px]">
+          <div className="flex justify-center bg-muted rounded-lg p-4 min-h-[240px] items-center">
+            {!output ? (
+              <RefreshCw className="w-8 h-8 animate-spin text-muted-foreground" />
+            ) : (
+              <img
+                src={output.previewUrl}
+                alt="Pré-visualização da etiqueta"
+                className="max-h-[360px] max-w-full shadow-lg border"
+                style={{ imageRendering: 'pixelated' }}
+              />
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Linguagem</Label>
+                <Select
+                  value={settings.language}
+                  onValueChange={(language) => updateSettings({ language: language as LabelLanguage })}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LABEL_LANGUAGES.map(language => (
+                      <SelectItem key={language.value} value={language.value}>{language.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Resolução</Label>
+                <Select
+                  value={String(settings.dpi)}
+                  onValueChange={(dpi) => updateSettings({ dpi: Number(dpi) as PrinterDpi })}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="203">203 DPI</SelectItem>
+                    <SelectItem value="300">300 DPI</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <NumberField
+                id="label-width"
+                label="Largura (mm)"
+                value={settings.widthMm}
+                min={20}
+                onChange={(widthMm) => updateSettings({ widthMm: Math.max(20, widthMm) })}
+              />
+              <NumberField
+                id="label-height"
+                label="Altura (mm)"
+                value={settings.heightMm}
+                min={20}
+                onChange={(heightMm) => updateSettings({ heightMm: Math.max(20, heightMm) })}
+              />
+              {settings.language === 'epl' && (
+                <NumberField
+                  id="label-gap"
+                  label="Intervalo (mm)"
+                  value={settings.gapMm}
+                  min={0}
+                  onChange={(gapMm) => updateSettings({ gapMm: Math.max(0, gapMm) })}
+                />
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <Switch checked={settings.includeQr} onCheckedChange={(includeQr) => updateSettings({ includeQr })} />
+              Código QR
+            </label>
+            {settings.includeQr && (
+              <div className="space-y-1">
+                <Input
+                  value={settings.qrValue}
+                  onChange={(e) => updateSettings({ qrValue: e.target.value })}
+                  className="h-8 font-mono"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Pode usar {'{name}'}, {'{role}'}, {'{event}'} e {'{id}'}
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2 border-t pt-3">
+              <Label className="text-xs">Impressora</Label>
+              <div className="grid grid-cols-[90px_1fr] gap-2">
+                <Select
+                  value={target.protocol}
+                  onValueChange={(protocol) => updateTarget({
+                    protocol: protocol as PrinterProtocol,
+                    port: PRINTER_DEFAULT_PORTS[protocol as PrinterProtocol],
+                  })}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="raw">RAW</SelectItem>
+                    <SelectItem value="ipp">IPP</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={target.host}
+                  onChange={(e) => updateTarget({ host: e.target.value.trim() })}
+                  placeholder="192.168.1.50"
+                  className="h-8"
+                />
+              </div>
+              <div className={target.protocol === 'ipp' ? "grid grid-cols-[90px_1fr] gap-2" : "grid grid-cols-[90px] gap-2"}>
+                <Input
+                  type="number"
+                  value={target.port}
+                  onChange={(e) => updateTarget({ port: Number(e.target.value) || PRINTER_DEFAULT_PORTS[target.protocol] })}
+                  className="h-8"
+                />
+                {target.protocol === 'ipp' && (
+                  <Input
+                    value={target.path}
+                    onChange={(e) => updateTarget({ path: e.target.value })}
+                    placeholder="/ipp/print"
+                    className="h-8"
+                  />
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Enviado através do agente de impressão em {PRINT_AGENT_URL}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={handleDownload} disabled={!output}>
+            <FileDown className="w-4 h-4 mr-2" />
+            Descarregar .{extension}
+          </Button>
+          <Button onClick={handleSend} disabled={!output || !target.host || isSending}>
+            {isSending ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+            Enviar para a impressora
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ThermalLabelDialog;
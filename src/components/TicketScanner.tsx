@@ -0,0 +1,272 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CameraOff, PenLine, RefreshCw, ScanLine, SwitchCamera, TicketX, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { findAttendeeByTicket, type AttendeeMatch } from "@/lib/attendees";
+import { getBarcodeReader, type BarcodeReader } from "@/lib/barcode";
+import { describeCameraError, type FacingMode } from "@/lib/camera";
+import { cn } from "@/lib/utils";
+
+interface TicketScannerProps {
+  eventId: string;
+  onResolved: (attendee: AttendeeMatch) => void;
+  // Closes the scanner; the operator types the name instead
+  onCancel: () => void;
+}
+
+type ScanState =
+  | { status: 'scanning' }
+  | { status: 'resolving'; code: string }
+  | { status: 'unknown'; code: string }
+  | { status: 'failed'; code: string };
+
+const FACING_MODE_KEY = 'scanFacingMode';
+const SCAN_INTERVAL_MS = 200;
+
+const TicketScanner = ({ eventId, onResolved, onCancel }: TicketScannerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>(() => {
+    return localStorage.getItem(FACING_MODE_KEY) === 'environment' ? 'environment' : 'user';
+  });
+  const [hasMultipleCameras, setHasMultipleCameras] = useState(false);
+  const [isStarting, setIsStarting] = useState(true);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [reader, setReader] = useState<BarcodeReader | null>(null);
+  const [scan, setScan] = useState<ScanState>({ status: 'scanning' });
+
+  const stopStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getBarcodeReader()
+      .then(barcodeReader => {
+        if (!cancelled) setReader(barcodeReader);
+      })
+      .catch(error => {
+        console.error('Error loading barcode reader:', error);
+        if (!cancelled) setCameraError("Não foi possível carregar o leitor de códigos.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const startCamera = async () => {
+      setIsStarting(true);
+      setCameraError(null);
+      stopStream();
+
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError("Este navegador não permite usar a câmara na página.");
+        setIsStarting(false);
+        return;
+      }
+
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: {
+            facingMode: { ideal: facingMode },
+            width: { ideal: 1280 },
+            height: { ideal: 720 },
+          },
+          audio: false,
+        });
+
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play().catch(() => undefined);
+        }
+
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) {
+          setHasMultipleCameras(devices.filter(d => d.kind === 'videoinput').length > 1);
+        }
+      } catch (error) {
+        console.error('Error starting camera:', error);
+        if (!cancelled) {
+          setCameraError(describeCameraError(error));
+        }
+      } finally {
+        if (!cancelled) {
+          setIsStarting(false);
+        }
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      cancelled = true;
+      stopStream();
+    };
+  }, [facingMode]);
+
+  const resolveCode = useCallback(async (code: string) => {
+    setScan({ status: 'resolving', code });
+    try {
+      const attendee = await findAttendeeByTicket(eventId, code);
+      if (attendee) {
+        stopStream();
+        onResolved(attendee);
+      } else {
+        setScan({ status: 'unknown', code });
+      }
+    } catch (error) {
+      console.error('Error resolving ticket:', error);
+      setScan({ status: 'failed', code });
+    }
+  }, [eventId, onResolved]);
+
+  // Decode frames until a code is found; paused while it is being resolved
+  useEffect(() => {
+    if (!reader || isStarting || cameraError || scan.status !== 'scanning') return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const tick = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+
+      try {
+        const code = video.readyState >= video.HAVE_CURRENT_DATA ? await reader.read(video) : null;
+        if (code && !cancelled) {
+          resolveCode(code);
+          return;
+        }
+      } catch (error) {
+        console.error('Error reading barcode:', error);
+      }
+
+      if (!cancelled) timer = setTimeout(tick, SCAN_INTERVAL_MS);
+    };
+
+    tick();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [reader, isStarting, cameraError, scan.status, resolveCode]);
+
+  const handleSwitchCamera = () => {
+    const next: FacingMode = facingMode === 'user' ? 'environment' : 'user';
+    localStorage.setItem(FACING_MODE_KEY, next);
+    setFacingMode(next);
+  };
+
+  const handleCancel = () => {
+    stopStream();
+    onCancel();
+  };
+
+  if (cameraError) {
+    return (
+      <div className="text-center space-y-6 py-8">
+        <CameraOff className="w-20 h-20 mx-auto text-muted-foreground" />
+        <div>
+          <h2 className="text-xl font-semibold mb-2">Leitura de bilhetes indisponível</h2>
+          <p className="text-muted-foreground">{cameraError}</p>
+        </div>
+        <Button onClick={handleCancel} size="lg" variant="tablet" className="w-full h-16 text-lg">
+          <PenLine className="w-6 h-6 mr-2" />
+          Escrever o nome
+        </Button>
+      </div>
+    );
+  }
+
+  const isPaused = scan.status === 'unknown' || scan.status === 'failed';
+
+  return (
+    <div className="space-y-6">
+      <div className="relative max-w-md mx-auto overflow-hidden rounded-lg bg-black shadow-md aspect-[4/3]">
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          className={cn(
+            "absolute inset-0 w-full h-full object-cover",
+            facingMode === 'user' && "-scale-x-100",
+            isPaused && "opacity-40"
+          )}
+        />
+
+        {/* Target area; the whole frame is decoded, this only guides the ticket */}
+        <div className="absolute inset-[15%] rounded-lg border-4 border-dashed border-white/80 pointer-events-none" />
+
+        {(isStarting || !reader || scan.status === 'resolving') && (
+          <div className="absolute inset-0 flex items-center justify-center text-white">
+            <RefreshCw className="w-12 h-12 animate-spin" />
+          </div>
+        )}
+
+        <p className="absolute bottom-3 inset-x-0 text-center text-sm text-white drop-shadow">
+          {scan.status === 'resolving' ? "A procurar participante..." : "Mostre o QR ou código de barras do bilhete"}
+        </p>
+      </div>
+
+      {isPaused && (
+        <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-4 flex gap-3">
+          <TicketX className="w-6 h-6 text-destructive shrink-0" />
+          <div className="min-w-0">
+            <p className="font-semibold">
+              {scan.status === 'unknown' ? "Bilhete desconhecido" : "Não foi possível verificar o bilhete"}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {scan.status === 'unknown'
+                ? "Este código não corresponde a nenhum participante inscrito no evento."
+                : "Verifique a ligação à internet e tente novamente."}
+            </p>
+            <p className="font-mono text-xs text-muted-foreground truncate mt-1">{scan.code}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <Button onClick={handleCancel} variant="outline" size="lg" className="h-16 text-lg">
+          {isPaused ? <PenLine className="w-6 h-6 mr-2" /> : <X className="w-6 h-6 mr-2" />}
+          {isPaused ? "Escrever o nome" : "Cancelar"}
+        </Button>
+
+        <Button
+          onClick={handleSwitchCamera}
+          variant="outline"
+          size="lg"
+          className="h-16 text-lg"
+          disabled={!hasMultipleCameras || scan.status === 'resolving'}
+        >
+          <SwitchCamera className="w-6 h-6 mr-2" />
+          {facingMode === 'user' ? "Câmara traseira" : "Câmara frontal"}
+        </Button>
+
+        <Button
+          onClick={() => (scan.status === 'failed' ? resolveCode(scan.code) : setScan({ status: 'scanning' }))}
+          size="lg"
+          variant="tablet"
+          className="h-16 text-lg"
+          disabled={!isPaused}
+        >
+          {scan.status === 'failed' ? <RefreshCw className="w-6 h-6 mr-2" /> : <ScanLine className="w-6 h-6 mr-2" />}
+          {scan.status === 'failed' ? "Tentar de novo" : "Ler outro bilhete"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TicketScanner;
@@ -0,0 +1,59 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeSearch, type Attendee, type AttendeeMatch } from "@/lib/attendees";
+import { withStationToken } from "@/lib/capture-station";
+
+const LIST_LIMIT = 200;
+
+/**
+ * An event's attendees for the management page, first 200 matches by name.
+ * Every search word must appear in the name, role, company or email.
+ */
+export const useAttendees = (eventId: string | null, search: string) => {
+  return useQuery({
+    queryKey: ['attendees', 'list', eventId, search],
+    enabled: !!eventId,
+    placeholderData: keepPreviousData,
+    queryFn: async (): Promise<{ attendees: Attendee[]; total: number }> => {
+      let query = supabase
+        .from('attendees')
+        .select('*', { count: 'exact' })
+        .eq('event_id', eventId as string)
+        .order('full_name')
+        .limit(LIST_LIMIT);
+
+      for (const term of normalizeSearch(search).split(/\s+/).filter(Boolean).slice(0, 5)) {
+        query = query.ilike('search_text', `%${term.replace(/[%_\\]/g, '\\$&')}%`);
+      }
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+      return { attendees: data || [], total: count ?? 0 };
+    },
+  });
+};
+
+/**
+ * Type-ahead over an event's registry for the capture form. Works without a
+ * login through the search_attendees function, for the event of the
+ * station this tablet is paired as.
+ */
+export const useAttendeeSearch = (eventId: string | null, query: string) => {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: ['attendees', 'search', eventId, trimmed],
+    enabled: !!eventId && trimmed.length >= 2,
+    staleTime: 30_000,
+    // Offline stations fall back to typing; don't keep retrying
+    retry: false,
+    queryFn: async (): Promise<AttendeeMatch[]> => {
+      const { data, error } = await withStationToken(supabase.rpc('search_attendees', {
+        _event_id: eventId as string,
+        _query: trimmed,
+      }));
+      if (error) throw error;
+      return data || [];
+    },
+  });
+};
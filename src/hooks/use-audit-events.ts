@@ -0,0 +1,103 @@
+import { keepPreviousData, useInfiniteQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { AuditAction, AuditEvent } from "@/lib/audit";
+
+export interface AuditFilters {
+  action: AuditAction | 'all';
+  // Part of the actor's email
+  actor: string;
+  photoId: string;
+  // Inclusive local dates (YYYY-MM-DD)
+  from: string | null;
+  to: string | null;
+}
+
+export interface AuditPage {
+  events: AuditEvent[];
+  total: number;
+  page: number;
+}
+
+export const AUDIT_PAGE_SIZE = 100;
+const EXPORT_LIMIT = 10000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+
+const startOfNextDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + 1);
+  return next.toISOString();
+};
+
+// Newest first; the id breaks ties between entries of the same statement
+const buildAuditQuery = (filters: AuditFilters, options?: { count?: 'exact' }) => {
+  let query = supabase
+    .from('audit_events')
+    .select('*', options)
+    .order('occurred_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (filters.action !== 'all') {
+    query = query.eq('action', filters.action);
+  }
+
+  const actor = filters.actor.trim().replace(/[%_\\]/g, '\\$&');
+  if (actor) {
+    query = query.ilike('actor_email', `%${actor}%`);
+  }
+
+  // A partial id can't use the index, so only complete ids are searched
+  const photoId = filters.photoId.trim();
+  if (UUID_PATTERN.test(photoId)) {
+    query = query.eq('photo_id', photoId);
+  }
+
+  if (filters.from) {
+    query = query.gte('occurred_at', startOfDay(filters.from));
+  }
+  if (filters.to) {
+    query = query.lt('occurred_at', startOfNextDay(filters.to));
+  }
+
+  return query;
+};
+
+export const useAuditEvents = (filters: AuditFilters) => {
+  return useInfiniteQuery({
+    queryKey: ['audit', filters],
+    initialPageParam: 0,
+    placeholderData: keepPreviousData,
+    queryFn: async ({ pageParam }) => {
+      const from = pageParam * AUDIT_PAGE_SIZE;
+      const { data, error, count } = await buildAuditQuery(filters, { count: 'exact' })
+        .range(from, from + AUDIT_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      const page: AuditPage = { events: data || [], total: count ?? 0, page: pageParam };
+      return page;
+    },
+    getNextPageParam: (lastPage) => {
+      const loaded = (lastPage.page + 1) * AUDIT_PAGE_SIZE;
+      return loaded < lastPage.total ? lastPage.page + 1 : undefined;
+    },
+  });
+};
+
+/**
+ * Every entry matching the filters, up to 10 000, for the CSV export.
+ */
+export const fetchAllAuditEvents = async (filters: AuditFilters): Promise<AuditEvent[]> => {
+  const events: AuditEvent[] = [];
+  const batchSize = 1000;
+
+  while (events.length < EXPORT_LIMIT) {
+    const { data, error } = await buildAuditQuery(filters).range(events.length, events.length + batchSize - 1);
+
+    if (error) throw error;
+    events.push(...(data || []));
+    if (!data || data.length < batchSize) break;
+  }
+
+  return events;
+};
@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { DEFAULT_BADGE_TEMPLATE, normalizeTemplate, type BadgeTemplate } from "@/lib/badge";
+
+export interface BadgeTemplateVersion {
+  id: string;
+  eventId: string | null;
+  version: number;
+  template: BadgeTemplate;
+  createdAt: string;
+}
+
+const toVersion = (row: Tables<"badge_templates">): BadgeTemplateVersion => ({
+  id: row.id,
+  eventId: row.event_id,
+  version: row.version,
+  template: normalizeTemplate(row.definition),
+  createdAt: row.created_at,
+});
+
+const fetchVersions = async (eventId: string | null, limit: number): Promise<BadgeTemplateVersion[]> => {
+  let query = supabase
+    .from('badge_templates')
+    .select('*')
+    .order('version', { ascending: false })
+    .limit(limit);
+
+  query = eventId ? query.eq('event_id', eventId) : query.is('event_id', null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(toVersion);
+};
+
+/**
+ * Saved versions of an event's template, newest first. A null event is the
+ * default template used by events without their own.
+ */
+export const useBadgeTemplateVersions = (eventId: string | null) => {
+  return useQuery({
+    queryKey: ['badge-templates', 'versions', eventId],
+    queryFn: () => fetchVersions(eventId, 50),
+  });
+};
+
+/**
+ * Template used for an event's badges: the event's latest version, else the
+ * latest default template, else the built-in layout.
+ */
+const resolveTemplate = async (eventId: string | null): Promise<BadgeTemplate> => {
+  const [latest] = eventId ? await fetchVersions(eventId, 1) : [];
+  if (latest) return latest.template;
+
+  const [fallback] = await fetchVersions(null, 1);
+  return fallback?.template ?? DEFAULT_BADGE_TEMPLATE;
+};
+
+export const badgeTemplateQuery = (eventId: string | null) => ({
+  queryKey: ['badge-templates', 'resolved', eventId],
+  queryFn: () => resolveTemplate(eventId),
+});
+
+export const useBadgeTemplate = (eventId: string | null) => {
+  return useQuery(badgeTemplateQuery(eventId));
+};
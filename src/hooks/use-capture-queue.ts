@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "@/hooks/use-toast";
+import {
+  CaptureRejectedError,
+  enqueueCapture,
+  listQueuedCaptures,
+  nextRetryDelay,
+  removeQueuedCapture,
+  updateQueuedCapture,
+  uploadCapture,
+  type NewCapture,
+  type QueuedCapture,
+} from "@/lib/capture-queue";
+
+/**
+ * Drives the offline capture queue for the capture station: uploads queued
+ * captures one by one, backs off on failure and retries as soon as the
+ * browser reports that the connection is back. Captures the server refuses
+ * are set aside as failed, with its reason, for the operator to deal with.
+ */
+export const useCaptureQueue = () => {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [failedCaptures, setFailedCaptures] = useState<QueuedCapture[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const flushingRef = useRef(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flush = useCallback(async (force = false) => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+
+    const showQueue = (captures: QueuedCapture[]) => {
+      setPendingCount(captures.filter(capture => !capture.failed).length);
+      setFailedCaptures(captures.filter(capture => capture.failed));
+    };
+
+    try {
+      let captures = await listQueuedCaptures();
+      showQueue(captures);
+
+      for (const capture of captures) {
+        if (capture.failed || (!force && capture.nextAttemptAt > Date.now())) continue;
+
+        setIsSyncing(true);
+        try {
+          await uploadCapture(capture);
+          await removeQueuedCapture(capture.id);
+        } catch (error) {
+          console.error('Error uploading queued capture:', error);
+          const attempts = capture.attempts + 1;
+          const lastError = error instanceof Error ? error.message : String(error);
+
+          if (error instanceof CaptureRejectedError) {
+            await updateQueuedCapture({ ...capture, attempts, lastError, failed: true });
+            toast({
+              title: "Foto recusada",
+              description: `O servidor recusou a foto${capture.name ? ` de ${capture.name}` : ""}: ${lastError}`,
+              variant: "destructive",
+            });
+            continue;
+          }
+
+          await updateQueuedCapture({
+            ...capture,
+            attempts,
+            nextAttemptAt: Date.now() + nextRetryDelay(attempts),
+            lastError,
+          });
+          // The network is most likely down: don't hammer it with the rest
+          break;
+        }
+      }
+
+      captures = await listQueuedCaptures();
+      showQueue(captures);
+
+      const pending = captures.filter(capture => !capture.failed);
+      if (pending.length > 0) {
+        const nextAttempt = Math.min(...pending.map(c => c.nextAttemptAt));
+        timerRef.current = setTimeout(() => flush(), Math.max(0, nextAttempt - Date.now()));
+      }
+    } catch (error) {
+      console.error('Error reading capture queue:', error);
+    } finally {
+      setIsSyncing(false);
+      flushingRef.current = false;
+    }
+  }, []);
+
+  const enqueue = useCallback(async (capture: NewCapture) => {
+    const queued = await enqueueCapture(capture);
+    setPendingCount(count => count + 1);
+    flush();
+    return queued;
+  }, [flush]);
+
+  // Puts a refused capture back in the queue, e.g. after pairing the tablet
+  // with the right station
+  const retryFailed = useCallback(async (capture: QueuedCapture) => {
+    await updateQueuedCapture({ ...capture, failed: false, nextAttemptAt: Date.now() });
+    flush(true);
+  }, [flush]);
+
+  const discardFailed = useCallback(async (capture: QueuedCapture) => {
+    await removeQueuedCapture(capture.id);
+    setFailedCaptures(captures => captures.filter(c => c.id !== capture.id));
+  }, []);
+
+  useEffect(() => {
+    flush();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      // Connectivity is back: retry everything now instead of waiting out the backoff
+      flush(true);
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+      }
+    };
+  }, [flush]);
+
+  return { enqueue, flush, pendingCount, failedCaptures, retryFailed, discardFailed, isSyncing, isOnline };
+};
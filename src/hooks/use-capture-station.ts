@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "@/hooks/use-toast";
+import {
+  clearStationCredentials,
+  getStationCredentials,
+  HEARTBEAT_INTERVAL_MS,
+  saveStationCredentials,
+  sendStationHeartbeat,
+  type StationCredentials,
+} from "@/lib/capture-station";
+
+// Battery Status API, only in Chromium browsers
+interface BatteryManager {
+  level: number;
+  charging: boolean;
+}
+
+const readBattery = async (): Promise<BatteryManager | null> => {
+  const { getBattery } = navigator as Navigator & { getBattery?: () => Promise<BatteryManager> };
+  if (!getBattery) return null;
+  try {
+    return await getBattery.call(navigator);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Station this tablet is paired as, kept up to date by a heartbeat every 30
+ * seconds (and as soon as the connection comes back) that reports battery,
+ * connection and upload queue. A tablet whose pairing was revoked forgets
+ * its credentials. Null when the tablet isn't paired.
+ */
+export const useCaptureStation = (queueDepth: number, isOnline: boolean) => {
+  const [station, setStation] = useState<StationCredentials | null>(getStationCredentials);
+  // Read by the interval without restarting it on every change
+  const statusRef = useRef({ queueDepth, isOnline });
+  statusRef.current = { queueDepth, isOnline };
+
+  const beat = useCallback(async () => {
+    const credentials = getStationCredentials();
+    if (!credentials || !navigator.onLine) return;
+
+    try {
+      const battery = await readBattery();
+      const updated = await sendStationHeartbeat(credentials, {
+        batteryLevel: battery?.level ?? null,
+        batteryCharging: battery?.charging ?? null,
+        isOnline: statusRef.current.isOnline,
+        queueDepth: statusRef.current.queueDepth,
+      });
+
+      if (!updated) {
+        clearStationCredentials();
+        setStation(null);
+        toast({
+          title: "Posto desemparelhado",
+          description: "Este tablet deixou de estar registado como posto de captura. Peça um novo QR à equipa.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      saveStationCredentials(updated);
+      setStation(updated);
+    } catch (error) {
+      // Offline or a transient failure; the next beat tries again
+      console.error('Error sending station heartbeat:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    window.addEventListener('online', beat);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', beat);
+    };
+  }, [beat]);
+
+  return station;
+};
@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { CaptureStation } from "@/lib/capture-station";
+
+export interface CaptureStationSummary extends CaptureStation {
+  captureCount: number;
+  lastCaptureAt: string | null;
+}
+
+// Often enough to see a station drop out a minute or so after it does
+const REFRESH_INTERVAL_MS = 15_000;
+
+/**
+ * Registered capture stations with their last heartbeat and capture counts,
+ * refreshed every 15 seconds for the dashboard.
+ */
+export const useCaptureStations = () => {
+  return useQuery({
+    queryKey: ['capture-stations'],
+    refetchInterval: REFRESH_INTERVAL_MS,
+    queryFn: async (): Promise<CaptureStationSummary[]> => {
+      const [stations, counts] = await Promise.all([
+        supabase.from('capture_stations').select('*').order('name'),
+        supabase.rpc('capture_station_counts'),
+      ]);
+
+      if (stations.error) throw stations.error;
+      if (counts.error) throw counts.error;
+
+      const countsByStation = new Map((counts.data ?? []).map(row => [row.station_id, row]));
+      return (stations.data ?? []).map(station => ({
+        ...station,
+        captureCount: countsByStation.get(station.id)?.total ?? 0,
+        lastCaptureAt: countsByStation.get(station.id)?.last_capture_at ?? null,
+      }));
+    },
+  });
+};
@@ -0,0 +1,98 @@
+import { useCallback, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { BadgeEvent } from "@/lib/events";
+
+const SELECTED_EVENT_KEY = 'selectedEvent';
+
+export const useEvents = () => {
+  return useQuery({
+    queryKey: ['events'],
+    queryFn: async (): Promise<BadgeEvent[]> => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('*')
+        .order('starts_on', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+};
+
+const cachedEventKey = (slug: string) => `event:${slug}`;
+
+/**
+ * Event for a capture URL. The last successful lookup is kept in localStorage
+ * so a capture station can still start while fully offline.
+ */
+export const useEventBySlug = (slug?: string) => {
+  return useQuery({
+    queryKey: ['events', 'slug', slug],
+    enabled: !!slug,
+    // Run even while offline so the cached copy can be used
+    networkMode: 'always',
+    retry: false,
+    queryFn: async (): Promise<BadgeEvent | null> => {
+      try {
+        const { data, error } = await supabase
+          .from('events')
+          .select('*')
+          .eq('slug', slug)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        if (data) {
+          localStorage.setItem(cachedEventKey(slug), JSON.stringify(data));
+        } else {
+          localStorage.removeItem(cachedEventKey(slug));
+        }
+        return data;
+      } catch (error) {
+        const cached = localStorage.getItem(cachedEventKey(slug));
+        if (cached) {
+          return JSON.parse(cached) as BadgeEvent;
+        }
+        throw error;
+      }
+    },
+  });
+};
+
+/**
+ * Event chosen in the management area. Lives in the `evento` query param so a
+ * filtered view can be shared, and falls back to the last event used on this
+ * browser when the param is missing.
+ */
+export const useSelectedEvent = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: events = [], isLoading } = useEvents();
+
+  const slugParam = searchParams.get('evento');
+  const slug = slugParam ?? localStorage.getItem(SELECTED_EVENT_KEY) ?? '';
+  const event = events.find(e => e.slug === slug) ?? null;
+
+  const setEventSlug = useCallback((newSlug: string | null) => {
+    localStorage.setItem(SELECTED_EVENT_KEY, newSlug ?? '');
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (newSlug) {
+        next.set('evento', newSlug);
+      } else {
+        next.delete('evento');
+      }
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  useEffect(() => {
+    if (slugParam !== null) {
+      localStorage.setItem(SELECTED_EVENT_KEY, slugParam);
+    }
+  }, [slugParam]);
+
+  return { event, events, isLoading, setEventSlug };
+};
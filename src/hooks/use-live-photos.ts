@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Photo } from "@/lib/photos";
+import {
+  comparePhotos,
+  matchesPhotoFilters,
+  PHOTOS_PAGE_SIZE,
+  type PhotoFilters,
+  type PhotosPage,
+} from "@/hooks/use-photos";
+
+export type LiveStatus = 'connecting' | 'live' | 'offline';
+
+interface LivePhotosOptions {
+  // Called for every new photo in the selected event, whatever the other filters
+  onInsert?: (photo: Photo) => void;
+}
+
+type PhotoChange = RealtimePostgresChangesPayload<Photo>;
+
+// DELETE payloads only carry the primary key when RLS is enabled
+const isFullRecord = (record: Partial<Photo> | undefined): record is Photo => {
+  return !!record && 'created_at' in record;
+};
+
+/**
+ * Applies one change to a cached photo list: drops the old version, and puts
+ * the new one back in sort order if it still matches the list's filters.
+ * Photos that sort after the last loaded page are left for the next fetch.
+ */
+const applyChange = (
+  data: InfiniteData<PhotosPage>,
+  filters: PhotoFilters,
+  id: string,
+  photo: Photo | null,
+  previous: Partial<Photo> | undefined,
+): InfiniteData<PhotosPage> => {
+  const wasListed = data.pages.some(page => page.photos.some(p => p.id === id));
+  const wasMatching = isFullRecord(previous) ? matchesPhotoFilters(previous, filters) : wasListed;
+  const matches = !!photo && matchesPhotoFilters(photo, filters);
+
+  if (!wasListed && !matches) return data;
+
+  const pages = data.pages.map(page => ({ ...page, photos: page.photos.filter(p => p.id !== id) }));
+
+  if (matches) {
+    const lastPage = pages[pages.length - 1];
+    const hasMore = (lastPage.page + 1) * PHOTOS_PAGE_SIZE < lastPage.total;
+    let inserted = false;
+
+    for (const page of pages) {
+      const index = page.photos.findIndex(p => comparePhotos(photo, p, filters.sort) < 0);
+      if (index !== -1) {
+        page.photos.splice(index, 0, photo);
+        inserted = true;
+        break;
+      }
+    }
+    if (!inserted && !hasMore) {
+      lastPage.photos.push(photo);
+    }
+  }
+
+  const delta = (matches ? 1 : 0) - (wasMatching ? 1 : 0);
+  return {
+    ...data,
+    pages: pages.map(page => ({ ...page, total: Math.max(0, page.total + delta) })),
+  };
+};
+
+/**
+ * Keeps every cached photo list in sync with inserts, updates and deletes made
+ * by capture stations and other operators, without refetching.
+ *
+ * Lists are paged by offset, so a page loaded after a live change can overlap
+ * its neighbour by a row; callers should de-duplicate by id.
+ */
+export const useLivePhotos = (filters: PhotoFilters, options: LivePhotosOptions = {}): LiveStatus => {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<LiveStatus>('connecting');
+  // Read through refs so the subscription never sees stale filters or handlers
+  const filtersRef = useRef(filters);
+  const optionsRef = useRef(options);
+  filtersRef.current = filters;
+  optionsRef.current = options;
+
+  useEffect(() => {
+    let wasDisconnected = false;
+
+    const handleChange = (payload: PhotoChange) => {
+      const photo = payload.eventType === 'DELETE' ? null : payload.new;
+      const previous = payload.eventType === 'INSERT' ? undefined : payload.old;
+      const id = photo?.id ?? previous?.id;
+      if (!id) return;
+
+      queryClient.getQueryCache().findAll({ queryKey: ['photos', 'list'] }).forEach(query => {
+        const listFilters = query.queryKey[2] as PhotoFilters;
+        queryClient.setQueryData<InfiniteData<PhotosPage>>(query.queryKey, data => {
+          return data ? applyChange(data, listFilters, id, photo, previous) : data;
+        });
+      });
+      queryClient.invalidateQueries({ queryKey: ['photos', 'counts'] });
+      // New photos are checked for duplicates as they are inserted
+      if (payload.eventType === 'INSERT') {
+        queryClient.invalidateQueries({ queryKey: ['photos', 'duplicates'] });
+      }
+
+      const { eventId } = filtersRef.current;
+      if (payload.eventType === 'INSERT' && (!eventId || photo.event_id === eventId)) {
+        optionsRef.current.onInsert?.(photo);
+      }
+    };
+
+    const channel = supabase
+      .channel('photos-live')
+      .on<Photo>('postgres_changes', { event: '*', schema: 'public', table: 'photos' }, handleChange)
+      .subscribe((channelStatus, error) => {
+        if (channelStatus === 'SUBSCRIBED') {
+          setStatus('live');
+          // Changes made while disconnected were missed: reload what is cached
+          if (wasDisconnected) {
+            queryClient.invalidateQueries({ queryKey: ['photos'] });
+          }
+          wasDisconnected = false;
+        } else {
+          if (error) {
+            console.error('Error in photos realtime channel:', error);
+          }
+          setStatus('offline');
+          wasDisconnected = true;
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+
+  return status;
+};
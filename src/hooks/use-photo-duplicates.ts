@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { PhotoDuplicate } from "@/lib/duplicates";
+
+const OPEN_LIMIT = 500;
+
+/**
+ * Open duplicate pairs for the event (or every event), grouped by photo so
+ * each card of the pair can show its badge. Lives under the 'photos' key so
+ * it refreshes with the list.
+ */
+export const usePhotoDuplicates = (eventId: string | null) => {
+  return useQuery({
+    queryKey: ['photos', 'duplicates', eventId],
+    queryFn: async (): Promise<Map<string, PhotoDuplicate[]>> => {
+      let query = supabase
+        .from('photo_duplicates')
+        .select('*')
+        .is('resolved_at', null)
+        .order('created_at', { ascending: false })
+        .limit(OPEN_LIMIT);
+      if (eventId) {
+        query = query.eq('event_id', eventId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const byPhoto = new Map<string, PhotoDuplicate[]>();
+      (data || []).forEach(duplicate => {
+        [duplicate.photo_id, duplicate.duplicate_of].forEach(photoId => {
+          byPhoto.set(photoId, [...(byPhoto.get(photoId) ?? []), duplicate]);
+        });
+      });
+      return byPhoto;
+    },
+  });
+};
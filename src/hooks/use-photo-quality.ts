@@ -0,0 +1,76 @@
+import { useDeferredValue, useEffect, useMemo, useState } from "react";
+import type { PhotoEdits } from "@/lib/image";
+import {
+  evaluateQuality,
+  findFaces,
+  prepareQualityImage,
+  type DetectedFace,
+  type QualityReport,
+} from "@/lib/quality";
+
+interface FaceAnalysis {
+  image: HTMLCanvasElement;
+  faces: DetectedFace[];
+}
+
+/**
+ * Quality checks for the photo being edited. Faces are searched again only
+ * when the photo is rotated or flipped; moving the crop just re-scores it.
+ * report stays null while the faces are searched, and when the checks can't
+ * run on this device (unavailable is then true). faces are the ones found in
+ * the rotated and flipped photo, for the automatic badge crop.
+ */
+export const usePhotoQuality = (source: HTMLCanvasElement | null, edits: PhotoEdits | null) => {
+  const [analysis, setAnalysis] = useState<FaceAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [unavailable, setUnavailable] = useState(false);
+
+  const rotation = edits?.rotation;
+  const flipHorizontal = edits?.flipHorizontal;
+
+  useEffect(() => {
+    setAnalysis(null);
+    setUnavailable(false);
+    setIsAnalyzing(false);
+    if (!source || rotation === undefined) return;
+
+    let cancelled = false;
+    setIsAnalyzing(true);
+
+    const image = prepareQualityImage(source, { rotation, flipHorizontal });
+    findFaces(image)
+      .then(faces => {
+        if (!cancelled) setAnalysis({ image, faces });
+      })
+      .catch(error => {
+        console.error('Error checking photo quality:', error);
+        if (!cancelled) setUnavailable(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsAnalyzing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, rotation, flipHorizontal]);
+
+  const crop = useDeferredValue(edits?.crop);
+
+  const report = useMemo((): QualityReport | null => {
+    if (!analysis || !crop) return null;
+    try {
+      return evaluateQuality(analysis.image, crop, analysis.faces);
+    } catch (error) {
+      console.error('Error scoring photo quality:', error);
+      return null;
+    }
+  }, [analysis, crop]);
+
+  return {
+    report,
+    faces: analysis?.faces ?? null,
+    isAnalyzing,
+    unavailable: unavailable || (!!analysis && !!crop && !report),
+  };
+};
@@ -0,0 +1,292 @@
+import { useCallback } from "react";
+import { keepPreviousData, useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { PHOTO_STATUSES, type PhotoStatus } from "@/lib/photo-status";
+import type { Photo } from "@/lib/photos";
+
+export type StatusFilter = PhotoStatus | 'all';
+export type PhotoSort = 'newest' | 'oldest' | 'name' | 'role';
+// 'low' keeps photos whose quality checks warned or failed
+export type QualityFilter = 'all' | 'low';
+
+export interface PhotoFilters {
+  eventId: string | null;
+  status: StatusFilter;
+  search: string;
+  sort: PhotoSort;
+  // Inclusive local dates (YYYY-MM-DD)
+  from: string | null;
+  to: string | null;
+  quality: QualityFilter;
+}
+
+export interface PhotosPage {
+  photos: Photo[];
+  total: number;
+  page: number;
+}
+
+export const PHOTOS_PAGE_SIZE = 48;
+const SELECT_ALL_LIMIT = 5000;
+
+const STATUS_VALUES: StatusFilter[] = [...PHOTO_STATUSES, 'all'];
+const SORT_VALUES: PhotoSort[] = ['newest', 'oldest', 'name', 'role'];
+const QUALITY_VALUES: QualityFilter[] = ['all', 'low'];
+const LOW_QUALITY_LEVELS = ['warn', 'fail'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Characters with a meaning in PostgREST filter strings
+const searchTerms = (search: string): string[] => {
+  return search
+    .replace(/[,()*%_:"\\]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 5);
+};
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+
+const startOfNextDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + 1);
+  return next.toISOString();
+};
+
+/**
+ * Base query for the management list with every filter applied. Each search
+ * word must match the name, role or file name (ilike, backed by trigram
+ * indexes), so "maria design" finds Maria in the design team. The status
+ * counts apply the same filters in the database (photo_status_counts).
+ */
+const buildPhotosQuery = (
+  filters: Omit<PhotoFilters, 'sort'>,
+  options?: { count?: 'exact'; head?: boolean },
+) => {
+  // Photos archived by merging a duplicate are kept out of every list
+  let query = supabase.from('photos').select('*', options).is('archived_at', null);
+
+  if (filters.status !== 'all') {
+    query = query.eq('status', filters.status);
+  }
+
+  if (filters.eventId) {
+    query = query.eq('event_id', filters.eventId);
+  }
+
+  for (const term of searchTerms(filters.search)) {
+    query = query.or(`name.ilike.%${term}%,role.ilike.%${term}%,file_path.ilike.%${term}%`);
+  }
+
+  if (filters.from) {
+    query = query.gte('created_at', startOfDay(filters.from));
+  }
+  if (filters.to) {
+    query = query.lt('created_at', startOfNextDay(filters.to));
+  }
+
+  if (filters.quality === 'low') {
+    query = query.in('quality_level', LOW_QUALITY_LEVELS);
+  }
+
+  return query;
+};
+
+type PhotosQuery = ReturnType<typeof buildPhotosQuery>;
+
+// The id tie-breaker keeps page boundaries stable when sort values repeat
+const applySort = (query: PhotosQuery, sort: PhotoSort): PhotosQuery => {
+  switch (sort) {
+    case 'oldest':
+      return query.order('created_at', { ascending: true }).order('id', { ascending: true });
+    case 'name':
+      return query.order('name', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: true });
+    case 'role':
+      return query.order('role', { ascending: true, nullsFirst: false })
+        .order('name', { ascending: true, nullsFirst: false })
+        .order('id', { ascending: true });
+    default:
+      return query.order('created_at', { ascending: false }).order('id', { ascending: false });
+  }
+};
+
+/**
+ * Client-side mirror of buildPhotosQuery, used to decide whether a photo
+ * received over realtime belongs in a cached list.
+ */
+export const matchesPhotoFilters = (photo: Photo, filters: PhotoFilters): boolean => {
+  if (photo.archived_at) return false;
+  if (filters.status !== 'all' && photo.status !== filters.status) return false;
+  if (filters.eventId && photo.event_id !== filters.eventId) return false;
+  const createdAt = new Date(photo.created_at).getTime();
+  if (filters.from && createdAt < new Date(startOfDay(filters.from)).getTime()) return false;
+  if (filters.to && createdAt >= new Date(startOfNextDay(filters.to)).getTime()) return false;
+  if (filters.quality === 'low' && !LOW_QUALITY_LEVELS.includes(photo.quality_level)) return false;
+
+  const haystack = [photo.name, photo.role, photo.file_path]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  return searchTerms(filters.search).every(term => haystack.includes(term.toLowerCase()));
+};
+
+const compareText = (a: string | null, b: string | null) => {
+  // Nulls last, like the server order
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a.localeCompare(b);
+};
+
+const compareTime = (a: string, b: string) => new Date(a).getTime() - new Date(b).getTime();
+
+/**
+ * Client-side mirror of applySort, used to place realtime inserts.
+ */
+export const comparePhotos = (a: Photo, b: Photo, sort: PhotoSort): number => {
+  switch (sort) {
+    case 'oldest':
+      return compareTime(a.created_at, b.created_at) || a.id.localeCompare(b.id);
+    case 'name':
+      return compareText(a.name, b.name)
+        || compareTime(b.created_at, a.created_at)
+        || a.id.localeCompare(b.id);
+    case 'role':
+      return compareText(a.role, b.role)
+        || compareText(a.name, b.name)
+        || a.id.localeCompare(b.id);
+    default:
+      return compareTime(b.created_at, a.created_at) || b.id.localeCompare(a.id);
+  }
+};
+
+/**
+ * Filter state for the photo list, kept in the URL query string so a filtered
+ * view can be bookmarked or shared with another operator.
+ */
+export const usePhotoFilterParams = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const status = searchParams.get('estado') as StatusFilter;
+  const sort = searchParams.get('ordem') as PhotoSort;
+  const from = searchParams.get('de');
+  const to = searchParams.get('ate');
+  const quality = searchParams.get('qualidade') as QualityFilter;
+
+  const setParams = useCallback((changes: Partial<Omit<PhotoFilters, 'eventId'>>) => {
+    const keys: Record<keyof typeof changes, string> = {
+      status: 'estado',
+      search: 'q',
+      sort: 'ordem',
+      from: 'de',
+      to: 'ate',
+      quality: 'qualidade',
+    };
+    const defaults: Partial<Record<keyof typeof changes, string>> = {
+      status: 'captured',
+      sort: 'newest',
+      quality: 'all',
+    };
+
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      (Object.keys(changes) as (keyof typeof changes)[]).forEach(key => {
+        const value = changes[key];
+        if (!value || value === defaults[key]) {
+          next.delete(keys[key]);
+        } else {
+          next.set(keys[key], value);
+        }
+      });
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  return {
+    status: STATUS_VALUES.includes(status) ? status : 'captured' as StatusFilter,
+    search: searchParams.get('q') ?? '',
+    sort: SORT_VALUES.includes(sort) ? sort : 'newest' as PhotoSort,
+    from: from && DATE_PATTERN.test(from) ? from : null,
+    to: to && DATE_PATTERN.test(to) ? to : null,
+    quality: QUALITY_VALUES.includes(quality) ? quality : 'all' as QualityFilter,
+    setParams,
+  };
+};
+
+export const photosQueryKey = (filters: PhotoFilters) => ['photos', 'list', filters] as const;
+
+export const usePhotos = (filters: PhotoFilters) => {
+  return useInfiniteQuery({
+    queryKey: photosQueryKey(filters),
+    initialPageParam: 0,
+    // Keep showing the current results while a new search or filter loads
+    placeholderData: keepPreviousData,
+    queryFn: async ({ pageParam }) => {
+      const from = pageParam * PHOTOS_PAGE_SIZE;
+      const { data, error, count } = await applySort(
+        buildPhotosQuery(filters, { count: 'exact' }),
+        filters.sort,
+      ).range(from, from + PHOTOS_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      const page: PhotosPage = { photos: (data || []) as Photo[], total: count ?? 0, page: pageParam };
+      return page;
+    },
+    getNextPageParam: (lastPage) => {
+      const loaded = (lastPage.page + 1) * PHOTOS_PAGE_SIZE;
+      return loaded < lastPage.total ? lastPage.page + 1 : undefined;
+    },
+  });
+};
+
+/**
+ * Number of photos per status tab for the current event, search and dates,
+ * counted by the database (photo_status_counts) in one round trip.
+ */
+export const usePhotoCounts = (filters: PhotoFilters) => {
+  const { status: _status, sort: _sort, ...countFilters } = filters;
+
+  return useQuery({
+    queryKey: ['photos', 'counts', countFilters],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('photo_status_counts', {
+        _event_id: countFilters.eventId ?? undefined,
+        _terms: searchTerms(countFilters.search),
+        _from: countFilters.from ? startOfDay(countFilters.from) : undefined,
+        _to: countFilters.to ? startOfNextDay(countFilters.to) : undefined,
+        _quality_levels: countFilters.quality === 'low' ? LOW_QUALITY_LEVELS : undefined,
+      });
+      if (error) throw error;
+
+      const counts = Object.fromEntries(STATUS_VALUES.map(status => [status, 0])) as Record<StatusFilter, number>;
+      for (const row of data ?? []) {
+        counts[row.status] = row.total;
+        counts.all += row.total;
+      }
+      return counts;
+    },
+    placeholderData: keepPreviousData,
+  });
+};
+
+/**
+ * Every photo matching the filters, not just the loaded pages. Used by
+ * "select all" so bulk actions cover the whole filtered set.
+ */
+export const fetchAllMatchingPhotos = async (filters: PhotoFilters): Promise<Photo[]> => {
+  const photos: Photo[] = [];
+  const batchSize = 1000;
+
+  while (photos.length < SELECT_ALL_LIMIT) {
+    const { data, error } = await applySort(buildPhotosQuery(filters), filters.sort)
+      .range(photos.length, photos.length + batchSize - 1);
+
+    if (error) throw error;
+    photos.push(...((data || []) as Photo[]));
+    if (!data || data.length < batchSize) break;
+  }
+
+  return photos;
+};
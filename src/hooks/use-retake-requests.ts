@@ -0,0 +1,37 @@
+import { useCallback, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { dismissRetakeRequest, fetchRetakeRequests } from "@/lib/capture-station";
+
+// A rejected photo reaches the operator at the tablet within a few seconds
+const REFRESH_INTERVAL_MS = 10_000;
+
+/**
+ * Retake requests for this capture station, oldest first, checked every ten
+ * seconds. Requests for another event than the one the station captures for
+ * are ignored, since the retake couldn't replace the rejected photo. A tablet
+ * that isn't paired has no station and receives none.
+ */
+export const useRetakeRequests = (stationId: string | null, eventId: string | null) => {
+  // Hidden straight away, even while the tablet can't tell the server
+  const [dismissed, setDismissed] = useState<Set<string>>(() => new Set());
+
+  const { data } = useQuery({
+    queryKey: ['retake-requests', stationId],
+    enabled: !!stationId,
+    refetchInterval: REFRESH_INTERVAL_MS,
+    // Offline stations check again at the next interval
+    retry: false,
+    queryFn: fetchRetakeRequests,
+  });
+
+  const requests = (data ?? []).filter(request => request.eventId === eventId && !dismissed.has(request.photoId));
+
+  const dismiss = useCallback((photoId: string) => {
+    setDismissed(prev => new Set(prev).add(photoId));
+    dismissRetakeRequest(photoId).catch(error => {
+      console.error('Error dismissing retake request:', error);
+    });
+  }, []);
+
+  return { requests, dismiss };
+};
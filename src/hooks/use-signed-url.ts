@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { getSignedPhotoUrl, SIGNED_URL_REFRESH_MS } from "@/lib/signed-urls";
+
+/**
+ * Signed URL for a file in the photos bucket, renewed before it expires
+ * while the component stays mounted. The URL is undefined until it is ready.
+ */
+export const useSignedUrl = (path: string | null) => {
+  const { data, isError } = useQuery({
+    queryKey: ['signed-url', path],
+    enabled: !!path,
+    staleTime: SIGNED_URL_REFRESH_MS,
+    refetchInterval: SIGNED_URL_REFRESH_MS,
+    queryFn: () => getSignedPhotoUrl(path),
+  });
+  return { url: data, isError };
+};
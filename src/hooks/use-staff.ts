@@ -0,0 +1,26 @@
+import { createContext, useContext } from "react";
+import type { Session } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type StaffMember = Tables<"staff">;
+export type StaffRole = StaffMember["role"];
+
+interface StaffContextValue {
+  session: Session;
+  staff: StaffMember;
+}
+
+// Provided by AuthGuard once a signed-in user has been matched to a staff row
+export const StaffContext = createContext<StaffContextValue | null>(null);
+
+export function useStaff() {
+  const context = useContext(StaffContext);
+  if (!context) {
+    throw new Error("useStaff must be used within an AuthGuard");
+  }
+
+  return {
+    ...context,
+    isAdmin: context.staff.role === "admin",
+  };
+}
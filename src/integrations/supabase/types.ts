@@ -14,33 +14,551 @@ export type Database = {
   }
   public: {
     Tables: {
+      attendees: {
+        Row: {
+          company: string | null
+          created_at: string
+          email: string | null
+          event_id: string
+          external_id: string | null
+          full_name: string
+          id: string
+          role: string | null
+          search_text: string | null
+        }
+        Insert: {
+          company?: string | null
+          created_at?: string
+          email?: string | null
+          event_id: string
+          external_id?: string | null
+          full_name: string
+          id?: string
+          role?: string | null
+          search_text?: never
+        }
+        Update: {
+          company?: string | null
+          created_at?: string
+          email?: string | null
+          event_id?: string
+          external_id?: string | null
+          full_name?: string
+          id?: string
+          role?: string | null
+          search_text?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendees_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_events: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          after: Json | null
+          before: Json | null
+          device: string | null
+          id: number
+          occurred_at: string
+          photo_id: string | null
+          station_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          device?: string | null
+          id?: never
+          occurred_at?: string
+          photo_id?: string | null
+          station_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          device?: string | null
+          id?: never
+          occurred_at?: string
+          photo_id?: string | null
+          station_id?: string | null
+        }
+        Relationships: []
+      }
+      badge_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          definition: Json
+          event_id: string | null
+          id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          definition: Json
+          event_id?: string | null
+          id?: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          definition?: Json
+          event_id?: string | null
+          id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "badge_templates_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      capture_rate_limits: {
+        Row: {
+          captures: number
+          station_id: string
+          window_start: string
+        }
+        Insert: {
+          captures: number
+          station_id: string
+          window_start: string
+        }
+        Update: {
+          captures?: number
+          station_id?: string
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "capture_rate_limits_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "capture_stations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      capture_stations: {
+        Row: {
+          app_version: string | null
+          battery_charging: boolean | null
+          battery_level: number | null
+          created_at: string
+          created_by: string | null
+          event_id: string | null
+          id: string
+          is_online: boolean | null
+          last_seen_at: string | null
+          name: string
+          paired_at: string | null
+          pairing_code: string | null
+          pairing_expires_at: string | null
+          queue_depth: number | null
+          token_hash: string | null
+        }
+        Insert: {
+          app_version?: string | null
+          battery_charging?: boolean | null
+          battery_level?: number | null
+          created_at?: string
+          created_by?: string | null
+          event_id?: string | null
+          id?: string
+          is_online?: boolean | null
+          last_seen_at?: string | null
+          name: string
+          paired_at?: string | null
+          pairing_code?: string | null
+          pairing_expires_at?: string | null
+          queue_depth?: number | null
+          token_hash?: string | null
+        }
+        Update: {
+          app_version?: string | null
+          battery_charging?: boolean | null
+          battery_level?: number | null
+          created_at?: string
+          created_by?: string | null
+          event_id?: string | null
+          id?: string
+          is_online?: boolean | null
+          last_seen_at?: string | null
+          name?: string
+          paired_at?: string | null
+          pairing_code?: string | null
+          pairing_expires_at?: string | null
+          queue_depth?: number | null
+          token_hash?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "capture_stations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "staff"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "capture_stations_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          backdrop_color: string
+          backdrop_enabled: boolean
+          backdrop_image_url: string | null
+          badge_generator_url: string | null
+          created_at: string
+          ends_on: string | null
+          id: string
+          name: string
+          required_fields: string[]
+          slug: string
+          starts_on: string | null
+        }
+        Insert: {
+          backdrop_color?: string
+          backdrop_enabled?: boolean
+          backdrop_image_url?: string | null
+          badge_generator_url?: string | null
+          created_at?: string
+          ends_on?: string | null
+          id?: string
+          name: string
+          required_fields?: string[]
+          slug: string
+          starts_on?: string | null
+        }
+        Update: {
+          backdrop_color?: string
+          backdrop_enabled?: boolean
+          backdrop_image_url?: string | null
+          badge_generator_url?: string | null
+          created_at?: string
+          ends_on?: string | null
+          id?: string
+          name?: string
+          required_fields?: string[]
+          slug?: string
+          starts_on?: string | null
+        }
+        Relationships: []
+      }
+      photo_duplicates: {
+        Row: {
+          created_at: string
+          duplicate_of: string
+          event_id: string | null
+          hash_distance: number | null
+          id: string
+          name_similarity: number | null
+          photo_id: string
+          resolution: string | null
+          resolved_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          duplicate_of: string
+          event_id?: string | null
+          hash_distance?: number | null
+          id?: string
+          name_similarity?: number | null
+          photo_id: string
+          resolution?: string | null
+          resolved_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          duplicate_of?: string
+          event_id?: string | null
+          hash_distance?: number | null
+          id?: string
+          name_similarity?: number | null
+          photo_id?: string
+          resolution?: string | null
+          resolved_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "photo_duplicates_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photo_duplicates_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photo_duplicates_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      photo_status_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          from_status: Database["public"]["Enums"]["photo_status"]
+          id: string
+          photo_id: string
+          reason: string | null
+          to_status: Database["public"]["Enums"]["photo_status"]
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status: Database["public"]["Enums"]["photo_status"]
+          id?: string
+          photo_id: string
+          reason?: string | null
+          to_status: Database["public"]["Enums"]["photo_status"]
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["photo_status"]
+          id?: string
+          photo_id?: string
+          reason?: string | null
+          to_status?: Database["public"]["Enums"]["photo_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "photo_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "staff"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "photo_status_history_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       photos: {
         Row: {
+          archived_at: string | null
+          attendee_id: string | null
+          backdrop_path: string | null
           created_at: string
-          file_path: string | null
-          file_url: string
+          crop_box: Json | null
+          crop_path: string | null
+          event_id: string | null
+          file_path: string
           id: string
+          image_hash: string | null
+          is_walk_in: boolean
+          merged_into: string | null
           name: string | null
-          processed: boolean
+          original_path: string | null
+          printed_at: string | null
+          quality: Json | null
+          quality_level: string | null
+          retake_of: string | null
           role: string | null
+          station_id: string | null
+          status: Database["public"]["Enums"]["photo_status"]
+          thumb_medium_path: string | null
+          thumb_processed_path: string | null
+          thumb_small_path: string | null
         }
         Insert: {
+          archived_at?: string | null
+          attendee_id?: string | null
+          backdrop_path?: string | null
           created_at?: string
-          file_path?: string | null
-          file_url: string
+          crop_box?: Json | null
+          crop_path?: string | null
+          event_id?: string | null
+          file_path: string
           id?: string
+          image_hash?: string | null
+          is_walk_in?: boolean
+          merged_into?: string | null
           name?: string | null
-          processed?: boolean
+          original_path?: string | null
+          printed_at?: string | null
+          quality?: Json | null
+          quality_level?: string | null
+          retake_of?: string | null
           role?: string | null
+          station_id?: string | null
+          status?: Database["public"]["Enums"]["photo_status"]
+          thumb_medium_path?: string | null
+          thumb_processed_path?: string | null
+          thumb_small_path?: string | null
         }
         Update: {
+          archived_at?: string | null
+          attendee_id?: string | null
+          backdrop_path?: string | null
           created_at?: string
-          file_path?: string | null
-          file_url?: string
+          crop_box?: Json | null
+          crop_path?: string | null
+          event_id?: string | null
+          file_path?: string
           id?: string
+          image_hash?: string | null
+          is_walk_in?: boolean
+          merged_into?: string | null
           name?: string | null
-          processed?: boolean
+          original_path?: string | null
+          printed_at?: string | null
+          quality?: Json | null
+          quality_level?: string | null
+          retake_of?: string | null
           role?: string | null
+          station_id?: string | null
+          status?: Database["public"]["Enums"]["photo_status"]
+          thumb_medium_path?: string | null
+          thumb_processed_path?: string | null
+          thumb_small_path?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "photos_attendee_id_fkey"
+            columns: ["attendee_id"]
+            isOneToOne: false
+            referencedRelation: "attendees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photos_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photos_merged_into_fkey"
+            columns: ["merged_into"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photos_retake_of_fkey"
+            columns: ["retake_of"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photos_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "capture_stations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      retake_requests: {
+        Row: {
+          dismissed_at: string | null
+          photo_id: string
+          reason: string
+          requested_at: string
+          requested_by: string | null
+          station_id: string
+        }
+        Insert: {
+          dismissed_at?: string | null
+          photo_id: string
+          reason: string
+          requested_at?: string
+          requested_by?: string | null
+          station_id: string
+        }
+        Update: {
+          dismissed_at?: string | null
+          photo_id?: string
+          reason?: string
+          requested_at?: string
+          requested_by?: string | null
+          station_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "retake_requests_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: true
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "retake_requests_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "staff"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "retake_requests_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "capture_stations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff: {
+        Row: {
+          created_at: string
+          email: string
+          full_name: string | null
+          role: Database["public"]["Enums"]["staff_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          full_name?: string | null
+          role?: Database["public"]["Enums"]["staff_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          full_name?: string | null
+          role?: Database["public"]["Enums"]["staff_role"]
+          user_id?: string
         }
         Relationships: []
       }
@@ -49,10 +567,167 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_look_up_attendees: {
+        Args: { _event_id: string }
+        Returns: boolean
+      }
+      capture_station_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          last_capture_at: string
+          station_id: string
+          total: number
+        }[]
+      }
+      dismiss_retake_request: {
+        Args: { _photo_id: string }
+        Returns: undefined
+      }
+      find_attendee_by_ticket: {
+        Args: { _codes: string[]; _event_id: string }
+        Returns: {
+          full_name: string
+          id: string
+          role: string
+        }[]
+      }
+      has_staff_role: {
+        Args: { _role: Database["public"]["Enums"]["staff_role"] }
+        Returns: boolean
+      }
+      hash_station_token: {
+        Args: { _token: string }
+        Returns: string
+      }
+      image_hash_distance: {
+        Args: { _a: string; _b: string }
+        Returns: number
+      }
+      is_staff: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      log_photo_action: {
+        Args: { _action: string; _details?: Json; _photo_ids: string[] }
+        Returns: undefined
+      }
+      merge_duplicate_photos: {
+        Args: { _archive_id: string; _keep_id: string }
+        Returns: undefined
+      }
+      pair_capture_station: {
+        Args: { _code: string }
+        Returns: {
+          event_id: string
+          event_slug: string
+          name: string
+          station_id: string
+          token: string
+        }[]
+      }
+      photo_status_counts: {
+        Args: {
+          _event_id?: string
+          _from?: string
+          _quality_levels?: string[]
+          _terms?: string[]
+          _to?: string
+        }
+        Returns: {
+          status: Database["public"]["Enums"]["photo_status"]
+          total: number
+        }[]
+      }
+      photo_status_transition_allowed: {
+        Args: {
+          _from: Database["public"]["Enums"]["photo_status"]
+          _to: Database["public"]["Enums"]["photo_status"]
+        }
+        Returns: boolean
+      }
+      record_audit_event: {
+        Args: {
+          _action: string
+          _after?: Json
+          _before?: Json
+          _photo_id: string
+          _station_id?: string
+        }
+        Returns: undefined
+      }
+      request_station_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      search_attendees: {
+        Args: { _event_id: string; _limit?: number; _query: string }
+        Returns: {
+          full_name: string
+          id: string
+          role: string
+        }[]
+      }
+      search_normalize: {
+        Args: { _value: string }
+        Returns: string
+      }
+      start_station_pairing: {
+        Args: { _station_id: string }
+        Returns: {
+          pairing_code: string
+          pairing_expires_at: string
+        }[]
+      }
+      station_heartbeat: {
+        Args: {
+          _app_version?: string
+          _battery_charging?: boolean
+          _battery_level?: number
+          _is_online?: boolean
+          _queue_depth?: number
+          _token: string
+        }
+        Returns: {
+          event_id: string
+          event_slug: string
+          name: string
+          station_id: string
+        }[]
+      }
+      station_retake_requests: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          attendee_id: string
+          event_id: string
+          name: string
+          photo_id: string
+          reason: string
+          role: string
+        }[]
+      }
+      take_capture_slot: {
+        Args: { _limit: number; _station_id: string }
+        Returns: boolean
+      }
+      transition_photo_status: {
+        Args: {
+          _photo_ids: string[]
+          _reason?: string
+          _to: Database["public"]["Enums"]["photo_status"]
+        }
+        Returns: string[]
+      }
     }
     Enums: {
-      [_ in never]: never
+      photo_status:
+        | "captured"
+        | "in_review"
+        | "approved"
+        | "rejected"
+        | "badge_generated"
+        | "printed"
+        | "collected"
+      staff_role: "admin" | "operator"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -179,6 +854,17 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      photo_status: [
+        "captured",
+        "in_review",
+        "approved",
+        "rejected",
+        "badge_generated",
+        "printed",
+        "collected",
+      ],
+      staff_role: ["admin", "operator"],
+    },
   },
 } as const
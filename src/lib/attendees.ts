@@ -0,0 +1,232 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables, TablesInsert } from "@/integrations/supabase/types";
+import { withStationToken } from "@/lib/capture-station";
+import { parseCsv } from "@/lib/csv";
+
+export type Attendee = Tables<"attendees">;
+// What the capture type-ahead gets back from search_attendees
+export type AttendeeMatch = Database["public"]["Functions"]["search_attendees"]["Returns"][number];
+
+export type AttendeeField = 'full_name' | 'role' | 'company' | 'email' | 'external_id';
+
+export const ATTENDEE_FIELDS: { field: AttendeeField; label: string; required: boolean; hints: string[] }[] = [
+  { field: 'full_name', label: 'Nome', required: true, hints: ['nome', 'name', 'nome completo', 'full name', 'participante'] },
+  { field: 'role', label: 'Função', required: false, hints: ['funcao', 'cargo', 'role', 'title', 'job title', 'posicao'] },
+  { field: 'company', label: 'Empresa', required: false, hints: ['empresa', 'company', 'organizacao', 'organization', 'entidade'] },
+  { field: 'email', label: 'Email', required: false, hints: ['email', 'e mail', 'correio eletronico', 'mail'] },
+  {
+    field: 'external_id',
+    label: 'N.º de registo',
+    required: false,
+    hints: ['id', 'registo', 'n de registo', 'numero de registo', 'inscricao', 'bilhete', 'ticket', 'ticket id', 'codigo', 'code'],
+  },
+];
+
+// Index of the spreadsheet column feeding each field, null when not imported
+export type ColumnMapping = Record<AttendeeField, number | null>;
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: string[][];
+}
+
+// Lower-case without accents, like public.search_normalize on the server
+export const normalizeSearch = (value: string): string => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+};
+
+const cellText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value).trim();
+};
+
+/**
+ * Reads the first sheet of an XLSX file or a CSV file. The first row is the
+ * header row. The XLSX reader is only downloaded when an XLSX file is picked.
+ */
+export const readSpreadsheet = async (file: File): Promise<Spreadsheet> => {
+  let rows: string[][];
+  if (/\.xlsx$/i.test(file.name)) {
+    const { default: readXlsxFile } = await import("read-excel-file");
+    rows = (await readXlsxFile(file)).map(row => row.map(cellText));
+  } else {
+    rows = parseCsv(await file.text()).map(row => row.map(cellText));
+  }
+
+  const [headers = [], ...body] = rows;
+  return { headers, rows: body };
+};
+
+// Pairs each field with the column whose header looks like it
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(header => normalizeSearch(header).replace(/[^a-z0-9]+/g, ' ').trim());
+  const used = new Set<number>();
+
+  return Object.fromEntries(ATTENDEE_FIELDS.map(({ field, hints }) => {
+    const index = normalized.findIndex((header, i) => !used.has(i) && hints.includes(header));
+    if (index === -1) return [field, null];
+    used.add(index);
+    return [field, index];
+  })) as ColumnMapping;
+};
+
+// Identifies an attendee without a registration number: name and email,
+// ignoring case, accents and spacing
+const attendeeKey = (record: { full_name: string; email?: string | null }): string => {
+  const normalize = (value: string) => normalizeSearch(value).replace(/\s+/g, ' ');
+  return `${normalize(record.full_name)}|${normalize(record.email ?? '')}`;
+};
+
+export interface MappedAttendees {
+  records: TablesInsert<"attendees">[];
+  // Rows without a name
+  skipped: number;
+}
+
+export const mapAttendeeRows = (sheet: Spreadsheet, mapping: ColumnMapping, eventId: string): MappedAttendees => {
+  const value = (row: string[], field: AttendeeField) => {
+    const index = mapping[field];
+    return index === null ? null : row[index]?.trim() || null;
+  };
+
+  // A registration number, or a name and email without one, appearing twice
+  // keeps its last row, since one upsert can't touch the same attendee twice
+  const byExternalId = new Map<string, TablesInsert<"attendees">>();
+  const withoutId = new Map<string, TablesInsert<"attendees">>();
+  let skipped = 0;
+
+  sheet.rows.forEach(row => {
+    const fullName = value(row, 'full_name');
+    if (!fullName) {
+      skipped++;
+      return;
+    }
+
+    const record: TablesInsert<"attendees"> = {
+      event_id: eventId,
+      full_name: fullName,
+      role: value(row, 'role'),
+      company: value(row, 'company'),
+      email: value(row, 'email'),
+      external_id: value(row, 'external_id'),
+    };
+
+    if (record.external_id) {
+      byExternalId.set(record.external_id, record);
+    } else {
+      withoutId.set(attendeeKey(record), record);
+    }
+  });
+
+  return { records: [...byExternalId.values(), ...withoutId.values()], skipped };
+};
+
+const IMPORT_BATCH_SIZE = 500;
+const EXISTING_PAGE_SIZE = 1000;
+
+export interface ImportResult {
+  added: number;
+  updated: number;
+}
+
+// Every attendee already in the event, for matching the imported rows
+const fetchEventAttendees = async (eventId: string) => {
+  const attendees: Pick<Attendee, 'id' | 'full_name' | 'email' | 'external_id'>[] = [];
+  for (let from = 0; ; from += EXISTING_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('attendees')
+      .select('id, full_name, email, external_id')
+      .eq('event_id', eventId)
+      .order('id')
+      .range(from, from + EXISTING_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    attendees.push(...(data ?? []));
+    if (!data || data.length < EXISTING_PAGE_SIZE) return attendees;
+  }
+};
+
+/**
+ * Saves imported attendees in batches. Attendees with a registration number
+ * already in the event are updated, and so are those without one whose name
+ * and email match an attendee without one; the rest are added.
+ */
+export const importAttendees = async (
+  eventId: string,
+  records: TablesInsert<"attendees">[],
+  onProgress: (done: number) => void,
+): Promise<ImportResult> => {
+  const existing = await fetchEventAttendees(eventId);
+  const existingExternalIds = new Set(existing.map(attendee => attendee.external_id).filter(Boolean));
+  const existingByKey = new Map(
+    existing.filter(attendee => !attendee.external_id).map(attendee => [attendeeKey(attendee), attendee.id]),
+  );
+
+  const withId = records.filter(record => record.external_id);
+  const matched: TablesInsert<"attendees">[] = [];
+  const added: TablesInsert<"attendees">[] = [];
+  records.filter(record => !record.external_id).forEach(record => {
+    const id = existingByKey.get(attendeeKey(record));
+    if (id) {
+      matched.push({ ...record, id });
+    } else {
+      added.push(record);
+    }
+  });
+
+  let done = 0;
+  const save = async (rows: TablesInsert<"attendees">[], write: (batch: TablesInsert<"attendees">[]) => PromiseLike<{ error: unknown }>) => {
+    for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+      const batch = rows.slice(start, start + IMPORT_BATCH_SIZE);
+      const { error } = await write(batch);
+      if (error) throw error;
+      done += batch.length;
+      onProgress(done);
+    }
+  };
+
+  await save(withId, batch => supabase.from('attendees').upsert(batch, { onConflict: 'event_id,external_id' }));
+  await save(matched, batch => supabase.from('attendees').upsert(batch, { onConflict: 'id' }));
+  await save(added, batch => supabase.from('attendees').insert(batch));
+
+  const updated = withId.filter(record => existingExternalIds.has(record.external_id)).length + matched.length;
+  return { added: records.length - updated, updated };
+};
+
+/**
+ * Registration numbers a scanned ticket code may stand for: the code itself
+ * and, for codes that wrap it in a URL or path, the last path segment and
+ * the query values (e.g. https://tickets.example/t/ABC123?ref=XYZ).
+ */
+export const ticketCandidates = (code: string): string[] => {
+  const trimmed = code.trim();
+  const candidates = [trimmed];
+
+  try {
+    const url = new URL(trimmed);
+    const segment = url.pathname.split('/').filter(Boolean).pop();
+    if (segment) candidates.push(decodeURIComponent(segment));
+    candidates.push(...url.searchParams.values());
+  } catch {
+    const segment = trimmed.split('/').filter(Boolean).pop();
+    if (segment) candidates.push(segment);
+  }
+
+  return [...new Set(candidates.map(value => value.trim()).filter(Boolean))];
+};
+
+// Null when no attendee of the event has the ticket's registration number
+export const findAttendeeByTicket = async (eventId: string, code: string): Promise<AttendeeMatch | null> => {
+  const { data, error } = await withStationToken(supabase.rpc('find_attendee_by_ticket', {
+    _event_id: eventId,
+    _codes: ticketCandidates(code),
+  }));
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+};
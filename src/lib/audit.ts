@@ -0,0 +1,61 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+export type AuditEvent = Tables<"audit_events">;
+
+export type AuditAction =
+  | 'photo_created'
+  | 'photo_updated'
+  | 'photo_deleted'
+  | 'photo_downloaded'
+  | 'photo_link_copied'
+  | 'photo_opened_in_generator'
+  | 'photo_exported';
+
+// Actions the app reports itself; the others come from the photos trigger
+export type ClientAuditAction = Extract<
+  AuditAction,
+  'photo_downloaded' | 'photo_link_copied' | 'photo_opened_in_generator' | 'photo_exported'
+>;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  photo_created: 'Foto capturada',
+  photo_updated: 'Foto alterada',
+  photo_deleted: 'Foto eliminada',
+  photo_downloaded: 'Descarregada',
+  photo_link_copied: 'Link copiado',
+  photo_opened_in_generator: 'Aberta no gerador',
+  photo_exported: 'Exportada em CSV',
+};
+
+export const auditActionLabel = (action: string): string => {
+  return AUDIT_ACTION_LABELS[action as AuditAction] ?? action;
+};
+
+/**
+ * Records an action on photos in the audit log (log_photo_action). A failed
+ * write is only logged to the console: the operator's action has already
+ * happened and shouldn't be reported as failed.
+ */
+export const logPhotoAction = async (
+  action: ClientAuditAction,
+  photoIds: string[],
+  details?: { [key: string]: Json },
+): Promise<void> => {
+  if (photoIds.length === 0) return;
+  const { error } = await supabase.rpc('log_photo_action', {
+    _action: action,
+    _photo_ids: photoIds,
+    _details: details,
+  });
+  if (error) {
+    console.error('Error writing audit event:', error);
+  }
+};
+
+// Columns an update changed; empty for the other actions
+export const changedFields = (event: AuditEvent): string[] => {
+  if (event.action !== 'photo_updated') return [];
+  const after = event.after as Record<string, Json> | null;
+  return after ? Object.keys(after) : [];
+};
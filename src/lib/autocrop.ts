@@ -0,0 +1,70 @@
+import type { CropRect, PhotoEdits } from "@/lib/image";
+import type { DetectedFace } from "@/lib/quality";
+
+/**
+ * Crop the badge photo was rendered with (photos.crop_box): rotation and flip
+ * of the original capture plus the crop rectangle, and whether it is still
+ * the automatic one or was adjusted by an operator. Spelled out as a type
+ * alias so it can be stored as Json.
+ */
+export type CropBox = {
+  rotation: PhotoEdits['rotation'];
+  flipHorizontal: boolean;
+  crop: { x: number; y: number; width: number; height: number };
+  auto: boolean;
+};
+
+// Detected face box (brows to chin) as a fraction of the crop height
+const FACE_HEIGHT = 0.38;
+// Eye line as a fraction of the crop height, from the top
+const EYE_LINE = 0.4;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Crop of the given aspect ratio that puts the face at the same size and the
+ * eyes at the same height on every badge. Works in pixels of an image of the
+ * given size, so the aspect ratio is kept on non-square images. When the face
+ * is too close to the camera the crop is as large as the image allows; near
+ * the edges it is shifted back inside the image.
+ */
+const faceCenteredCrop = (
+  imageWidth: number,
+  imageHeight: number,
+  face: DetectedFace,
+  aspect: number,
+): CropRect => {
+  let height = (face.box.height * imageHeight) / FACE_HEIGHT;
+  let width = height * aspect;
+
+  const fit = Math.min(1, imageWidth / width, imageHeight / height);
+  width *= fit;
+  height *= fit;
+
+  const x = clamp(face.eyes.x * imageWidth - width / 2, 0, imageWidth - width);
+  const y = clamp(face.eyes.y * imageHeight - height * EYE_LINE, 0, imageHeight - height);
+
+  return {
+    x: x / imageWidth,
+    y: y / imageHeight,
+    width: width / imageWidth,
+    height: height / imageHeight,
+  };
+};
+
+/**
+ * Face-centred crop on the largest face found by findFaces in an image of
+ * the given size, or null when there is no face to centre on.
+ */
+export const autoCrop = (
+  imageWidth: number,
+  imageHeight: number,
+  faces: DetectedFace[],
+  aspect: number,
+): CropRect | null => {
+  const main = faces.reduce<DetectedFace | null>(
+    (largest, face) => (!largest || face.box.height > largest.box.height ? face : largest),
+    null,
+  );
+  return main ? faceCenteredCrop(imageWidth, imageHeight, main, aspect) : null;
+};
@@ -0,0 +1,121 @@
+import { drawTransformed, loadNormalizedImage, type PhotoEdits } from "@/lib/image";
+import type { PersonMask } from "@/lib/backdrop/segmenter";
+
+// What the background of an event's photos is replaced with
+export interface Backdrop {
+  color: string;
+  // Drawn over the colour, scaled to cover the photo
+  imageUrl: string | null;
+}
+
+export const DEFAULT_BACKDROP_COLOR = '#ffffff';
+
+// The model works on 256px inputs; a larger mask only smooths the edges
+const SEGMENTATION_SIZE = 512;
+
+// Confidence range blended into a soft edge; below it is background, above it is the person
+const EDGE_LOW = 0.25;
+const EDGE_HIGH = 0.75;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return { canvas, ctx };
+};
+
+// The model files are only downloaded the first time a background is replaced
+export const prepareBackgroundReplacement = async (): Promise<void> => {
+  const { loadSegmenter } = await import("@/lib/backdrop/segmenter");
+  await loadSegmenter();
+};
+
+const backdropImages = new Map<string, Promise<HTMLCanvasElement>>();
+
+const loadBackdropImage = (url: string): Promise<HTMLCanvasElement> => {
+  let image = backdropImages.get(url);
+  if (!image) {
+    image = fetch(url)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.blob();
+      })
+      .then(loadNormalizedImage);
+    image.catch(() => backdropImages.delete(url));
+    backdropImages.set(url, image);
+  }
+  return image;
+};
+
+const paintBackdrop = async (ctx: CanvasRenderingContext2D, width: number, height: number, backdrop: Backdrop) => {
+  ctx.fillStyle = backdrop.color || DEFAULT_BACKDROP_COLOR;
+  ctx.fillRect(0, 0, width, height);
+
+  if (backdrop.imageUrl) {
+    const image = await loadBackdropImage(backdrop.imageUrl);
+    const scale = Math.max(width / image.width, height / image.height);
+    const drawWidth = image.width * scale;
+    const drawHeight = image.height * scale;
+    ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  }
+};
+
+// Mask as the alpha channel of a canvas, with a soft edge around the person
+const maskToCanvas = ({ width, height, data }: PersonMask): HTMLCanvasElement => {
+  const { canvas, ctx } = createCanvas(width, height);
+  const pixels = ctx.createImageData(width, height);
+  for (let i = 0; i < data.length; i++) {
+    const alpha = Math.min(1, Math.max(0, (data[i] - EDGE_LOW) / (EDGE_HIGH - EDGE_LOW)));
+    pixels.data[i * 4 + 3] = Math.round(alpha * 255);
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+};
+
+// Undoes drawTransformed, so the result can be edited like the source it came from
+const restoreOrientation = (
+  image: HTMLCanvasElement,
+  edits: Pick<PhotoEdits, 'rotation' | 'flipHorizontal'>,
+  width: number,
+  height: number,
+): HTMLCanvasElement => {
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((-edits.rotation * Math.PI) / 180);
+  ctx.scale(edits.flipHorizontal ? -1 : 1, 1);
+  ctx.drawImage(image, -image.width / 2, -image.height / 2);
+  return canvas;
+};
+
+/**
+ * Copy of the source with the background behind the person replaced.
+ * Segmentation and the backdrop work on the upright photo (after the
+ * rotation and flip of the edits); the result is turned back so the same
+ * edits and crops apply to it as to the source.
+ */
+export const replaceBackground = async (
+  source: HTMLCanvasElement,
+  edits: Pick<PhotoEdits, 'rotation' | 'flipHorizontal'>,
+  backdrop: Backdrop,
+): Promise<HTMLCanvasElement> => {
+  const { segmentPerson } = await import("@/lib/backdrop/segmenter");
+  const mask = maskToCanvas(await segmentPerson(drawTransformed(source, edits, SEGMENTATION_SIZE)));
+
+  const upright = drawTransformed(source, edits);
+  const { width, height } = upright;
+
+  // Person only: the mask scaled up to the photo, then the photo drawn inside it
+  const person = createCanvas(width, height);
+  person.ctx.imageSmoothingQuality = 'high';
+  person.ctx.drawImage(mask, 0, 0, width, height);
+  person.ctx.globalCompositeOperation = 'source-in';
+  person.ctx.drawImage(upright, 0, 0);
+
+  const result = createCanvas(width, height);
+  await paintBackdrop(result.ctx, width, height, backdrop);
+  result.ctx.drawImage(person.canvas, 0, 0);
+
+  return restoreOrientation(result.canvas, edits, source.width, source.height);
+};
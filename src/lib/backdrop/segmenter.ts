@@ -0,0 +1,57 @@
+import { FilesetResolver, ImageSegmenter } from "@mediapipe/tasks-vision";
+import wasmLoaderUrl from "@mediapipe/tasks-vision/vision_wasm_internal.js?url";
+import wasmBinaryUrl from "@mediapipe/tasks-vision/vision_wasm_internal.wasm?url";
+import noSimdLoaderUrl from "@mediapipe/tasks-vision/vision_wasm_nosimd_internal.js?url";
+import noSimdBinaryUrl from "@mediapipe/tasks-vision/vision_wasm_nosimd_internal.wasm?url";
+// Only the model file is used from this package, not its solution API
+import modelUrl from "@mediapipe/selfie_segmentation/selfie_segmentation.tflite?url";
+
+// Probability (0-1) that each pixel belongs to the person, row by row
+export interface PersonMask {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+let segmenterPromise: Promise<ImageSegmenter> | null = null;
+
+// The WebAssembly runtime and the model ship with the app, so nothing is fetched from a CDN
+export const loadSegmenter = (): Promise<ImageSegmenter> => {
+  segmenterPromise ??= (async () => {
+    const simd = await FilesetResolver.isSimdSupported();
+    return ImageSegmenter.createFromOptions(
+      simd
+        ? { wasmLoaderPath: wasmLoaderUrl, wasmBinaryPath: wasmBinaryUrl }
+        : { wasmLoaderPath: noSimdLoaderUrl, wasmBinaryPath: noSimdBinaryUrl },
+      {
+        // Inference runs on the CPU; MediaPipe still reads the image through WebGL
+        baseOptions: { modelAssetPath: modelUrl, delegate: 'CPU' },
+        runningMode: 'IMAGE',
+        outputConfidenceMasks: true,
+        outputCategoryMask: false,
+      },
+    );
+  })().catch(error => {
+    segmenterPromise = null;
+    throw error;
+  });
+  return segmenterPromise;
+};
+
+/**
+ * Separates the person from the background with the MediaPipe selfie
+ * segmentation model. The mask has the size of the image.
+ */
+export const segmentPerson = async (image: HTMLCanvasElement): Promise<PersonMask> => {
+  const segmenter = await loadSegmenter();
+  const result = segmenter.segment(image);
+
+  try {
+    const mask = result.confidenceMasks?.[0];
+    if (!mask) throw new Error('Segmentation returned no mask');
+    // Copied because the result's memory is released below
+    return { width: mask.width, height: mask.height, data: mask.getAsFloat32Array().slice() };
+  } finally {
+    result.close();
+  }
+};
@@ -0,0 +1,29 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type BadgeAssetKind = 'logos' | 'backgrounds' | 'fonts' | 'backdrops';
+
+const BUCKET = 'badge-assets';
+
+/**
+ * Uploads a logo, background or font for badge templates, or a photo
+ * backdrop for an event, and returns its public URL. Files are never
+ * overwritten: templates keep pointing at the exact file they were
+ * designed with.
+ */
+export const uploadBadgeAsset = async (file: File, kind: BadgeAssetKind): Promise<string> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'bin';
+  const path = `${kind}/${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, file, {
+      cacheControl: '31536000',
+      contentType: file.type || undefined,
+      upsert: false,
+    });
+
+  if (error) throw error;
+
+  const { data: { publicUrl } } = supabase.storage.from(BUCKET).getPublicUrl(path);
+  return publicUrl;
+};
@@ -0,0 +1,185 @@
+import { canvasToBlob } from "@/lib/image";
+import { cssFontFamily, loadCanvasFonts } from "@/lib/badge/fonts";
+import { coverCrop, containFit, fitText, loadTemplateImage, qrModules, textOffsetX } from "@/lib/badge/layout";
+import {
+  elementText,
+  fillPlaceholders,
+  fullSize,
+  MM_PER_INCH,
+  MM_PER_POINT,
+  PRINT_DPI,
+  type BadgeData,
+  type BadgeElement,
+  type BadgeTemplate,
+  type PhotoElement,
+  type TextElement,
+} from "@/lib/badge/template";
+
+export interface CanvasRenderOptions {
+  dpi?: number;
+  // Include the bleed area around the trim line (for printing)
+  includeBleed?: boolean;
+}
+
+const PLACEHOLDER_COLOR = '#e2e8f0';
+
+// Font sizes are converted to millimetres because the context is scaled to mm
+const canvasFont = (element: TextElement, fontSize: number) => {
+  return `${element.bold ? 'bold ' : ''}${fontSize * MM_PER_POINT}px ${cssFontFamily(element.fontFamily)}`;
+};
+
+/**
+ * Draws the attendee photo cropped to fill the frame, with rounded corners,
+ * into a canvas of its own at the given resolution. Also used by the PDF
+ * renderer, which can't clip images.
+ */
+export const renderPhotoTile = (
+  photo: HTMLCanvasElement | null,
+  element: PhotoElement,
+  dpi: number,
+): HTMLCanvasElement => {
+  const pxPerMm = dpi / MM_PER_INCH;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(element.width * pxPerMm));
+  canvas.height = Math.max(1, Math.round(element.height * pxPerMm));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.beginPath();
+  ctx.roundRect(0, 0, canvas.width, canvas.height, element.cornerRadius * pxPerMm);
+  ctx.clip();
+
+  if (photo) {
+    const crop = coverCrop(photo.width, photo.height, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(photo, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+  } else {
+    ctx.fillStyle = PLACEHOLDER_COLOR;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  return canvas;
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, element: TextElement, data: BadgeData) => {
+  const text = elementText(element, data);
+  if (!text) return;
+
+  const fitted = fitText(text, element, (line, fontSize) => {
+    ctx.font = canvasFont(element, fontSize);
+    return ctx.measureText(line).width;
+  });
+
+  ctx.font = canvasFont(element, fitted.fontSize);
+  ctx.fillStyle = element.color;
+  ctx.textAlign = element.align;
+  ctx.textBaseline = 'top';
+
+  const top = element.y + (element.height - fitted.lines.length * fitted.lineHeight) / 2;
+  fitted.lines.forEach((line, index) => {
+    ctx.fillText(line, element.x + textOffsetX(element.align, element.width), top + index * fitted.lineHeight);
+  });
+};
+
+const drawElement = async (
+  ctx: CanvasRenderingContext2D,
+  element: BadgeElement,
+  data: BadgeData,
+  dpi: number,
+) => {
+  switch (element.type) {
+    case 'band':
+      ctx.fillStyle = element.color;
+      ctx.fillRect(element.x, element.y, element.width, element.height);
+      break;
+
+    case 'photo': {
+      const tile = renderPhotoTile(data.photo, element, dpi);
+      ctx.drawImage(tile, element.x, element.y, element.width, element.height);
+      if (element.borderWidth > 0) {
+        ctx.strokeStyle = element.borderColor;
+        ctx.lineWidth = element.borderWidth;
+        ctx.beginPath();
+        ctx.roundRect(element.x, element.y, element.width, element.height, element.cornerRadius);
+        ctx.stroke();
+      }
+      break;
+    }
+
+    case 'logo': {
+      if (!element.src) break;
+      const logo = await loadTemplateImage(element.src);
+      const fit = containFit(logo.width, logo.height, element.width, element.height);
+      ctx.drawImage(logo, element.x + fit.x, element.y + fit.y, fit.width, fit.height);
+      break;
+    }
+
+    case 'qr': {
+      const modules = qrModules(fillPlaceholders(element.value, data));
+      // One module of quiet zone on each side
+      const cell = Math.min(element.width, element.height) / (modules.length + 2);
+      ctx.fillStyle = element.background;
+      ctx.fillRect(element.x, element.y, element.width, element.height);
+      ctx.fillStyle = element.color;
+      modules.forEach((row, rowIndex) => row.forEach((dark, colIndex) => {
+        if (dark) {
+          // Slight overlap avoids hairline gaps between modules when scaled
+          ctx.fillRect(element.x + (colIndex + 1) * cell, element.y + (rowIndex + 1) * cell, cell + 0.01, cell + 0.01);
+        }
+      }));
+      break;
+    }
+
+    default:
+      drawText(ctx, element, data);
+  }
+};
+
+/**
+ * Renders a badge into a canvas. Drawing happens in millimetres, so the
+ * template maps 1:1 onto the context whatever the resolution.
+ */
+export const renderBadgeToCanvas = async (
+  template: BadgeTemplate,
+  data: BadgeData,
+  { dpi = PRINT_DPI, includeBleed = true }: CanvasRenderOptions = {},
+): Promise<HTMLCanvasElement> => {
+  const size = includeBleed ? fullSize(template) : { width: template.widthMm, height: template.heightMm };
+  const pxPerMm = dpi / MM_PER_INCH;
+  const bleed = template.bleedMm;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(size.width * pxPerMm);
+  canvas.height = Math.round(size.height * pxPerMm);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  await loadCanvasFonts(template);
+  ctx.scale(pxPerMm, pxPerMm);
+  if (includeBleed) {
+    ctx.translate(bleed, bleed);
+  }
+
+  // The background always extends into the bleed
+  ctx.fillStyle = template.background.color;
+  ctx.fillRect(-bleed, -bleed, template.widthMm + bleed * 2, template.heightMm + bleed * 2);
+  if (template.background.imageUrl) {
+    const image = await loadTemplateImage(template.background.imageUrl);
+    const full = fullSize(template);
+    const crop = coverCrop(image.width, image.height, full.width, full.height);
+    ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, -bleed, -bleed, full.width, full.height);
+  }
+
+  for (const element of template.elements) {
+    ctx.save();
+    await drawElement(ctx, element, data, dpi);
+    ctx.restore();
+  }
+
+  return canvas;
+};
+
+export const renderBadgePng = async (template: BadgeTemplate, data: BadgeData, dpi = PRINT_DPI): Promise<Blob> => {
+  const canvas = await renderBadgeToCanvas(template, data, { dpi });
+  return canvasToBlob(canvas, 'image/png');
+};
@@ -0,0 +1,95 @@
+import type { jsPDF } from "jspdf";
+import { STANDARD_FONTS, type BadgeTemplate, type CustomFont } from "@/lib/badge/template";
+
+const fontFiles = new Map<string, Promise<ArrayBuffer>>();
+const loadedFaces = new Set<string>();
+
+export const isStandardFont = (family: string): boolean => {
+  return STANDARD_FONTS.some(font => font.value === family);
+};
+
+const fetchFontFile = (url: string): Promise<ArrayBuffer> => {
+  let file = fontFiles.get(url);
+  if (!file) {
+    file = (async () => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return response.arrayBuffer();
+    })();
+    file.catch(() => fontFiles.delete(url));
+    fontFiles.set(url, file);
+  }
+  return file;
+};
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fontStyle = (font: CustomFont) => (font.bold ? 'bold' : 'normal');
+
+/**
+ * Registers the template's custom fonts with the document so canvas text can
+ * use them. A font that fails to load falls back to the browser default
+ * instead of failing the whole badge.
+ */
+export const loadCanvasFonts = async (template: BadgeTemplate) => {
+  await Promise.all(template.fonts.map(async font => {
+    const key = `${font.family}|${fontStyle(font)}|${font.url}`;
+    if (loadedFaces.has(key)) return;
+
+    try {
+      const face = new FontFace(font.family, await fetchFontFile(font.url), { weight: fontStyle(font) });
+      await face.load();
+      document.fonts.add(face);
+      loadedFaces.add(key);
+    } catch (error) {
+      console.error('Error loading badge font:', error);
+    }
+  }));
+};
+
+/**
+ * Embeds the template's custom fonts in a PDF. Fonts must be TrueType.
+ */
+export const registerPdfFonts = async (doc: jsPDF, template: BadgeTemplate) => {
+  for (const font of template.fonts) {
+    try {
+      const fileName = `${font.family}-${fontStyle(font)}.ttf`;
+      doc.addFileToVFS(fileName, toBase64(await fetchFontFile(font.url)));
+      doc.addFont(fileName, font.family, fontStyle(font));
+    } catch (error) {
+      console.error('Error embedding badge font:', error);
+    }
+  }
+};
+
+/**
+ * Font and style to select in a PDF: a custom family without a bold file
+ * uses its regular one, and an unknown family falls back to Helvetica.
+ */
+export const resolvePdfFont = (doc: jsPDF, family: string, bold: boolean): [string, string] => {
+  const styles = doc.getFontList()[family];
+  if (!styles?.length) return ['helvetica', bold ? 'bold' : 'normal'];
+  if (bold && styles.includes('bold')) return [family, 'bold'];
+  return [family, styles.includes('normal') ? 'normal' : styles[0]];
+};
+
+export const cssFontFamily = (family: string): string => {
+  switch (family) {
+    case 'helvetica':
+      return 'Helvetica, Arial, sans-serif';
+    case 'times':
+      return '"Times New Roman", Times, serif';
+    case 'courier':
+      return '"Courier New", Courier, monospace';
+    default:
+      return `"${family.replace(/"/g, '')}", Helvetica, Arial, sans-serif`;
+  }
+};
@@ -0,0 +1,26 @@
+import { loadNormalizedImage } from "@/lib/image";
+import { getBadgePhotoUrl, type Photo } from "@/lib/photos";
+import type { BadgeEvent } from "@/lib/events";
+import type { BadgeData } from "@/lib/badge/template";
+
+export * from "@/lib/badge/template";
+export { renderBadgeToCanvas, renderBadgePng } from "@/lib/badge/canvas";
+export { drawBadgeOnPdf, renderBadgePdf } from "@/lib/badge/pdf";
+export * from "@/lib/badge/sheet";
+export { cssFontFamily, isStandardFont, registerPdfFonts } from "@/lib/badge/fonts";
+
+/**
+ * Downloads and decodes the badge photo so it can be drawn into a badge.
+ */
+export const loadBadgeData = async (photo: Photo, event?: BadgeEvent | null): Promise<BadgeData> => {
+  const response = await fetch(await getBadgePhotoUrl(photo));
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+  return {
+    id: photo.id,
+    name: photo.name,
+    role: photo.role,
+    eventName: event?.name ?? null,
+    photo: await loadNormalizedImage(await response.blob()),
+  };
+};
@@ -0,0 +1,130 @@
+import QRCode from "qrcode";
+import { loadNormalizedImage } from "@/lib/image";
+import { MM_PER_POINT, type TextElement } from "@/lib/badge/template";
+
+// Width in millimetres of a single line of text at the given size in points
+export type MeasureText = (text: string, fontSize: number) => number;
+
+export interface FittedText {
+  fontSize: number;
+  lines: string[];
+  lineHeight: number;
+}
+
+const LINE_HEIGHT = 1.15;
+const FONT_STEP = 0.5;
+
+const wrapWords = (text: string, maxWidth: number, fontSize: number, measure: MeasureText): string[] => {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && measure(candidate, fontSize) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines;
+};
+
+const ellipsize = (line: string, maxWidth: number, fontSize: number, measure: MeasureText): string => {
+  if (measure(line, fontSize) <= maxWidth) return line;
+  let text = line;
+  while (text.length > 1 && measure(`${text}…`, fontSize) > maxWidth) {
+    text = text.slice(0, -1);
+  }
+  return `${text.trimEnd()}…`;
+};
+
+/**
+ * Picks the largest font size in the element's range at which the text fits
+ * its box, wrapping on words up to maxLines. If it doesn't fit even at the
+ * minimum size, the overflow is cut with an ellipsis.
+ */
+export const fitText = (text: string, element: TextElement, measure: MeasureText): FittedText => {
+  const { width, height, minFontSize, maxFontSize } = element;
+  const maxLines = Math.max(1, element.maxLines);
+
+  for (let fontSize = maxFontSize; fontSize >= minFontSize; fontSize -= FONT_STEP) {
+    const lineHeight = fontSize * MM_PER_POINT * LINE_HEIGHT;
+    const lines = wrapWords(text, width, fontSize, measure);
+    const fits = lines.length <= maxLines
+      && lines.length * lineHeight <= height
+      && lines.every(line => measure(line, fontSize) <= width);
+
+    if (fits) {
+      return { fontSize, lines, lineHeight };
+    }
+  }
+
+  const fontSize = minFontSize;
+  const lineHeight = fontSize * MM_PER_POINT * LINE_HEIGHT;
+  const visibleLines = Math.max(1, Math.min(maxLines, Math.floor(height / lineHeight)));
+  const wrapped = wrapWords(text, width, fontSize, measure);
+  const lines = wrapped.slice(0, visibleLines);
+  if (wrapped.length > visibleLines) {
+    lines[lines.length - 1] = `${lines[lines.length - 1]}…`;
+  }
+
+  return {
+    fontSize,
+    lines: lines.map(line => ellipsize(line, width, fontSize, measure)),
+    lineHeight,
+  };
+};
+
+// Source rectangle that fills the target box like CSS object-fit: cover
+export const coverCrop = (sourceWidth: number, sourceHeight: number, boxWidth: number, boxHeight: number) => {
+  const scale = Math.max(boxWidth / sourceWidth, boxHeight / sourceHeight);
+  const width = boxWidth / scale;
+  const height = boxHeight / scale;
+  return { x: (sourceWidth - width) / 2, y: (sourceHeight - height) / 2, width, height };
+};
+
+// Where a source scaled to fit inside the box ends up, like object-fit: contain
+export const containFit = (sourceWidth: number, sourceHeight: number, boxWidth: number, boxHeight: number) => {
+  const scale = Math.min(boxWidth / sourceWidth, boxHeight / sourceHeight);
+  const width = sourceWidth * scale;
+  const height = sourceHeight * scale;
+  return { x: (boxWidth - width) / 2, y: (boxHeight - height) / 2, width, height };
+};
+
+export const textOffsetX = (align: TextElement['align'], boxWidth: number) => {
+  return align === 'center' ? boxWidth / 2 : align === 'right' ? boxWidth : 0;
+};
+
+/**
+ * QR code as a square matrix of dark modules (true = dark).
+ */
+export const qrModules = (value: string): boolean[][] => {
+  const qr = QRCode.create(value || ' ', { errorCorrectionLevel: 'M' });
+  const { size, data } = qr.modules;
+  return Array.from({ length: size }, (_, row) => (
+    Array.from({ length: size }, (_, col) => !!data[row * size + col])
+  ));
+};
+
+const imageCache = new Map<string, Promise<HTMLCanvasElement>>();
+
+/**
+ * Logos and backgrounds are fetched once per session. Fetching the bytes
+ * (instead of <img src>) keeps the canvas exportable for CORS-enabled hosts.
+ */
+export const loadTemplateImage = (url: string): Promise<HTMLCanvasElement> => {
+  let image = imageCache.get(url);
+  if (!image) {
+    image = (async () => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return loadNormalizedImage(await response.blob());
+    })();
+    image.catch(() => imageCache.delete(url));
+    imageCache.set(url, image);
+  }
+  return image;
+};
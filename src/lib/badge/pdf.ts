@@ -0,0 +1,151 @@
+import { jsPDF } from "jspdf";
+import { renderPhotoTile } from "@/lib/badge/canvas";
+import { registerPdfFonts, resolvePdfFont } from "@/lib/badge/fonts";
+import { coverCrop, containFit, fitText, loadTemplateImage, qrModules, textOffsetX } from "@/lib/badge/layout";
+import {
+  elementText,
+  fillPlaceholders,
+  fullSize,
+  MM_PER_INCH,
+  PRINT_DPI,
+  type BadgeData,
+  type BadgeElement,
+  type BadgeTemplate,
+  type TextElement,
+} from "@/lib/badge/template";
+
+// Cuts a rectangle out of an image at print resolution
+const cropImage = (image: HTMLCanvasElement, width: number, height: number): HTMLCanvasElement => {
+  const pxPerMm = PRINT_DPI / MM_PER_INCH;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * pxPerMm));
+  canvas.height = Math.max(1, Math.round(height * pxPerMm));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  const crop = coverCrop(image.width, image.height, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const setFont = (doc: jsPDF, element: TextElement, fontSize: number) => {
+  const [family, style] = resolvePdfFont(doc, element.fontFamily, element.bold);
+  doc.setFont(family, style);
+  doc.setFontSize(fontSize);
+};
+
+const drawText = (doc: jsPDF, element: TextElement, data: BadgeData, x: number, y: number) => {
+  const text = elementText(element, data);
+  if (!text) return;
+
+  const fitted = fitText(text, element, (line, fontSize) => {
+    setFont(doc, element, fontSize);
+    return doc.getTextWidth(line);
+  });
+
+  setFont(doc, element, fitted.fontSize);
+  doc.setTextColor(element.color);
+
+  const top = y + (element.height - fitted.lines.length * fitted.lineHeight) / 2;
+  fitted.lines.forEach((line, index) => {
+    doc.text(line, x + textOffsetX(element.align, element.width), top + index * fitted.lineHeight, {
+      align: element.align,
+      baseline: 'top',
+    });
+  });
+};
+
+const drawElement = async (doc: jsPDF, element: BadgeElement, data: BadgeData, originX: number, originY: number) => {
+  const x = originX + element.x;
+  const y = originY + element.y;
+
+  switch (element.type) {
+    case 'band':
+      doc.setFillColor(element.color);
+      doc.rect(x, y, element.width, element.height, 'F');
+      break;
+
+    case 'photo': {
+      const tile = renderPhotoTile(data.photo, element, PRINT_DPI);
+      // Rounded corners need transparency, which JPEG doesn't have
+      doc.addImage(tile, element.cornerRadius > 0 ? 'PNG' : 'JPEG', x, y, element.width, element.height);
+      if (element.borderWidth > 0) {
+        doc.setDrawColor(element.borderColor);
+        doc.setLineWidth(element.borderWidth);
+        doc.roundedRect(x, y, element.width, element.height, element.cornerRadius, element.cornerRadius, 'S');
+      }
+      break;
+    }
+
+    case 'logo': {
+      if (!element.src) break;
+      const logo = await loadTemplateImage(element.src);
+      const fit = containFit(logo.width, logo.height, element.width, element.height);
+      doc.addImage(logo, 'PNG', x + fit.x, y + fit.y, fit.width, fit.height);
+      break;
+    }
+
+    case 'qr': {
+      // Drawn as vector squares so it stays sharp at any print size
+      const modules = qrModules(fillPlaceholders(element.value, data));
+      const cell = Math.min(element.width, element.height) / (modules.length + 2);
+      doc.setFillColor(element.background);
+      doc.rect(x, y, element.width, element.height, 'F');
+      doc.setFillColor(element.color);
+      modules.forEach((row, rowIndex) => row.forEach((dark, colIndex) => {
+        if (dark) {
+          doc.rect(x + (colIndex + 1) * cell, y + (rowIndex + 1) * cell, cell, cell, 'F');
+        }
+      }));
+      break;
+    }
+
+    default:
+      drawText(doc, element, data, x, y);
+  }
+};
+
+/**
+ * Draws a badge onto a PDF page with its trim box's top-left corner at
+ * (originX, originY) in millimetres. The background extends into the bleed.
+ * Call registerPdfFonts once per document first if the template has custom fonts.
+ */
+export const drawBadgeOnPdf = async (
+  doc: jsPDF,
+  template: BadgeTemplate,
+  data: BadgeData,
+  originX: number,
+  originY: number,
+) => {
+  const bleed = template.bleedMm;
+  const full = fullSize(template);
+
+  doc.setFillColor(template.background.color);
+  doc.rect(originX - bleed, originY - bleed, full.width, full.height, 'F');
+  if (template.background.imageUrl) {
+    const image = await loadTemplateImage(template.background.imageUrl);
+    doc.addImage(cropImage(image, full.width, full.height), 'JPEG', originX - bleed, originY - bleed, full.width, full.height);
+  }
+
+  for (const element of template.elements) {
+    await drawElement(doc, element, data, originX, originY);
+  }
+};
+
+/**
+ * Single-badge PDF, page size = badge plus bleed. Text, bands and QR codes
+ * are vectors; only the photo and images are embedded at print resolution.
+ */
+export const renderBadgePdf = async (template: BadgeTemplate, data: BadgeData): Promise<Blob> => {
+  const full = fullSize(template);
+  const doc = new jsPDF({
+    unit: 'mm',
+    format: [full.width, full.height],
+    orientation: full.width > full.height ? 'landscape' : 'portrait',
+  });
+
+  await registerPdfFonts(doc, template);
+  await drawBadgeOnPdf(doc, template, data, template.bleedMm, template.bleedMm);
+  return doc.output('blob');
+};
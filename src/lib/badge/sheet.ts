@@ -0,0 +1,202 @@
+import { jsPDF } from "jspdf";
+import { registerPdfFonts } from "@/lib/badge/fonts";
+import { drawBadgeOnPdf } from "@/lib/badge/pdf";
+import { fullSize, type BadgeData, type BadgeTemplate } from "@/lib/badge/template";
+
+/**
+ * Imposition of many badges on one sheet of paper for office printers. Each
+ * badge keeps its bleed, and crop marks in the margins and gutters show where
+ * to cut along the trim lines.
+ */
+
+export type PaperSize = 'a4' | 'letter';
+export type SheetOrientation = 'portrait' | 'landscape';
+
+export const PAPER_SIZES: Record<PaperSize, { label: string; widthMm: number; heightMm: number }> = {
+  a4: { label: 'A4', widthMm: 210, heightMm: 297 },
+  letter: { label: 'Letter', widthMm: 215.9, heightMm: 279.4 },
+};
+
+export interface SheetOptions {
+  paper: PaperSize;
+  orientation: SheetOrientation;
+  // Minimum blank space around the grid, most printers can't print to the edge
+  marginMm: number;
+  // Space between the bleed edges of neighbouring badges
+  gutterMm: number;
+  cropMarks: boolean;
+}
+
+export const DEFAULT_SHEET_OPTIONS: SheetOptions = {
+  paper: 'a4',
+  orientation: 'portrait',
+  marginMm: 10,
+  gutterMm: 4,
+  cropMarks: true,
+};
+
+export interface SheetLayout {
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  perPage: number;
+  // Top-left corner of each badge's trim box, row by row
+  slots: { x: number; y: number }[];
+  // Bleed edges of the whole grid
+  gridLeft: number;
+  gridTop: number;
+  gridRight: number;
+  gridBottom: number;
+}
+
+// Crop marks stop short of the bleed so they never show on a badge
+const CROP_MARK_OFFSET = 1;
+const CROP_MARK_LENGTH = 5;
+const CROP_MARK_WIDTH = 0.1;
+
+const fitCount = (available: number, cell: number, gutter: number) => {
+  return Math.max(0, Math.floor((available + gutter) / (cell + gutter)));
+};
+
+/**
+ * How many badges fit on a page and where each one goes. The grid is centred
+ * on the page; a perPage of 0 means the badge is bigger than the printable area.
+ */
+export const computeSheetLayout = (template: BadgeTemplate, options: SheetOptions): SheetLayout => {
+  const paper = PAPER_SIZES[options.paper];
+  const [pageWidth, pageHeight] = options.orientation === 'landscape'
+    ? [paper.heightMm, paper.widthMm]
+    : [paper.widthMm, paper.heightMm];
+
+  const cell = fullSize(template);
+  const margin = Math.max(0, options.marginMm);
+  const gutter = Math.max(0, options.gutterMm);
+
+  const columns = fitCount(pageWidth - 2 * margin, cell.width, gutter);
+  const rows = fitCount(pageHeight - 2 * margin, cell.height, gutter);
+
+  const gridWidth = columns > 0 ? columns * cell.width + (columns - 1) * gutter : 0;
+  const gridHeight = rows > 0 ? rows * cell.height + (rows - 1) * gutter : 0;
+  const gridLeft = (pageWidth - gridWidth) / 2;
+  const gridTop = (pageHeight - gridHeight) / 2;
+
+  const slots: { x: number; y: number }[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      slots.push({
+        x: gridLeft + column * (cell.width + gutter) + template.bleedMm,
+        y: gridTop + row * (cell.height + gutter) + template.bleedMm,
+      });
+    }
+  }
+
+  return {
+    pageWidth,
+    pageHeight,
+    columns,
+    rows,
+    perPage: columns * rows,
+    slots,
+    gridLeft,
+    gridTop,
+    gridRight: gridLeft + gridWidth,
+    gridBottom: gridTop + gridHeight,
+  };
+};
+
+// Blank bands a mark can go in along one axis: a short mark in the margin
+// before and after the grid, and one spanning each gutter between badges
+const markBands = (gridStart: number, gridEnd: number, cell: number, gutter: number, count: number) => {
+  const bands: [number, number][] = [
+    [gridStart - CROP_MARK_OFFSET - CROP_MARK_LENGTH, gridStart - CROP_MARK_OFFSET],
+    [gridEnd + CROP_MARK_OFFSET, gridEnd + CROP_MARK_OFFSET + CROP_MARK_LENGTH],
+  ];
+  for (let index = 1; index < count; index++) {
+    const start = gridStart + index * cell + (index - 1) * gutter;
+    bands.push([start + CROP_MARK_OFFSET, start + gutter - CROP_MARK_OFFSET]);
+  }
+  return bands.filter(([start, end]) => end > start);
+};
+
+const drawCropMarks = (doc: jsPDF, template: BadgeTemplate, layout: SheetLayout, gutter: number) => {
+  const cell = fullSize(template);
+  const bleed = template.bleedMm;
+
+  const trimXs = Array.from({ length: layout.columns }, (_, column) => {
+    const left = layout.gridLeft + column * (cell.width + gutter) + bleed;
+    return [left, left + template.widthMm];
+  }).flat();
+  const trimYs = Array.from({ length: layout.rows }, (_, row) => {
+    const top = layout.gridTop + row * (cell.height + gutter) + bleed;
+    return [top, top + template.heightMm];
+  }).flat();
+
+  doc.setDrawColor('#000000');
+  doc.setLineWidth(CROP_MARK_WIDTH);
+
+  const verticalBands = markBands(layout.gridTop, layout.gridBottom, cell.height, gutter, layout.rows);
+  trimXs.forEach(x => verticalBands.forEach(([top, bottom]) => doc.line(x, top, x, bottom)));
+
+  const horizontalBands = markBands(layout.gridLeft, layout.gridRight, cell.width, gutter, layout.columns);
+  trimYs.forEach(y => horizontalBands.forEach(([left, right]) => doc.line(left, y, right, y)));
+};
+
+export interface BadgeSheet {
+  // Places the next badge, starting a new page when the page is full or the template changes
+  addBadge: (template: BadgeTemplate, data: BadgeData) => Promise<void>;
+  pageCount: () => number;
+  output: () => Blob;
+}
+
+/**
+ * Builds a multi-page print sheet PDF one badge at a time, so only one photo
+ * needs to be decoded in memory at once. Badges with different templates
+ * never share a page.
+ */
+export const createBadgeSheet = (options: SheetOptions): BadgeSheet => {
+  const paper = PAPER_SIZES[options.paper];
+  const doc = new jsPDF({
+    unit: 'mm',
+    format: [paper.widthMm, paper.heightMm],
+    orientation: options.orientation,
+  });
+
+  const registered = new Set<BadgeTemplate>();
+  let current: { template: BadgeTemplate; layout: SheetLayout } | null = null;
+  let slot = 0;
+  let pages = 0;
+
+  const startPage = (template: BadgeTemplate, layout: SheetLayout) => {
+    if (pages > 0) doc.addPage([paper.widthMm, paper.heightMm], options.orientation);
+    pages++;
+    slot = 0;
+    if (options.cropMarks) drawCropMarks(doc, template, layout, Math.max(0, options.gutterMm));
+  };
+
+  return {
+    addBadge: async (template, data) => {
+      if (!registered.has(template)) {
+        await registerPdfFonts(doc, template);
+        registered.add(template);
+      }
+
+      if (current?.template !== template) {
+        const layout = computeSheetLayout(template, options);
+        if (layout.perPage === 0) {
+          throw new Error(`O crachá "${template.name}" não cabe na folha com estas margens`);
+        }
+        current = { template, layout };
+        startPage(template, layout);
+      } else if (slot === current.layout.perPage) {
+        startPage(template, current.layout);
+      }
+
+      // Taken before drawing so a badge that fails halfway isn't drawn over
+      const { x, y } = current.layout.slots[slot++];
+      await drawBadgeOnPdf(doc, template, data, x, y);
+    },
+    pageCount: () => pages,
+    output: () => doc.output('blob'),
+  };
+};
@@ -0,0 +1,297 @@
+import { BADGE_PHOTO_ASPECT_RATIO } from "@/lib/photo-settings";
+
+/**
+ * Badge templates. All positions and sizes are in millimetres from the
+ * top-left corner of the trimmed badge (bleed not included), font sizes in
+ * points, so the same template renders identically on screen, as PNG and as
+ * PDF at any resolution.
+ */
+
+// Built into every PDF viewer, so they need no embedding
+export type StandardFont = 'helvetica' | 'times' | 'courier';
+// A standard font or the family name of one of the template's custom fonts
+export type BadgeFontFamily = StandardFont | string;
+export type TextAlign = 'left' | 'center' | 'right';
+
+export const STANDARD_FONTS: { value: StandardFont; label: string }[] = [
+  { value: 'helvetica', label: 'Helvetica' },
+  { value: 'times', label: 'Times' },
+  { value: 'courier', label: 'Courier' },
+];
+
+// TrueType file, the only format both the browser and jsPDF can load
+export interface CustomFont {
+  family: string;
+  url: string;
+  bold: boolean;
+}
+
+interface BaseElement {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PhotoElement extends BaseElement {
+  type: 'photo';
+  cornerRadius: number;
+  borderWidth: number;
+  borderColor: string;
+}
+
+// 'name' and 'role' show the attendee's data; 'text' shows fixed text
+export interface TextElement extends BaseElement {
+  type: 'name' | 'role' | 'text';
+  // Only for 'text'. Supports {name}, {role}, {event} and {id}
+  text?: string;
+  fontFamily: BadgeFontFamily;
+  bold: boolean;
+  uppercase: boolean;
+  color: string;
+  align: TextAlign;
+  // Auto-fit range: the largest size at which the text fits is used
+  maxFontSize: number;
+  minFontSize: number;
+  maxLines: number;
+}
+
+export interface LogoElement extends BaseElement {
+  type: 'logo';
+  src: string;
+}
+
+export interface QrElement extends BaseElement {
+  type: 'qr';
+  // Supports the same placeholders as free text
+  value: string;
+  color: string;
+  background: string;
+}
+
+export interface BandElement extends BaseElement {
+  type: 'band';
+  color: string;
+}
+
+export type BadgeElement = PhotoElement | TextElement | LogoElement | QrElement | BandElement;
+export type BadgeElementType = BadgeElement['type'];
+
+export const BADGE_ELEMENT_LABELS: Record<BadgeElementType, string> = {
+  photo: 'Foto',
+  name: 'Nome',
+  role: 'Função',
+  logo: 'Logótipo',
+  qr: 'Código QR',
+  text: 'Texto livre',
+  band: 'Faixa',
+};
+
+export interface BadgeTemplate {
+  name: string;
+  widthMm: number;
+  heightMm: number;
+  // Extra background printed beyond the trim line, cut off after printing
+  bleedMm: number;
+  // Design guide only: keep text and logos inside this margin from the trim line
+  safeMarginMm: number;
+  fonts: CustomFont[];
+  background: {
+    color: string;
+    imageUrl: string | null;
+  };
+  // Drawn in order: later elements are on top
+  elements: BadgeElement[];
+}
+
+// Attendee data a template is filled with
+export interface BadgeData {
+  id: string;
+  name: string | null;
+  role: string | null;
+  eventName: string | null;
+  // Decoded photo with EXIF orientation applied
+  photo: HTMLCanvasElement | null;
+}
+
+export const PRINT_DPI = 300;
+
+export const MM_PER_INCH = 25.4;
+export const MM_PER_POINT = MM_PER_INCH / 72;
+
+// The designer can swap width and height to change the orientation
+export const BADGE_SIZE_PRESETS = [
+  { id: 'cr80', label: 'CR80 (cartão)', widthMm: 54, heightMm: 85.6 },
+  { id: 'a6', label: 'A6', widthMm: 105, heightMm: 148 },
+  { id: '4x3in', label: '4 × 3 pol.', widthMm: 101.6, heightMm: 76.2 },
+] as const;
+
+// CR80 (ID-1 card) in portrait
+export const DEFAULT_BADGE_TEMPLATE: BadgeTemplate = {
+  name: 'Modelo base',
+  widthMm: 54,
+  heightMm: 85.6,
+  bleedMm: 2,
+  safeMarginMm: 3,
+  fonts: [],
+  background: { color: '#ffffff', imageUrl: null },
+  elements: [
+    { id: 'band', type: 'band', x: 0, y: 0, width: 54, height: 14, color: '#1e293b' },
+    {
+      id: 'event',
+      type: 'text',
+      text: '{event}',
+      x: 4,
+      y: 3,
+      width: 46,
+      height: 8,
+      fontFamily: 'helvetica',
+      bold: true,
+      uppercase: true,
+      color: '#ffffff',
+      align: 'center',
+      maxFontSize: 11,
+      minFontSize: 6,
+      maxLines: 1,
+    },
+    {
+      id: 'photo',
+      type: 'photo',
+      x: 12,
+      y: 18,
+      width: 30,
+      height: 40,
+      cornerRadius: 2,
+      borderWidth: 0.3,
+      borderColor: '#cbd5e1',
+    },
+    {
+      id: 'name',
+      type: 'name',
+      x: 3,
+      y: 60,
+      width: 48,
+      height: 11,
+      fontFamily: 'helvetica',
+      bold: true,
+      uppercase: false,
+      color: '#0f172a',
+      align: 'center',
+      maxFontSize: 16,
+      minFontSize: 8,
+      maxLines: 2,
+    },
+    {
+      id: 'role',
+      type: 'role',
+      x: 3,
+      y: 71,
+      width: 34,
+      height: 11,
+      fontFamily: 'helvetica',
+      bold: false,
+      uppercase: false,
+      color: '#475569',
+      align: 'left',
+      maxFontSize: 10,
+      minFontSize: 6,
+      maxLines: 2,
+    },
+    {
+      id: 'qr',
+      type: 'qr',
+      value: '{id}',
+      x: 40,
+      y: 71,
+      width: 11,
+      height: 11,
+      color: '#0f172a',
+      background: '#ffffff',
+    },
+  ],
+};
+
+/**
+ * Replaces {name}, {role}, {event} and {id} with the attendee's data.
+ */
+export const fillPlaceholders = (value: string, data: BadgeData): string => {
+  const values: Record<string, string> = {
+    name: data.name ?? '',
+    role: data.role ?? '',
+    event: data.eventName ?? '',
+    id: data.id,
+  };
+  return value.replace(/\{(name|role|event|id)\}/g, (_, key: string) => values[key]);
+};
+
+export const elementText = (element: TextElement, data: BadgeData): string => {
+  const text = element.type === 'name'
+    ? data.name ?? ''
+    : element.type === 'role'
+      ? data.role ?? ''
+      : fillPlaceholders(element.text ?? '', data);
+  return element.uppercase ? text.toLocaleUpperCase('pt-PT') : text;
+};
+
+/**
+ * Fills in fields missing from templates saved by older versions of the
+ * designer, so stored JSON can always be rendered.
+ */
+export const normalizeTemplate = (value: unknown): BadgeTemplate => {
+  const stored = (value && typeof value === 'object' ? value : {}) as Partial<BadgeTemplate>;
+  return {
+    ...DEFAULT_BADGE_TEMPLATE,
+    ...stored,
+    background: { ...DEFAULT_BADGE_TEMPLATE.background, ...stored.background },
+    fonts: Array.isArray(stored.fonts) ? stored.fonts : [],
+    elements: Array.isArray(stored.elements) ? stored.elements : DEFAULT_BADGE_TEMPLATE.elements,
+  };
+};
+
+const textDefaults = {
+  fontFamily: 'helvetica',
+  bold: false,
+  uppercase: false,
+  color: '#0f172a',
+  align: 'center',
+  maxFontSize: 14,
+  minFontSize: 6,
+  maxLines: 2,
+} as const;
+
+/**
+ * New element of the given type, centred on the badge with a sensible size.
+ */
+export const createElement = (type: BadgeElementType, template: BadgeTemplate): BadgeElement => {
+  const id = crypto.randomUUID();
+  const width = Math.min(template.widthMm - template.safeMarginMm * 2, type === 'qr' ? 15 : 40);
+  const height = type === 'photo' ? width / BADGE_PHOTO_ASPECT_RATIO : type === 'qr' ? width : 10;
+  const box = {
+    id,
+    x: (template.widthMm - width) / 2,
+    y: (template.heightMm - height) / 2,
+    width,
+    height,
+  };
+
+  switch (type) {
+    case 'photo':
+      return { ...box, type, cornerRadius: 2, borderWidth: 0, borderColor: '#cbd5e1' };
+    case 'logo':
+      return { ...box, type, src: '' };
+    case 'qr':
+      return { ...box, type, value: '{id}', color: '#0f172a', background: '#ffffff' };
+    case 'band':
+      return { ...box, type, x: 0, width: template.widthMm, color: '#1e293b' };
+    case 'text':
+      return { ...box, type, ...textDefaults, text: 'Texto' };
+    default:
+      return { ...box, type, ...textDefaults, bold: type === 'name' };
+  }
+};
+
+export const fullSize = (template: BadgeTemplate) => ({
+  width: template.widthMm + template.bleedMm * 2,
+  height: template.heightMm + template.bleedMm * 2,
+});
@@ -0,0 +1,110 @@
+/**
+ * Reads ticket codes (QR, Code 128 and PDF417) from camera frames. Uses the
+ * browser's BarcodeDetector when it knows all three formats, otherwise the
+ * zxing-cpp WASM build bundled with the app, so scanning works offline too.
+ */
+
+// BarcodeDetector isn't in the TypeScript DOM library yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: BarcodeDetectorConstructor;
+  }
+}
+
+export interface BarcodeReader {
+  // Which decoder is in use, for diagnostics
+  engine: 'native' | 'wasm';
+  // Text of the first code in the frame, or null when there is none
+  read(source: HTMLVideoElement): Promise<string | null>;
+}
+
+const NATIVE_FORMATS = ['qr_code', 'code_128', 'pdf417'];
+const ZXING_FORMATS = ['QRCode', 'Code128', 'PDF417'] as const;
+
+// Frames are scaled down before decoding; tickets fill most of the view
+const MAX_FRAME_DIMENSION = 1280;
+
+const createNativeReader = async (): Promise<BarcodeReader | null> => {
+  const Detector = window.BarcodeDetector;
+  if (!Detector) return null;
+
+  try {
+    const supported = await Detector.getSupportedFormats();
+    if (!NATIVE_FORMATS.every(format => supported.includes(format))) return null;
+
+    const detector = new Detector({ formats: NATIVE_FORMATS });
+    return {
+      engine: 'native',
+      read: async (source) => {
+        const [barcode] = await detector.detect(source);
+        return barcode?.rawValue || null;
+      },
+    };
+  } catch (error) {
+    console.error('Error creating barcode detector:', error);
+    return null;
+  }
+};
+
+const createWasmReader = async (): Promise<BarcodeReader> => {
+  const [{ prepareZXingModule, readBarcodes }, { default: wasmUrl }] = await Promise.all([
+    import("zxing-wasm/reader"),
+    import("zxing-wasm/reader/zxing_reader.wasm?url"),
+  ]);
+
+  // Serve the WASM file from the app instead of the default CDN
+  await prepareZXingModule({
+    overrides: {
+      locateFile: (path: string, prefix: string) => (path.endsWith('.wasm') ? wasmUrl : prefix + path),
+    },
+    fireImmediately: true,
+  });
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D indisponível');
+
+  return {
+    engine: 'wasm',
+    read: async (video) => {
+      if (!video.videoWidth || !video.videoHeight) return null;
+
+      const scale = Math.min(1, MAX_FRAME_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const [result] = await readBarcodes(ctx.getImageData(0, 0, canvas.width, canvas.height), {
+        formats: [...ZXING_FORMATS],
+        maxNumberOfSymbols: 1,
+        tryHarder: true,
+      });
+      return result?.isValid ? result.text || null : null;
+    },
+  };
+};
+
+let readerPromise: Promise<BarcodeReader> | null = null;
+
+export const getBarcodeReader = (): Promise<BarcodeReader> => {
+  readerPromise ??= createNativeReader()
+    .then(reader => reader ?? createWasmReader())
+    .catch(error => {
+      readerPromise = null;
+      throw error;
+    });
+  return readerPromise;
+};
@@ -0,0 +1,56 @@
+export interface BulkFailure {
+  id: string;
+  label: string;
+  message: string;
+}
+
+export interface BulkProgress {
+  done: number;
+  total: number;
+}
+
+interface RunBulkOptions<T> {
+  label: (item: T) => string;
+  onProgress: (progress: BulkProgress) => void;
+  concurrency?: number;
+}
+
+export const errorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+};
+
+/**
+ * Runs an async action over many items with limited concurrency. Failures
+ * don't stop the run; they are collected so they can be reported per item.
+ */
+export const runBulk = async <T extends { id: string }>(
+  items: T[],
+  action: (item: T) => Promise<void>,
+  { label, onProgress, concurrency = 4 }: RunBulkOptions<T>,
+): Promise<BulkFailure[]> => {
+  const failures: BulkFailure[] = [];
+  let next = 0;
+  let done = 0;
+
+  onProgress({ done, total: items.length });
+
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        await action(item);
+      } catch (error) {
+        failures.push({ id: item.id, label: label(item), message: errorMessage(error) });
+      }
+      done++;
+      onProgress({ done, total: items.length });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return failures;
+};
@@ -0,0 +1,16 @@
+export type FacingMode = 'user' | 'environment';
+
+// User-facing explanation of a getUserMedia failure
+export const describeCameraError = (error: unknown): string => {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return "A permissão para usar a câmara foi recusada.";
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return "Não foi encontrada nenhuma câmara neste dispositivo.";
+  }
+  if (name === 'NotReadableError') {
+    return "A câmara está a ser usada por outra aplicação.";
+  }
+  return "Não foi possível iniciar a câmara.";
+};
@@ -0,0 +1,199 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { CropBox } from "@/lib/autocrop";
+import { getStationCredentials, STATION_TOKEN_HEADER } from "@/lib/capture-station";
+import type { PhotoQuality } from "@/lib/quality";
+import type { Thumbnails } from "@/lib/thumbnails";
+
+/**
+ * Captures waiting to be uploaded, persisted in IndexedDB so they survive
+ * Wi-Fi drops and page reloads on the capture tablets.
+ *
+ * Every capture gets a client-generated UUID that is used both as the photo
+ * row id and as the storage file name, so retrying an upload that partially
+ * succeeded never creates a duplicate row or file.
+ */
+export interface QueuedCapture {
+  id: string;
+  capturedAt: string;
+  eventId: string | null;
+  // Registered attendee picked in the form; the server fills in name and role.
+  // Missing on captures queued before the attendee registry existed.
+  attendeeId?: string | null;
+  // Name typed by hand at an event station, without a ticket or registry match
+  isWalkIn?: boolean;
+  // Rejected photo this capture replaces
+  retakeOf?: string | null;
+  name: string | null;
+  role: string | null;
+  // Checks run before saving; null when they couldn't run on the device
+  quality?: PhotoQuality | null;
+  // differenceHash of the processed photo, for duplicate detection
+  imageHash?: string | null;
+  original: Blob;
+  processed: Blob;
+  // Processed photo on the event's backdrop, when the event replaces backgrounds
+  backdrop?: Blob | null;
+  // Face-centred badge crop of the original; missing when no face was found
+  crop?: Blob | null;
+  cropBox?: CropBox | null;
+  // Downscaled copies of the displayed photo for the management list;
+  // missing on captures queued before thumbnails were made on the tablet
+  thumbnails?: Thumbnails | null;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  // The server refused the capture itself; it stays on the tablet, out of
+  // the retries, until the operator retries or discards it
+  failed?: boolean;
+}
+
+export type NewCapture = Pick<
+  QueuedCapture,
+  | 'eventId' | 'attendeeId' | 'isWalkIn' | 'retakeOf' | 'name' | 'role' | 'quality' | 'imageHash'
+  | 'original' | 'processed' | 'backdrop' | 'crop' | 'cropBox' | 'thumbnails'
+>;
+
+const DB_NAME = 'badge-capture';
+const DB_VERSION = 1;
+const STORE = 'captures';
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = operation(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const enqueueCapture = async (capture: NewCapture): Promise<QueuedCapture> => {
+  const queued: QueuedCapture = {
+    ...capture,
+    id: crypto.randomUUID(),
+    capturedAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: null,
+  };
+  await runTransaction('readwrite', store => store.put(queued));
+  return queued;
+};
+
+export const listQueuedCaptures = async (): Promise<QueuedCapture[]> => {
+  const captures = await runTransaction('readonly', store => store.getAll() as IDBRequest<QueuedCapture[]>);
+  return captures.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+};
+
+export const removeQueuedCapture = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id));
+};
+
+export const updateQueuedCapture = async (capture: QueuedCapture): Promise<void> => {
+  await runTransaction('readwrite', store => store.put(capture));
+};
+
+// Exponential backoff with jitter, capped at one minute
+export const nextRetryDelay = (attempts: number): number => {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay * (0.75 + Math.random() * 0.5));
+};
+
+/**
+ * The server refused the capture (bad file, unknown event, wrong station
+ * event...). Sending it again won't help, unlike network and server errors.
+ */
+export class CaptureRejectedError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// Statuses worth retrying: a revoked token is handled by the heartbeat and
+// a rate-limited station just waits
+const RETRYABLE_CLIENT_STATUSES = [401, 408, 429];
+
+/**
+ * Sends the capture to the submit-capture edge function, which stores the
+ * files and inserts the photo row. Safe to call repeatedly for the same
+ * capture. Only paired stations can save: without a station token this
+ * fails and the capture stays queued until the tablet is paired.
+ */
+export const uploadCapture = async (capture: QueuedCapture): Promise<void> => {
+  const station = getStationCredentials();
+  if (!station) {
+    throw new Error('This tablet is not paired with a capture station');
+  }
+
+  const form = new FormData();
+  form.append('capture', JSON.stringify({
+    id: capture.id,
+    eventId: capture.eventId,
+    attendeeId: capture.attendeeId ?? null,
+    isWalkIn: capture.isWalkIn ?? false,
+    retakeOf: capture.retakeOf ?? null,
+    name: capture.name,
+    role: capture.role,
+    quality: capture.quality ?? null,
+    imageHash: capture.imageHash ?? null,
+    cropBox: capture.cropBox ?? null,
+  }));
+  form.append('original', capture.original);
+  form.append('processed', capture.processed);
+  if (capture.backdrop) {
+    form.append('backdrop', capture.backdrop);
+  }
+  if (capture.crop) {
+    form.append('crop', capture.crop);
+  }
+  if (capture.thumbnails) {
+    form.append('thumb_small', capture.thumbnails.small);
+    form.append('thumb_medium', capture.thumbnails.medium);
+    if (capture.thumbnails.processed) {
+      form.append('thumb_processed', capture.thumbnails.processed);
+    }
+  }
+
+  const { error } = await supabase.functions.invoke('submit-capture', {
+    body: form,
+    headers: { [STATION_TOKEN_HEADER]: station.token },
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const response = error.context as Response;
+    const body = await response.json().catch(() => null);
+    const message = body?.error || `HTTP ${response.status}`;
+    if (response.status >= 400 && response.status < 500 && !RETRYABLE_CLIENT_STATUSES.includes(response.status)) {
+      throw new CaptureRejectedError(response.status, message);
+    }
+    throw new Error(message);
+  }
+  if (error) {
+    throw error;
+  }
+};
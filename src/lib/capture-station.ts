@@ -0,0 +1,204 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { RejectionReason } from "@/lib/photo-status";
+import type { Photo } from "@/lib/photos";
+
+export type CaptureStation = Tables<"capture_stations">;
+
+// What a paired tablet keeps about itself in localStorage
+export interface StationCredentials {
+  stationId: string;
+  token: string;
+  name: string;
+  eventId: string | null;
+  eventSlug: string | null;
+}
+
+// Reported by the tablet with every heartbeat
+export interface StationStatus {
+  batteryLevel: number | null;
+  batteryCharging: boolean | null;
+  isOnline: boolean;
+  queueDepth: number;
+}
+
+export type StationState = 'online' | 'offline' | 'pairing' | 'unpaired';
+
+const STATION_KEY = 'captureStation';
+
+// Header the database reads to find the station of a capture or lookup
+export const STATION_TOKEN_HEADER = 'x-station-token';
+
+export const HEARTBEAT_INTERVAL_MS = 30_000;
+
+// Three missed heartbeats and the station is shown as offline
+const STATION_STALE_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+export const STATION_STATE_LABELS: Record<StationState, string> = {
+  online: 'Ligado',
+  offline: 'Sem ligação',
+  pairing: 'A aguardar emparelhamento',
+  unpaired: 'Não emparelhado',
+};
+
+// Sent to the station that took a rejected photo, to capture the person again
+export interface RetakeRequest {
+  photoId: string;
+  eventId: string | null;
+  reason: RejectionReason;
+  attendeeId: string | null;
+  name: string | null;
+  role: string | null;
+}
+
+export const getStationCredentials = (): StationCredentials | null => {
+  const stored = localStorage.getItem(STATION_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as StationCredentials;
+  } catch {
+    return null;
+  }
+};
+
+// Adds this tablet's token to a database call that only answers paired
+// stations, such as the attendee lookups; staff devices send none
+export const withStationToken = <T extends { setHeader: (name: string, value: string) => T }>(request: T): T => {
+  const station = getStationCredentials();
+  return station ? request.setHeader(STATION_TOKEN_HEADER, station.token) : request;
+};
+
+export const saveStationCredentials = (credentials: StationCredentials) => {
+  localStorage.setItem(STATION_KEY, JSON.stringify(credentials));
+};
+
+export const clearStationCredentials = () => {
+  localStorage.removeItem(STATION_KEY);
+};
+
+// Link in the pairing QR; the tablet's camera app opens it
+export const getStationPairingUrl = (code: string): string => {
+  return `${window.location.origin}/parear/${code}`;
+};
+
+/**
+ * Redeems a pairing code for this tablet and stores the device token. Fails
+ * when the code was already used or has expired.
+ */
+export const pairCaptureStation = async (code: string): Promise<StationCredentials> => {
+  const { data, error } = await supabase.rpc('pair_capture_station', { _code: code });
+  if (error) throw error;
+
+  const [station] = data ?? [];
+  if (!station) throw new Error('Pairing returned no station');
+
+  const credentials: StationCredentials = {
+    stationId: station.station_id,
+    token: station.token,
+    name: station.name,
+    eventId: station.event_id,
+    eventSlug: station.event_slug,
+  };
+  saveStationCredentials(credentials);
+  return credentials;
+};
+
+/**
+ * Reports the tablet's state and returns the station as the server now has
+ * it (an admin may have renamed it or moved it to another event). Returns
+ * null when the token is no longer valid, i.e. the station was paired again
+ * or deleted.
+ */
+export const sendStationHeartbeat = async (
+  credentials: StationCredentials,
+  status: StationStatus,
+): Promise<StationCredentials | null> => {
+  const { data, error } = await supabase.rpc('station_heartbeat', {
+    _token: credentials.token,
+    _battery_level: status.batteryLevel,
+    _battery_charging: status.batteryCharging,
+    _is_online: status.isOnline,
+    _queue_depth: status.queueDepth,
+    _app_version: __APP_VERSION__,
+  });
+  if (error) throw error;
+
+  const [station] = data ?? [];
+  if (!station) return null;
+
+  return {
+    ...credentials,
+    name: station.name,
+    eventId: station.event_id,
+    eventSlug: station.event_slug,
+  };
+};
+
+/**
+ * Creates a new pairing code for a station, valid for 15 minutes. The
+ * tablet paired before, if any, stops being recognised.
+ */
+export const startStationPairing = async (stationId: string) => {
+  const { data, error } = await supabase.rpc('start_station_pairing', { _station_id: stationId });
+  if (error) throw error;
+
+  const [pairing] = data ?? [];
+  if (!pairing) throw new Error('Capture station not found');
+  return pairing;
+};
+
+export const getStationState = (station: CaptureStation, now = Date.now()): StationState => {
+  if (!station.paired_at) {
+    const isPairing = !!station.pairing_expires_at && new Date(station.pairing_expires_at).getTime() > now;
+    return isPairing ? 'pairing' : 'unpaired';
+  }
+  const lastSeen = station.last_seen_at ? new Date(station.last_seen_at).getTime() : 0;
+  return station.is_online !== false && now - lastSeen < STATION_STALE_MS ? 'online' : 'offline';
+};
+
+/**
+ * Asks the station that took a photo for a retake. The request is stored
+ * until the station takes the retake or ignores it, so a station that is
+ * closed or offline sees it when it next checks. Returns false for photos
+ * without a station.
+ */
+export const requestRetake = async (photo: Photo, reason: RejectionReason): Promise<boolean> => {
+  if (!photo.station_id) return false;
+
+  // Asking again for the same photo brings a dismissed request back
+  const { error } = await supabase
+    .from('retake_requests')
+    .upsert(
+      {
+        photo_id: photo.id,
+        station_id: photo.station_id,
+        reason,
+        requested_at: new Date().toISOString(),
+        dismissed_at: null,
+      },
+      { onConflict: 'photo_id' },
+    );
+  if (error) throw error;
+  return true;
+};
+
+// This tablet's pending retake requests, oldest first; only paired stations get any
+export const fetchRetakeRequests = async (): Promise<RetakeRequest[]> => {
+  const { data, error } = await withStationToken(supabase.rpc('station_retake_requests'));
+  if (error) throw error;
+
+  return (data ?? []).map(row => ({
+    photoId: row.photo_id,
+    eventId: row.event_id,
+    reason: row.reason as RejectionReason,
+    attendeeId: row.attendee_id,
+    name: row.name,
+    role: row.role,
+  }));
+};
+
+// Stops offering a retake request on this tablet
+export const dismissRetakeRequest = async (photoId: string) => {
+  const { error } = await withStationToken(supabase.rpc('dismiss_retake_request', { _photo_id: photoId }));
+  if (error) throw error;
+};
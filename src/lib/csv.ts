@@ -0,0 +1,85 @@
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+// Spreadsheets run text cells starting with these as formulas, so a name
+// typed on a tablet could run one on the operator's machine
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  // Only text is neutralised; numbers stay numbers
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Builds a CSV document. Starts with a UTF-8 BOM so Excel opens accented
+ * names correctly.
+ */
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): Blob => {
+  const lines = [
+    columns.map(column => escapeCell(column.header)).join(','),
+    ...rows.map(row => columns.map(column => escapeCell(column.value(row))).join(',')),
+  ];
+  return new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
+
+// Excel in Portuguese and most of Europe saves CSV with ';'
+const detectDelimiter = (firstLine: string): string => {
+  const counts = [',', ';', '\t'].map(delimiter => ({
+    delimiter,
+    count: firstLine.split(delimiter).length,
+  }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+/**
+ * Parses CSV text into rows of cells (RFC 4180 quoting, CRLF or LF). The
+ * delimiter is detected from the header line and a leading BOM is dropped.
+ * Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] ?? '');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) endRow();
+
+  return rows;
+};
@@ -0,0 +1,86 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { CropRect } from "@/lib/image";
+
+export type PhotoDuplicate = Tables<"photo_duplicates">;
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * 64-bit difference hash (dHash) of the crop region of an image, as 16 hex
+ * digits: the region is shrunk to 9x8 grey pixels and each bit says whether
+ * a pixel is brighter than its right neighbour. Re-encoding, resizing and
+ * small exposure changes leave most bits alone, so near-identical photos are
+ * a few bits apart (see image_hash_distance in the database).
+ */
+export const differenceHash = (image: HTMLCanvasElement, crop: CropRect): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    image,
+    crop.x * image.width,
+    crop.y * image.height,
+    Math.max(1, crop.width * image.width),
+    Math.max(1, crop.height * image.height),
+    0,
+    0,
+    HASH_WIDTH,
+    HASH_HEIGHT,
+  );
+
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const gray = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x += 4) {
+      let nibble = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        nibble = (nibble << 1) | (gray(x + bit, y) > gray(x + bit + 1, y) ? 1 : 0);
+      }
+      hash += nibble.toString(16);
+    }
+  }
+  return hash;
+};
+
+// Why a pair was flagged, for the list badge and the merge dialog
+export const duplicateReasons = (duplicate: PhotoDuplicate): string[] => {
+  const reasons: string[] = [];
+  if (duplicate.name_similarity !== null && duplicate.name_similarity >= 0.4) {
+    reasons.push(`Nome ${Math.round(duplicate.name_similarity * 100)}% semelhante`);
+  }
+  if (duplicate.hash_distance !== null && duplicate.hash_distance <= 12) {
+    reasons.push(duplicate.hash_distance <= 6 ? "Imagem quase igual" : "Imagem parecida");
+  }
+  return reasons;
+};
+
+/**
+ * Keeps one photo of a duplicate pair and archives the other; see
+ * merge_duplicate_photos for what moves to the kept photo.
+ */
+export const mergeDuplicatePhotos = async (keepId: string, archiveId: string): Promise<void> => {
+  const { error } = await supabase.rpc('merge_duplicate_photos', {
+    _keep_id: keepId,
+    _archive_id: archiveId,
+  });
+  if (error) throw error;
+};
+
+// Marks a flagged pair as two different attendees
+export const dismissDuplicate = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('photo_duplicates')
+    .update({ resolved_at: new Date().toISOString(), resolution: 'dismissed' })
+    .eq('id', id);
+  if (error) throw error;
+};
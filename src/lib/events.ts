@@ -0,0 +1,46 @@
+import type { Tables } from "@/integrations/supabase/types";
+import type { Backdrop } from "@/lib/backdrop";
+
+export type BadgeEvent = Tables<"events">;
+export type EventField = 'name' | 'role';
+
+export const DEFAULT_BADGES_URL = import.meta.env.VITE_BADGES_URL || 'https://growing-badges.lovable.app';
+
+// Capture stations without an event (the plain "/" route) keep the old rules
+export const DEFAULT_REQUIRED_FIELDS: EventField[] = ['name', 'role'];
+
+export const getBadgeGeneratorUrl = (event?: BadgeEvent | null): string => {
+  return event?.badge_generator_url || DEFAULT_BADGES_URL;
+};
+
+export const getRequiredFields = (event?: BadgeEvent | null): EventField[] => {
+  return (event?.required_fields as EventField[] | undefined) ?? DEFAULT_REQUIRED_FIELDS;
+};
+
+// Backdrop the event's captures are put on, or null when replacement is off
+export const getBackdrop = (event?: BadgeEvent | null): Backdrop | null => {
+  if (!event?.backdrop_enabled) return null;
+  return { color: event.backdrop_color, imageUrl: event.backdrop_image_url };
+};
+
+export const getCaptureUrl = (event: BadgeEvent): string => {
+  return `${window.location.origin}/e/${event.slug}`;
+};
+
+export const slugify = (value: string): string => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+export const formatEventDates = (event: BadgeEvent): string => {
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('pt-PT');
+  if (event.starts_on && event.ends_on && event.starts_on !== event.ends_on) {
+    return `${format(event.starts_on)} – ${format(event.ends_on)}`;
+  }
+  const single = event.starts_on || event.ends_on;
+  return single ? format(single) : 'Sem datas';
+};
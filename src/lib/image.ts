@@ -0,0 +1,231 @@
+import type { PhotoOutputFormat } from "@/lib/photo-settings";
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// Crop rectangle as fractions (0..1) of the rotated/flipped image
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PhotoEdits {
+  rotation: Rotation;
+  flipHorizontal: boolean;
+  crop: CropRect;
+}
+
+export interface EncodeOptions {
+  maxDimension: number;
+  format: PhotoOutputFormat;
+  quality: number;
+}
+
+/**
+ * Reads the EXIF orientation tag (1-8) of a JPEG. Returns 1 when the file is
+ * not a JPEG or has no orientation tag.
+ */
+export const readExifOrientation = async (file: Blob): Promise<number> => {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+
+    // APP1 with "Exif\0\0" header
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      return 1;
+    }
+
+    // Start of scan: no more metadata segments
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+    offset += 2 + length;
+  }
+
+  return 1;
+};
+
+let autoOrientationSupport: Promise<boolean> | null = null;
+
+/**
+ * Most current browsers already apply the EXIF orientation when decoding, older
+ * ones don't. Detect it once by decoding a 2x1 JPEG tagged with orientation 6
+ * (rotate 90°): if it comes back 1x2 the browser rotated it for us.
+ */
+const browserAppliesExifOrientation = (): Promise<boolean> => {
+  autoOrientationSupport ??= (async () => {
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = 2;
+      canvas.height = 1;
+      const jpeg = await canvasToBlob(canvas, 'image/jpeg', 1);
+      const bytes = new Uint8Array(await jpeg.arrayBuffer());
+      const exif = new Uint8Array([
+        0xff, 0xe1, 0x00, 0x22,
+        0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+        0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+        0x00, 0x01,
+        0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00,
+        0x00, 0x00, 0x00, 0x00,
+      ]);
+      const tagged = new Blob([bytes.slice(0, 2), exif, bytes.slice(2)], { type: 'image/jpeg' });
+      const bitmap = await createImageBitmap(tagged);
+      const applied = bitmap.width === 1 && bitmap.height === 2;
+      bitmap.close();
+      return applied;
+    } catch {
+      return true;
+    }
+  })();
+  return autoOrientationSupport;
+};
+
+/**
+ * Decodes an image file into a canvas with the EXIF orientation baked into the
+ * pixels, so later steps never have to care about it.
+ */
+export const loadNormalizedImage = async (file: Blob): Promise<HTMLCanvasElement> => {
+  const bitmap = await createImageBitmap(file);
+  const orientation = (await browserAppliesExifOrientation()) ? 1 : await readExifOrientation(file);
+  const swap = orientation >= 5;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swap ? bitmap.height : bitmap.width;
+  canvas.height = swap ? bitmap.width : bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  const w = bitmap.width;
+  const h = bitmap.height;
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  return canvas;
+};
+
+export const rotatedSize = (width: number, height: number, rotation: Rotation) => {
+  return rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+};
+
+/**
+ * Largest crop of the given aspect ratio (width / height) centred in an image
+ * of the given size, as fractions of that image.
+ */
+export const centeredCrop = (imageWidth: number, imageHeight: number, aspect: number): CropRect => {
+  const imageAspect = imageWidth / imageHeight;
+  if (imageAspect > aspect) {
+    const width = aspect / imageAspect;
+    return { x: (1 - width) / 2, y: 0, width, height: 1 };
+  }
+  const height = imageAspect / aspect;
+  return { x: 0, y: (1 - height) / 2, width: 1, height };
+};
+
+export const defaultEdits = (source: HTMLCanvasElement, aspect: number): PhotoEdits => ({
+  rotation: 0,
+  flipHorizontal: false,
+  crop: centeredCrop(source.width, source.height, aspect),
+});
+
+/**
+ * Draws the source rotated and flipped into a new canvas, optionally scaled so
+ * that the longest side is at most maxSize.
+ */
+export const drawTransformed = (
+  source: HTMLCanvasElement,
+  edits: Pick<PhotoEdits, 'rotation' | 'flipHorizontal'>,
+  maxSize?: number,
+): HTMLCanvasElement => {
+  const size = rotatedSize(source.width, source.height, edits.rotation);
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(size.width, size.height)) : 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(size.width * scale);
+  canvas.height = Math.round(size.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.scale(edits.flipHorizontal ? -1 : 1, 1);
+  ctx.rotate((edits.rotation * Math.PI) / 180);
+  const drawWidth = source.width * scale;
+  const drawHeight = source.height * scale;
+  ctx.drawImage(source, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+
+  return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error(`Could not encode canvas as ${type}`));
+      }
+    }, type, quality);
+  });
+};
+
+/**
+ * Applies rotation, flip and crop, downsizes to the configured maximum
+ * dimension and re-encodes. The output carries no EXIF data.
+ */
+export const renderEditedImage = async (
+  source: HTMLCanvasElement,
+  edits: PhotoEdits,
+  options: EncodeOptions,
+): Promise<Blob> => {
+  const transformed = drawTransformed(source, edits);
+  const sx = Math.round(edits.crop.x * transformed.width);
+  const sy = Math.round(edits.crop.y * transformed.height);
+  const sw = Math.round(edits.crop.width * transformed.width);
+  const sh = Math.round(edits.crop.height * transformed.height);
+  const scale = Math.min(1, options.maxDimension / Math.max(sw, sh));
+
+  const output = document.createElement('canvas');
+  output.width = Math.max(1, Math.round(sw * scale));
+  output.height = Math.max(1, Math.round(sh * scale));
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(transformed, sx, sy, sw, sh, 0, 0, output.width, output.height);
+
+  const type = options.format === 'webp' ? 'image/webp' : 'image/jpeg';
+  const blob = await canvasToBlob(output, type, options.quality);
+
+  // Browsers without WebP encoding silently fall back to PNG; use JPEG instead
+  if (blob.type !== type) {
+    return canvasToBlob(output, 'image/jpeg', options.quality);
+  }
+  return blob;
+};
+
+export const extensionForType = (type: string): string => {
+  const subtype = type.split('/')[1] || 'jpg';
+  return subtype === 'jpeg' ? 'jpg' : subtype;
+};
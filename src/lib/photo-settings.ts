@@ -0,0 +1,25 @@
+// Badge photo format shared by the capture viewfinder and the photo editor.
+// VITE_BADGE_PHOTO_ASPECT takes a "width:height" ratio, e.g. "3:4".
+
+const parseAspect = (value: string | undefined, fallback: number): number => {
+  const match = value?.match(/^\s*(\d+(?:\.\d+)?)\s*:\s*(\d+(?:\.\d+)?)\s*$/);
+  if (!match) return fallback;
+  const ratio = Number(match[1]) / Number(match[2]);
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : fallback;
+};
+
+export const BADGE_PHOTO_ASPECT_RATIO = parseAspect(import.meta.env.VITE_BADGE_PHOTO_ASPECT, 3 / 4);
+
+export const CAPTURE_COUNTDOWN_SECONDS = 3;
+
+// Re-encoding applied to every photo before upload
+export type PhotoOutputFormat = 'jpeg' | 'webp';
+
+const parseNumber = (value: string | undefined, fallback: number, min: number, max: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : fallback;
+};
+
+export const PHOTO_MAX_DIMENSION = parseNumber(import.meta.env.VITE_PHOTO_MAX_DIMENSION, 1200, 200, 6000);
+export const PHOTO_QUALITY = parseNumber(import.meta.env.VITE_PHOTO_QUALITY, 0.85, 0.1, 1);
+export const PHOTO_FORMAT: PhotoOutputFormat = import.meta.env.VITE_PHOTO_FORMAT === 'webp' ? 'webp' : 'jpeg';
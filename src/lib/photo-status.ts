@@ -0,0 +1,126 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Constants, type Enums, type Tables } from "@/integrations/supabase/types";
+import type { Photo } from "@/lib/photos";
+
+export type PhotoStatus = Enums<"photo_status">;
+
+// One entry of a photo's status history, with the staff member who made it
+export type PhotoStatusChange = Tables<"photo_status_history"> & {
+  staff: { email: string; full_name: string | null } | null;
+};
+
+// In lifecycle order, as the list tabs show them
+export const PHOTO_STATUSES: readonly PhotoStatus[] = Constants.public.Enums.photo_status;
+
+export const PHOTO_STATUS_LABELS: Record<PhotoStatus, string> = {
+  captured: 'Capturada',
+  in_review: 'Em revisão',
+  approved: 'Aprovada',
+  rejected: 'Rejeitada',
+  badge_generated: 'Crachá gerado',
+  printed: 'Impressa',
+  collected: 'Entregue',
+};
+
+// Button and menu text for moving a photo to each status
+export const PHOTO_STATUS_ACTIONS: Record<PhotoStatus, string> = {
+  captured: 'Voltar a capturada',
+  in_review: 'Enviar para revisão',
+  approved: 'Aprovar',
+  rejected: 'Rejeitar',
+  badge_generated: 'Marcar crachá gerado',
+  printed: 'Marcar como impressa',
+  collected: 'Marcar como entregue',
+};
+
+/**
+ * Statuses each status can move to. Mirrors photo_status_transition_allowed
+ * in the database, which has the final say; this copy only decides which
+ * actions to offer.
+ */
+export const PHOTO_STATUS_TRANSITIONS: Record<PhotoStatus, PhotoStatus[]> = {
+  captured: ['in_review', 'approved', 'rejected'],
+  in_review: ['approved', 'rejected', 'captured'],
+  approved: ['badge_generated', 'printed', 'rejected', 'in_review', 'captured'],
+  rejected: ['approved', 'in_review', 'captured'],
+  badge_generated: ['printed', 'approved'],
+  printed: ['collected', 'badge_generated', 'approved'],
+  collected: ['printed'],
+};
+
+// The usual next step, offered as the main button on each photo
+export const NEXT_PHOTO_STATUS: Partial<Record<PhotoStatus, PhotoStatus>> = {
+  captured: 'approved',
+  in_review: 'approved',
+  approved: 'badge_generated',
+  badge_generated: 'printed',
+  printed: 'collected',
+};
+
+// Why an operator rejected a photo; the code is kept as the history reason
+export type RejectionReason = 'blurry' | 'eyes_closed' | 'wrong_person' | 'wrong_name';
+
+export const REJECTION_REASON_LABELS: Record<RejectionReason, string> = {
+  blurry: 'Foto desfocada',
+  eyes_closed: 'Olhos fechados',
+  wrong_person: 'Pessoa errada',
+  wrong_name: 'Nome errado',
+};
+
+// History reasons are free text, except rejections which store a code
+export const statusReasonLabel = (reason: string | null): string | null => {
+  return reason ? REJECTION_REASON_LABELS[reason as RejectionReason] ?? reason : null;
+};
+
+export const canTransition = (from: PhotoStatus, to: PhotoStatus): boolean => {
+  return PHOTO_STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Moves photos to a new status and returns the ids that moved. Photos whose
+ * current status doesn't allow it, for example because another operator
+ * changed them first, are left out rather than failing the whole call.
+ */
+export const transitionPhotoStatus = async (
+  ids: string[],
+  to: PhotoStatus,
+  reason?: string,
+): Promise<Set<string>> => {
+  const { data, error } = await supabase.rpc('transition_photo_status', {
+    _photo_ids: ids,
+    _to: to,
+    _reason: reason,
+  });
+  if (error) throw error;
+  return new Set(data ?? []);
+};
+
+// A photo retaken again and again is unusual; this only bounds the walk
+const MAX_RETAKE_CHAIN = 10;
+
+/**
+ * Status changes of a photo, newest first, including those of the rejected
+ * photos it was retaken for.
+ */
+export const fetchPhotoStatusHistory = async (photo: Photo): Promise<PhotoStatusChange[]> => {
+  const ids = [photo.id];
+  let retakeOf = photo.retake_of;
+  while (retakeOf && !ids.includes(retakeOf) && ids.length < MAX_RETAKE_CHAIN) {
+    ids.push(retakeOf);
+    const { data, error } = await supabase
+      .from('photos')
+      .select('retake_of')
+      .eq('id', retakeOf)
+      .maybeSingle();
+    if (error) throw error;
+    retakeOf = data?.retake_of ?? null;
+  }
+
+  const { data, error } = await supabase
+    .from('photo_status_history')
+    .select('*, staff(email, full_name)')
+    .in('photo_id', ids)
+    .order('changed_at', { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as PhotoStatusChange[];
+};
@@ -0,0 +1,111 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { getSignedPhotoUrl } from "@/lib/signed-urls";
+import type { ThumbnailSize } from "@/lib/thumbnails";
+
+export type Photo = Tables<"photos">;
+
+// Signed URL of the processed photo, valid for at least ten minutes
+export const getPhotoUrl = (photo: Photo): Promise<string> => {
+  return getSignedPhotoUrl(photo.file_path);
+};
+
+/**
+ * File to put on the badge: the face-centred crop when there is one, then
+ * the photo with the background replaced, otherwise the processed photo.
+ */
+export const getBadgePhotoPath = (photo: Photo): string => {
+  return photo.crop_path ?? photo.backdrop_path ?? photo.file_path;
+};
+
+export const getBadgePhotoUrl = (photo: Photo): Promise<string> => {
+  return getSignedPhotoUrl(getBadgePhotoPath(photo));
+};
+
+// Photo shown in the management list: on the event's backdrop when there is one
+export const getDisplayPhotoPath = (photo: Photo): string => {
+  return photo.backdrop_path ?? photo.file_path;
+};
+
+// Thumbnail of the displayed photo; photos without thumbnails yet show it whole
+export const getThumbnailPath = (photo: Photo, size: ThumbnailSize): string => {
+  const thumbnail = size === 'small' ? photo.thumb_small_path : photo.thumb_medium_path;
+  return thumbnail ?? getDisplayPhotoPath(photo);
+};
+
+// Small thumbnail of the processed photo, shown next to the backdrop version
+export const getProcessedThumbnailPath = (photo: Photo): string => {
+  if (!photo.backdrop_path) return getThumbnailPath(photo, 'small');
+  return photo.thumb_processed_path ?? photo.file_path;
+};
+
+// Photos captured before the tablets sent every thumbnail the list shows
+export const isMissingThumbnails = (photo: Photo): boolean => {
+  return !photo.thumb_small_path || !photo.thumb_medium_path || (!!photo.backdrop_path && !photo.thumb_processed_path);
+};
+
+// Every file stored for a photo, for deleting them with it
+export const getStoredPaths = (photo: Photo): string[] => {
+  return [
+    photo.file_path,
+    photo.original_path,
+    photo.backdrop_path,
+    photo.crop_path,
+    photo.thumb_small_path,
+    photo.thumb_medium_path,
+    photo.thumb_processed_path,
+  ].filter((path): path is string => !!path);
+};
+
+// Short human label for toasts and reports
+export const photoLabel = (photo: Photo): string => {
+  return photo.name || `ID ${photo.id.slice(-8)}`;
+};
+
+// Download file name for a photo, keeping the stored extension
+export const photoFileName = (photo: Photo, prefix = 'badge_photo'): string => {
+  const extension = photo.file_path.split('.').pop() || 'jpg';
+  return `${prefix}_${photo.id}.${extension}`;
+};
+
+// Keeps `.in()` filters well under the URL length limit
+const ID_CHUNK_SIZE = 100;
+
+const chunks = <T>(items: T[], size: number): T[][] => {
+  return Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+};
+
+/**
+ * Stamps photos as printed and returns the ids that were stamped. Unless
+ * reprinting, photos another operator already printed are left out, so two
+ * operators printing the same selection don't both get the badge.
+ */
+export const claimForPrinting = async (ids: string[], reprint = false): Promise<Set<string>> => {
+  const printedAt = new Date().toISOString();
+  const claimed = new Set<string>();
+
+  for (const chunk of chunks(ids, ID_CHUNK_SIZE)) {
+    let query = supabase
+      .from('photos')
+      .update({ printed_at: printedAt })
+      .in('id', chunk);
+    if (!reprint) query = query.is('printed_at', null);
+
+    const { data, error } = await query.select('id');
+    if (error) throw error;
+    data?.forEach(row => claimed.add(row.id));
+  }
+
+  return claimed;
+};
+
+// Undoes claimForPrinting for badges that didn't make it onto the sheet
+export const releasePrinted = async (ids: string[]) => {
+  for (const chunk of chunks(ids, ID_CHUNK_SIZE)) {
+    const { error } = await supabase
+      .from('photos')
+      .update({ printed_at: null })
+      .in('id', chunk);
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,98 @@
+import * as faceapi from "@vladmandic/face-api";
+import detectorManifestUrl from "@vladmandic/face-api/model/tiny_face_detector_model-weights_manifest.json?url";
+import detectorWeightsUrl from "@vladmandic/face-api/model/tiny_face_detector_model.bin?url";
+import landmarksManifestUrl from "@vladmandic/face-api/model/face_landmark_68_model-weights_manifest.json?url";
+import landmarksWeightsUrl from "@vladmandic/face-api/model/face_landmark_68_model.bin?url";
+import type { CropRect } from "@/lib/image";
+
+export interface DetectedFace {
+  // Fractions of the analysed image, like a crop rectangle
+  box: CropRect;
+  score: number;
+  // Midpoint between the eye centres, in the same fractions as box
+  eyes: { x: number; y: number };
+  // Mean eye aspect ratio of both eyes; open eyes are around 0.25-0.35
+  eyeOpenness: number;
+}
+
+// The face-api typings leave out the backend functions of the bundled tfjs
+const tf = faceapi.tf as typeof faceapi.tf & {
+  setBackend(name: string): Promise<boolean>;
+  ready(): Promise<void>;
+};
+
+type WeightsManifest = { weights: Parameters<typeof faceapi.tf.io.decodeWeights>[1] }[];
+
+// The model files ship with the app, so nothing is fetched from a CDN
+const loadWeights = async (manifestUrl: string, weightsUrl: string) => {
+  const [manifest, weights] = await Promise.all([
+    fetch(manifestUrl).then(response => response.json() as Promise<WeightsManifest>),
+    fetch(weightsUrl).then(response => response.arrayBuffer()),
+  ]);
+  return faceapi.tf.io.decodeWeights(weights, manifest.flatMap(group => group.weights));
+};
+
+let modelsPromise: Promise<void> | null = null;
+
+const loadModels = (): Promise<void> => {
+  modelsPromise ??= (async () => {
+    // CPU only: capture tablets often have no usable WebGL
+    await tf.setBackend('cpu');
+    await tf.ready();
+
+    const [detector, landmarks] = await Promise.all([
+      loadWeights(detectorManifestUrl, detectorWeightsUrl),
+      loadWeights(landmarksManifestUrl, landmarksWeightsUrl),
+    ]);
+    faceapi.nets.tinyFaceDetector.loadFromWeightMap(detector);
+    faceapi.nets.faceLandmark68Net.loadFromWeightMap(landmarks);
+  })().catch(error => {
+    modelsPromise = null;
+    throw error;
+  });
+  return modelsPromise;
+};
+
+const distance = (a: faceapi.Point, b: faceapi.Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const centre = (points: faceapi.Point[]) => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+});
+
+// Eye aspect ratio (Soukupová & Čech) from the six landmarks of one eye
+const eyeAspectRatio = (eye: faceapi.Point[]): number => {
+  const width = distance(eye[0], eye[3]);
+  if (width === 0) return 0;
+  return (distance(eye[1], eye[5]) + distance(eye[2], eye[4])) / (2 * width);
+};
+
+/**
+ * Finds the faces in an image with the tiny face detector and the 68-point
+ * landmark model, on the CPU.
+ */
+export const detectFaces = async (image: HTMLCanvasElement): Promise<DetectedFace[]> => {
+  await loadModels();
+
+  const results = await faceapi
+    .detectAllFaces(image, new faceapi.TinyFaceDetectorOptions({ inputSize: 416, scoreThreshold: 0.5 }))
+    .withFaceLandmarks();
+
+  return results.map(({ detection, landmarks }) => {
+    const leftEye = landmarks.getLeftEye();
+    const rightEye = landmarks.getRightEye();
+    const eyes = centre([...leftEye, ...rightEye]);
+
+    return {
+      box: {
+        x: detection.box.x / image.width,
+        y: detection.box.y / image.height,
+        width: detection.box.width / image.width,
+        height: detection.box.height / image.height,
+      },
+      score: detection.score,
+      eyes: { x: eyes.x / image.width, y: eyes.y / image.height },
+      eyeOpenness: (eyeAspectRatio(leftEye) + eyeAspectRatio(rightEye)) / 2,
+    };
+  });
+};
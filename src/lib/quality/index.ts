@@ -0,0 +1,201 @@
+import { drawTransformed, type CropRect, type PhotoEdits } from "@/lib/image";
+import type { DetectedFace } from "@/lib/quality/faces";
+import { exposureStats, grayscaleRegion, sharpnessScore } from "@/lib/quality/metrics";
+
+export type { DetectedFace };
+
+export type QualityLevel = 'pass' | 'warn' | 'fail';
+export type QualityCheckKey = 'sharpness' | 'exposure' | 'face' | 'framing' | 'eyes';
+
+export const QUALITY_CHECK_LABELS: Record<QualityCheckKey, string> = {
+  sharpness: 'Nitidez',
+  exposure: 'Exposição',
+  face: 'Rosto',
+  framing: 'Enquadramento',
+  eyes: 'Olhos',
+};
+
+export const QUALITY_LEVEL_LABELS: Record<QualityLevel, string> = {
+  pass: 'Boa',
+  warn: 'Com avisos',
+  fail: 'Fraca',
+};
+
+/**
+ * Scores saved on the photo row (photos.quality). Face fields are null when
+ * no face was found; checks that don't apply are null too.
+ */
+export type PhotoQuality = {
+  version: 1;
+  sharpness: number;
+  brightness: number;
+  shadows: number;
+  highlights: number;
+  faces: number;
+  // Centre and height of the main face as fractions of the crop
+  faceX: number | null;
+  faceY: number | null;
+  faceHeight: number | null;
+  eyeOpenness: number | null;
+  checks: Record<QualityCheckKey, QualityLevel | null>;
+  level: QualityLevel;
+};
+
+export interface QualityCheck {
+  key: QualityCheckKey;
+  level: QualityLevel;
+  message: string;
+}
+
+export interface QualityReport {
+  quality: PhotoQuality;
+  checks: QualityCheck[];
+}
+
+// Size of the image the faces are searched in
+const ANALYSIS_SIZE = 1024;
+// Size of the crop the sharpness and exposure are measured on
+const METRICS_SIZE = 512;
+
+// Laplacian variance at METRICS_SIZE
+const SHARPNESS_WARN = 100;
+const SHARPNESS_FAIL = 40;
+
+// Faces smaller than this fraction of the largest one are people in the background
+const BACKGROUND_FACE_RATIO = 0.5;
+
+const LEVEL_ORDER: QualityLevel[] = ['pass', 'warn', 'fail'];
+
+export const worstLevel = (levels: (QualityLevel | null)[]): QualityLevel => {
+  return levels.reduce<QualityLevel>(
+    (worst, level) => (level && LEVEL_ORDER.indexOf(level) > LEVEL_ORDER.indexOf(worst) ? level : worst),
+    'pass',
+  );
+};
+
+/**
+ * Rotated and flipped copy of the capture that the checks run on; crop
+ * rectangles of the editor map directly onto it.
+ */
+export const prepareQualityImage = (
+  source: HTMLCanvasElement,
+  edits: Pick<PhotoEdits, 'rotation' | 'flipHorizontal'>,
+): HTMLCanvasElement => {
+  return drawTransformed(source, edits, ANALYSIS_SIZE);
+};
+
+// The face models are only downloaded the first time a photo is checked
+export const findFaces = async (image: HTMLCanvasElement): Promise<DetectedFace[]> => {
+  const { detectFaces } = await import("@/lib/quality/faces");
+  return detectFaces(image);
+};
+
+const sharpnessCheck = (score: number): QualityCheck => {
+  if (score < SHARPNESS_FAIL) return { key: 'sharpness', level: 'fail', message: 'Foto desfocada ou tremida' };
+  if (score < SHARPNESS_WARN) return { key: 'sharpness', level: 'warn', message: 'Pouco nítida' };
+  return { key: 'sharpness', level: 'pass', message: 'Nítida' };
+};
+
+const exposureCheck = ({ brightness, shadows, highlights }: PhotoQuality): QualityCheck => {
+  if (brightness < 50 || shadows > 0.3) return { key: 'exposure', level: 'fail', message: 'Muito escura' };
+  if (brightness > 215 || highlights > 0.2) return { key: 'exposure', level: 'fail', message: 'Sobre-exposta' };
+  if (brightness < 80 || shadows > 0.1) return { key: 'exposure', level: 'warn', message: 'Um pouco escura' };
+  if (brightness > 185 || highlights > 0.05) return { key: 'exposure', level: 'warn', message: 'Um pouco clara' };
+  return { key: 'exposure', level: 'pass', message: 'Boa exposição' };
+};
+
+const faceCheck = (count: number): QualityCheck => {
+  if (count === 0) return { key: 'face', level: 'fail', message: 'Nenhum rosto detetado' };
+  if (count > 1) return { key: 'face', level: 'warn', message: `${count} rostos no recorte` };
+  return { key: 'face', level: 'pass', message: '1 rosto' };
+};
+
+const framingCheck = (face: CropRect): QualityCheck => {
+  const centerX = face.x + face.width / 2;
+  const centerY = face.y + face.height / 2;
+  const cut = face.x < -0.1 * face.width || face.y < -0.1 * face.height
+    || face.x + face.width > 1 + 0.1 * face.width || face.y + face.height > 1 + 0.1 * face.height;
+
+  if (cut) return { key: 'framing', level: 'fail', message: 'Rosto cortado' };
+  if (Math.abs(centerX - 0.5) > 0.2) return { key: 'framing', level: 'fail', message: 'Rosto muito descentrado' };
+  if (face.height < 0.15) return { key: 'framing', level: 'fail', message: 'Rosto demasiado pequeno' };
+  if (Math.abs(centerX - 0.5) > 0.1) return { key: 'framing', level: 'warn', message: 'Rosto descentrado' };
+  if (centerY < 0.25 || centerY > 0.6) return { key: 'framing', level: 'warn', message: 'Rosto muito acima ou abaixo' };
+  if (face.height < 0.25) return { key: 'framing', level: 'warn', message: 'Rosto pequeno' };
+  if (face.height > 0.7) return { key: 'framing', level: 'warn', message: 'Rosto demasiado perto' };
+  return { key: 'framing', level: 'pass', message: 'Centrado' };
+};
+
+const eyesCheck = (eyeOpenness: number): QualityCheck => {
+  if (eyeOpenness < 0.15) return { key: 'eyes', level: 'fail', message: 'Olhos fechados' };
+  if (eyeOpenness < 0.2) return { key: 'eyes', level: 'warn', message: 'Olhos semicerrados' };
+  return { key: 'eyes', level: 'pass', message: 'Olhos visíveis' };
+};
+
+/**
+ * Scores the part of the analysed image inside the crop. Cheap enough to
+ * rerun while the crop is dragged; the faces come from findFaces, which only
+ * needs to run again when the image is rotated or flipped.
+ */
+export const evaluateQuality = (image: HTMLCanvasElement, crop: CropRect, faces: DetectedFace[]): QualityReport => {
+  const gray = grayscaleRegion(image, crop, METRICS_SIZE);
+  const exposure = exposureStats(gray);
+
+  // Face boxes relative to the crop, keeping faces whose centre is inside it
+  const inCrop = faces
+    .map(face => ({
+      ...face,
+      box: {
+        x: (face.box.x - crop.x) / crop.width,
+        y: (face.box.y - crop.y) / crop.height,
+        width: face.box.width / crop.width,
+        height: face.box.height / crop.height,
+      },
+    }))
+    .filter(({ box }) => {
+      const centerX = box.x + box.width / 2;
+      const centerY = box.y + box.height / 2;
+      return centerX >= 0 && centerX <= 1 && centerY >= 0 && centerY <= 1;
+    })
+    .sort((a, b) => b.box.height - a.box.height);
+
+  const main = inCrop[0] ?? null;
+  const people = main ? inCrop.filter(face => face.box.height >= main.box.height * BACKGROUND_FACE_RATIO) : [];
+
+  const quality: PhotoQuality = {
+    version: 1,
+    sharpness: Math.round(sharpnessScore(gray)),
+    brightness: Math.round(exposure.brightness),
+    shadows: Number(exposure.shadows.toFixed(3)),
+    highlights: Number(exposure.highlights.toFixed(3)),
+    faces: people.length,
+    faceX: main ? Number((main.box.x + main.box.width / 2).toFixed(3)) : null,
+    faceY: main ? Number((main.box.y + main.box.height / 2).toFixed(3)) : null,
+    faceHeight: main ? Number(main.box.height.toFixed(3)) : null,
+    eyeOpenness: main ? Number(main.eyeOpenness.toFixed(3)) : null,
+    checks: { sharpness: null, exposure: null, face: null, framing: null, eyes: null },
+    level: 'pass',
+  };
+
+  const checks = [
+    sharpnessCheck(quality.sharpness),
+    exposureCheck(quality),
+    faceCheck(people.length),
+    ...(main ? [framingCheck(main.box), eyesCheck(main.eyeOpenness)] : []),
+  ];
+
+  checks.forEach(check => {
+    quality.checks[check.key] = check.level;
+  });
+  quality.level = worstLevel(checks.map(check => check.level));
+
+  return { quality, checks };
+};
+
+// Checks of a saved photo that didn't pass, for the management list
+export const qualityIssues = (quality: PhotoQuality | null): { label: string; level: QualityLevel }[] => {
+  if (!quality?.checks) return [];
+  return (Object.keys(QUALITY_CHECK_LABELS) as QualityCheckKey[])
+    .filter(key => quality.checks[key] && quality.checks[key] !== 'pass')
+    .map(key => ({ label: QUALITY_CHECK_LABELS[key], level: quality.checks[key] as QualityLevel }));
+};
@@ -0,0 +1,83 @@
+import type { CropRect } from "@/lib/image";
+
+// Luminance of a region, 0-255, row by row
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/**
+ * Grayscale copy of the crop region of an image, scaled so its longest side
+ * is at most maxSize. Scores are always computed at the same size so the
+ * thresholds don't depend on the camera resolution.
+ */
+export const grayscaleRegion = (image: HTMLCanvasElement, crop: CropRect, maxSize: number): GrayImage => {
+  const sx = crop.x * image.width;
+  const sy = crop.y * image.height;
+  const sw = Math.max(1, crop.width * image.width);
+  const sh = Math.max(1, crop.height * image.height);
+  const scale = Math.min(1, maxSize / Math.max(sw, sh));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sw * scale));
+  canvas.height = Math.max(1, Math.round(sh * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(image, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { width: canvas.width, height: canvas.height, data: gray };
+};
+
+/**
+ * Variance of the Laplacian: sharp edges give large second derivatives, so
+ * a blurry or shaken photo scores low.
+ */
+export const sharpnessScore = ({ width, height, data }: GrayImage): number => {
+  if (width < 3 || height < 3) return 0;
+
+  let sum = 0;
+  let sumSquares = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = 4 * data[i] - data[i - 1] - data[i + 1] - data[i - width] - data[i + width];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+    }
+  }
+
+  const count = (width - 2) * (height - 2);
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+export interface ExposureStats {
+  // Mean luminance, 0-255
+  brightness: number;
+  // Fractions of nearly black and nearly white pixels
+  shadows: number;
+  highlights: number;
+}
+
+const SHADOW_LEVEL = 10;
+const HIGHLIGHT_LEVEL = 245;
+
+export const exposureStats = ({ data }: GrayImage): ExposureStats => {
+  let sum = 0;
+  let shadows = 0;
+  let highlights = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i];
+    if (data[i] <= SHADOW_LEVEL) shadows++;
+    else if (data[i] >= HIGHLIGHT_LEVEL) highlights++;
+  }
+
+  const count = Math.max(1, data.length);
+  return { brightness: sum / count, shadows: shadows / count, highlights: highlights / count };
+};
@@ -0,0 +1,87 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Signed URLs for files in the private photos bucket. Each URL is cached
+ * until shortly before it expires, so a URL handed out is always good for
+ * at least REFRESH_MARGIN_MS. Requests made in the same tick (a grid of
+ * thumbnails rendering) are signed together in one call.
+ */
+const BUCKET = 'photos';
+
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const REFRESH_MARGIN_MS = 10 * 60 * 1000;
+
+// How long a cached URL may be used before it has to be signed again
+export const SIGNED_URL_REFRESH_MS = SIGNED_URL_TTL_SECONDS * 1000 - REFRESH_MARGIN_MS;
+
+// createSignedUrls sends the paths in the request body; keep it modest
+const BATCH_SIZE = 100;
+
+interface CachedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+interface Waiter {
+  resolve: (url: string) => void;
+  reject: (error: unknown) => void;
+}
+
+const cache = new Map<string, CachedUrl>();
+let pending = new Map<string, Waiter[]>();
+let flushScheduled = false;
+
+const signBatch = async (batch: Map<string, Waiter[]>) => {
+  const paths = [...batch.keys()];
+
+  for (let start = 0; start < paths.length; start += BATCH_SIZE) {
+    const chunk = paths.slice(start, start + BATCH_SIZE);
+    const signedAt = Date.now();
+
+    try {
+      const { data, error } = await supabase.storage.from(BUCKET).createSignedUrls(chunk, SIGNED_URL_TTL_SECONDS);
+      if (error) throw error;
+
+      const results = new Map((data ?? []).map(result => [result.path, result]));
+      for (const path of chunk) {
+        const result = results.get(path);
+        const waiters = batch.get(path) ?? [];
+        if (result?.signedUrl) {
+          cache.set(path, { url: result.signedUrl, expiresAt: signedAt + SIGNED_URL_TTL_SECONDS * 1000 });
+          waiters.forEach(waiter => waiter.resolve(result.signedUrl));
+        } else {
+          const reason = new Error(`Could not sign ${path}: ${result?.error ?? 'not found'}`);
+          waiters.forEach(waiter => waiter.reject(reason));
+        }
+      }
+    } catch (error) {
+      chunk.forEach(path => (batch.get(path) ?? []).forEach(waiter => waiter.reject(error)));
+    }
+  }
+};
+
+const flush = () => {
+  flushScheduled = false;
+  const batch = pending;
+  pending = new Map();
+  void signBatch(batch);
+};
+
+export const getSignedPhotoUrl = (path: string): Promise<string> => {
+  const cached = cache.get(path);
+  if (cached && cached.expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+    return Promise.resolve(cached.url);
+  }
+
+  return new Promise((resolve, reject) => {
+    const waiters = pending.get(path) ?? [];
+    waiters.push({ resolve, reject });
+    pending.set(path, waiters);
+
+    if (!flushScheduled) {
+      flushScheduled = true;
+      setTimeout(flush, 0);
+    }
+  });
+};
@@ -0,0 +1,55 @@
+/**
+ * Client for the local print agent (scripts/print-agent.mjs). Browsers can't
+ * open raw sockets, so the agent, running on a machine in the venue network,
+ * forwards the label bytes to the printer over raw TCP (port 9100) or IPP.
+ */
+
+export type PrinterProtocol = 'raw' | 'ipp';
+
+export interface PrinterTarget {
+  protocol: PrinterProtocol;
+  host: string;
+  port: number;
+  // IPP resource path, e.g. /ipp/print; ignored for raw
+  path: string;
+}
+
+export const DEFAULT_PRINTER_TARGET: PrinterTarget = {
+  protocol: 'raw',
+  host: '',
+  port: 9100,
+  path: '/ipp/print',
+};
+
+export const PRINTER_DEFAULT_PORTS: Record<PrinterProtocol, number> = {
+  raw: 9100,
+  ipp: 631,
+};
+
+export const PRINT_AGENT_URL = import.meta.env.VITE_PRINT_AGENT_URL || 'http://localhost:9101';
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const sendToPrintAgent = async (bytes: Uint8Array, target: PrinterTarget): Promise<void> => {
+  let response: Response;
+  try {
+    response = await fetch(`${PRINT_AGENT_URL}/print`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...target, data: toBase64(bytes) }),
+    });
+  } catch {
+    throw new Error(`Agente de impressão indisponível em ${PRINT_AGENT_URL}`);
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `HTTP ${response.status}`);
+  }
+};
@@ -0,0 +1,85 @@
+import { coverCrop } from "@/lib/badge/layout";
+
+/**
+ * 1-bit image as thermal printers take it: rows padded to whole bytes, most
+ * significant bit first, 1 = black dot.
+ */
+export interface MonoBitmap {
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: Uint8Array;
+}
+
+export const createBitmap = (width: number, height: number): MonoBitmap => {
+  const bytesPerRow = Math.ceil(width / 8);
+  return { width, height, bytesPerRow, data: new Uint8Array(bytesPerRow * height) };
+};
+
+export const setDot = (bitmap: MonoBitmap, x: number, y: number) => {
+  bitmap.data[y * bitmap.bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+};
+
+export const getDot = (bitmap: MonoBitmap, x: number, y: number): boolean => {
+  return (bitmap.data[y * bitmap.bytesPerRow + (x >> 3)] & (0x80 >> (x & 7))) !== 0;
+};
+
+/**
+ * Scales a photo to cover width × height dots and reduces it to black and
+ * white with Floyd–Steinberg error diffusion, which keeps faces recognisable
+ * where a plain threshold would turn them into blobs.
+ */
+export const ditherImage = (image: HTMLCanvasElement, width: number, height: number): MonoBitmap => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  const crop = coverCrop(image.width, image.height, width, height);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+  }
+
+  const bitmap = createBitmap(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const old = luminance[index];
+      const black = old < 128;
+      if (black) setDot(bitmap, x, y);
+
+      const error = old - (black ? 0 : 255);
+      if (x + 1 < width) luminance[index + 1] += error * 7 / 16;
+      if (y + 1 < height) {
+        if (x > 0) luminance[index + width - 1] += error * 3 / 16;
+        luminance[index + width] += error * 5 / 16;
+        if (x + 1 < width) luminance[index + width + 1] += error / 16;
+      }
+    }
+  }
+
+  return bitmap;
+};
+
+// QR code as a bitmap with a one-module quiet zone, `scale` dots per module
+export const qrBitmap = (modules: boolean[][], scale: number): MonoBitmap => {
+  const size = (modules.length + 2) * scale;
+  const bitmap = createBitmap(size, size);
+  modules.forEach((row, rowIndex) => row.forEach((dark, colIndex) => {
+    if (!dark) return;
+    for (let dy = 0; dy < scale; dy++) {
+      for (let dx = 0; dx < scale; dx++) {
+        setDot(bitmap, (colIndex + 1) * scale + dx, (rowIndex + 1) * scale + dy);
+      }
+    }
+  }));
+  return bitmap;
+};
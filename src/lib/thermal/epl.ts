@@ -0,0 +1,111 @@
+import { qrBitmap, type MonoBitmap } from "@/lib/thermal/bitmap";
+import { mmToDots, wrapByChars, type DotBox, type PreparedLabel, type PrinterDpi } from "@/lib/thermal/label";
+
+// Resident fonts 1–5: character advance and height in dots
+export const EPL_FONTS: Record<PrinterDpi, { width: number; height: number }[]> = {
+  203: [
+    { width: 10, height: 12 },
+    { width: 12, height: 16 },
+    { width: 14, height: 20 },
+    { width: 16, height: 24 },
+    { width: 34, height: 48 },
+  ],
+  300: [
+    { width: 14, height: 20 },
+    { width: 18, height: 28 },
+    { width: 22, height: 36 },
+    { width: 26, height: 44 },
+    { width: 50, height: 80 },
+  ],
+};
+
+const MULTIPLIERS = [3, 2, 1];
+
+// EPL fonts only have ASCII; accents are dropped and anything else becomes '?'
+const toAscii = (text: string) => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+};
+
+const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Biggest font and multiplier at which the whole text fits the box
+const fitFont = (text: string, box: DotBox, maxLines: number, dpi: PrinterDpi) => {
+  const fonts = EPL_FONTS[dpi];
+  // On equal heights a native font prints crisper than a smaller one scaled up
+  const candidates = fonts.flatMap((font, index) => MULTIPLIERS.map(multiplier => ({
+    font: index + 1,
+    multiplier,
+    width: font.width * multiplier,
+    height: font.height * multiplier,
+  }))).sort((a, b) => b.height - a.height || a.multiplier - b.multiplier);
+
+  for (const candidate of candidates) {
+    const lines = wrapByChars(text, Math.floor(box.width / candidate.width), maxLines);
+    if (lines.length * candidate.height <= box.height && lines.join(' ').length === text.length) {
+      return { ...candidate, lines };
+    }
+  }
+
+  const smallest = candidates[candidates.length - 1];
+  return { ...smallest, lines: wrapByChars(text, Math.floor(box.width / smallest.width), maxLines) };
+};
+
+const textCommands = (text: string, box: DotBox, maxLines: number, dpi: PrinterDpi) => {
+  const words = toAscii(text).split(/\s+/).filter(Boolean).join(' ');
+  if (!words || box.width <= 0) return [];
+
+  const fit = fitFont(words, box, maxLines, dpi);
+  return fit.lines.map((line, index) => (
+    `A${box.x},${box.y + index * fit.height},0,${fit.font},${fit.multiplier},${fit.multiplier},N,${quote(line)}`
+  ));
+};
+
+const encoder = new TextEncoder();
+
+// GW takes raw bytes in which 0 is a black dot, the opposite of MonoBitmap
+const graphic = (bitmap: MonoBitmap, x: number, y: number): Uint8Array[] => {
+  const data = bitmap.data.map(byte => ~byte & 0xff);
+  return [encoder.encode(`GW${x},${y},${bitmap.bytesPerRow},${bitmap.height},`), data, encoder.encode('\n')];
+};
+
+/**
+ * EPL2 for one label. EPL has no scalable font or portable QR command, so
+ * text uses the resident fonts with multipliers and the QR code is sent as a
+ * graphic like the photo. The output is binary because of the GW graphics.
+ */
+export const buildEpl = (label: PreparedLabel): Uint8Array => {
+  const { layout, settings } = label;
+  const line = (command: string) => encoder.encode(`${command}\n`);
+
+  // Leading newline clears any half-received command left in the printer
+  const parts: Uint8Array[] = [
+    line(''),
+    line('N'),
+    line(`q${layout.width}`),
+    line(`Q${layout.height},${mmToDots(settings.gapMm, settings.dpi)}`),
+  ];
+
+  if (label.photo) {
+    parts.push(...graphic(label.photo, layout.photo.x, layout.photo.y));
+  }
+
+  textCommands(label.name, layout.name, 2, settings.dpi).forEach(command => parts.push(line(command)));
+  textCommands(label.role, layout.role, 2, settings.dpi).forEach(command => parts.push(line(command)));
+
+  if (label.qr && layout.qr) {
+    parts.push(...graphic(qrBitmap(label.qr.modules, label.qr.scale), layout.qr.x, layout.qr.y));
+  }
+
+  parts.push(line('P1'));
+
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+};
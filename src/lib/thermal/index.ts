@@ -0,0 +1,13 @@
+import { buildEpl } from "@/lib/thermal/epl";
+import { buildZpl } from "@/lib/thermal/zpl";
+import type { PreparedLabel } from "@/lib/thermal/label";
+
+export * from "@/lib/thermal/label";
+export * from "@/lib/thermal/agent";
+export { buildZpl, buildEpl };
+export { renderLabelPreview } from "@/lib/thermal/preview";
+
+// Commands for a prepared label in the language chosen in its settings
+export const buildLabelCommands = (label: PreparedLabel): Uint8Array => {
+  return label.settings.language === 'zpl' ? buildZpl(label) : buildEpl(label);
+};
@@ -0,0 +1,164 @@
+import { fillPlaceholders, MM_PER_INCH, type BadgeData } from "@/lib/badge/template";
+import { qrModules } from "@/lib/badge/layout";
+import { BADGE_PHOTO_ASPECT_RATIO } from "@/lib/photo-settings";
+import { ditherImage, type MonoBitmap } from "@/lib/thermal/bitmap";
+
+/**
+ * Labels for thermal printers (Zebra and compatibles). Unlike the badge
+ * templates, the layout is fixed: dithered photo on the left, name and role
+ * on the right and an optional QR code in the bottom-right corner. All
+ * positions are in printer dots.
+ */
+
+export type LabelLanguage = 'zpl' | 'epl';
+export type PrinterDpi = 203 | 300;
+
+export interface LabelSettings {
+  language: LabelLanguage;
+  dpi: PrinterDpi;
+  widthMm: number;
+  heightMm: number;
+  // Blank space between labels on the roll, used by EPL to find the next label
+  gapMm: number;
+  includeQr: boolean;
+  // Supports the same placeholders as badge templates
+  qrValue: string;
+}
+
+export const DEFAULT_LABEL_SETTINGS: LabelSettings = {
+  language: 'zpl',
+  dpi: 203,
+  widthMm: 101.6,
+  heightMm: 63.5,
+  gapMm: 3,
+  includeQr: true,
+  qrValue: '{id}',
+};
+
+export const LABEL_LANGUAGES: { value: LabelLanguage; label: string; extension: string }[] = [
+  { value: 'zpl', label: 'ZPL II', extension: 'zpl' },
+  { value: 'epl', label: 'EPL2', extension: 'epl' },
+];
+
+export interface DotBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LabelLayout {
+  width: number;
+  height: number;
+  photo: DotBox;
+  name: DotBox;
+  role: DotBox;
+  qr: DotBox | null;
+}
+
+export interface PreparedLabel {
+  settings: LabelSettings;
+  layout: LabelLayout;
+  name: string;
+  role: string;
+  photo: MonoBitmap | null;
+  qr: { value: string; modules: boolean[][]; scale: number } | null;
+}
+
+export const mmToDots = (mm: number, dpi: PrinterDpi) => Math.round(mm * dpi / MM_PER_INCH);
+
+const MARGIN_MM = 2;
+// The photo never takes more than this share of the label width
+const MAX_PHOTO_SHARE = 0.45;
+const QR_SHARE = 0.5;
+
+export const computeLabelLayout = (settings: LabelSettings): LabelLayout => {
+  const width = mmToDots(settings.widthMm, settings.dpi);
+  const height = mmToDots(settings.heightMm, settings.dpi);
+  const margin = mmToDots(MARGIN_MM, settings.dpi);
+  const innerHeight = height - 2 * margin;
+
+  let photoHeight = innerHeight;
+  let photoWidth = Math.round(photoHeight * BADGE_PHOTO_ASPECT_RATIO);
+  if (photoWidth > width * MAX_PHOTO_SHARE) {
+    photoWidth = Math.round(width * MAX_PHOTO_SHARE);
+    photoHeight = Math.round(photoWidth / BADGE_PHOTO_ASPECT_RATIO);
+  }
+  const photo = { x: margin, y: Math.round((height - photoHeight) / 2), width: photoWidth, height: photoHeight };
+
+  const textX = photo.x + photo.width + margin;
+  const textWidth = Math.max(0, width - textX - margin);
+
+  const qrSize = settings.includeQr ? Math.min(textWidth, Math.round(innerHeight * QR_SHARE)) : 0;
+  const qr = qrSize > 0 ? { x: width - margin - qrSize, y: height - margin - qrSize, width: qrSize, height: qrSize } : null;
+
+  const textHeight = innerHeight - (qr ? qrSize + margin : 0);
+  const nameHeight = Math.round(textHeight * 0.6);
+
+  return {
+    width,
+    height,
+    photo,
+    name: { x: textX, y: margin, width: textWidth, height: nameHeight },
+    role: { x: textX, y: margin + nameHeight, width: textWidth, height: textHeight - nameHeight },
+    qr,
+  };
+};
+
+/**
+ * Does the slow part once (dithering and QR encoding) so the commands can be
+ * regenerated in either language without touching the photo again.
+ */
+export const prepareLabel = (data: BadgeData, settings: LabelSettings): PreparedLabel => {
+  const layout = computeLabelLayout(settings);
+
+  let qr: PreparedLabel['qr'] = null;
+  if (layout.qr) {
+    const value = fillPlaceholders(settings.qrValue, data);
+    const modules = qrModules(value);
+    const scale = Math.floor(layout.qr.width / (modules.length + 2));
+    if (scale > 0) qr = { value, modules, scale };
+  }
+
+  return {
+    settings,
+    layout,
+    name: data.name?.trim() ?? '',
+    role: data.role?.trim() ?? '',
+    photo: data.photo && layout.photo.width > 0 ? ditherImage(data.photo, layout.photo.width, layout.photo.height) : null,
+    qr,
+  };
+};
+
+/**
+ * Greedy word wrap by character count, for printer fonts with fixed-width
+ * characters. Words longer than a line are cut; text past the last line is dropped.
+ */
+export const wrapByChars = (text: string, perLine: number, maxLines: number): string[] => {
+  if (perLine <= 0) return [];
+
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    let rest = word;
+    while (rest) {
+      const candidate = line ? `${line} ${rest}` : rest;
+      if (candidate.length <= perLine) {
+        line = candidate;
+        rest = '';
+      } else if (line) {
+        lines.push(line);
+        line = '';
+      } else {
+        lines.push(rest.slice(0, perLine));
+        rest = rest.slice(perLine);
+      }
+    }
+  }
+  if (line) lines.push(line);
+  return lines.slice(0, maxLines);
+};
+
+export const toHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0').toUpperCase()).join('');
+};
@@ -0,0 +1,256 @@
+import { qrModules } from "@/lib/badge/layout";
+import { EPL_FONTS } from "@/lib/thermal/epl";
+import { mmToDots, type LabelSettings, type PrinterDpi } from "@/lib/thermal/label";
+
+/**
+ * Renders printer commands back to an image, one canvas pixel per dot, so a
+ * layout can be checked without a printer. It reads the generated commands,
+ * not the label data, so what it shows is what would be sent. Only the
+ * commands this app generates are understood; the printer's own fonts are
+ * approximated with the browser's.
+ */
+
+const INK = '#000000';
+const PAPER = '#ffffff';
+
+const createLabelCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, width);
+  canvas.height = Math.max(1, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.fillStyle = PAPER;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return { canvas, ctx };
+};
+
+// Draws packed 1-bit rows; `black` says which bit value is a dot
+const drawBits = (
+  ctx: CanvasRenderingContext2D,
+  data: Uint8Array,
+  bytesPerRow: number,
+  x: number,
+  y: number,
+  black: 0 | 1,
+) => {
+  const rows = Math.floor(data.length / bytesPerRow);
+  if (rows === 0 || bytesPerRow === 0) return;
+
+  const image = ctx.getImageData(x, y, bytesPerRow * 8, rows);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < bytesPerRow * 8; col++) {
+      const bit = (data[row * bytesPerRow + (col >> 3)] >> (7 - (col & 7))) & 1;
+      if (bit !== black) continue;
+      const index = (row * bytesPerRow * 8 + col) * 4;
+      image.data[index] = image.data[index + 1] = image.data[index + 2] = 0;
+      image.data[index + 3] = 255;
+    }
+  }
+  ctx.putImageData(image, x, y);
+};
+
+const drawQr = (ctx: CanvasRenderingContext2D, value: string, x: number, y: number, scale: number) => {
+  ctx.fillStyle = INK;
+  qrModules(value).forEach((row, rowIndex) => row.forEach((dark, colIndex) => {
+    if (dark) ctx.fillRect(x + colIndex * scale, y + rowIndex * scale, scale, scale);
+  }));
+};
+
+// Word wrap by measured width, like ^FB does on the printer
+const wrapMeasured = (ctx: CanvasRenderingContext2D, text: string, width: number, maxLines: number) => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.slice(0, maxLines);
+};
+
+const hexToBytes = (hex: string) => {
+  const clean = hex.replace(/[^0-9a-fA-F]/g, '');
+  const bytes = new Uint8Array(Math.floor(clean.length / 2));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+const renderZpl = (bytes: Uint8Array, fallbackWidth: number, fallbackHeight: number) => {
+  const text = new TextDecoder().decode(bytes);
+  const width = Number(text.match(/\^PW(\d+)/)?.[1] ?? fallbackWidth);
+  const height = Number(text.match(/\^LL(\d+)/)?.[1] ?? fallbackHeight);
+  const { canvas, ctx } = createLabelCanvas(width, height);
+
+  let x = 0;
+  let y = 0;
+  let fontHeight = 30;
+  let block: { width: number; lines: number; spacing: number; align: string } | null = null;
+  let hexEscapes = false;
+  let qrScale: number | null = null;
+
+  const drawField = (data: string) => {
+    if (qrScale !== null) {
+      // Data is "<error correction><input mode>,<text>"
+      drawQr(ctx, data.slice(data.indexOf(',') + 1), x, y, qrScale);
+      return;
+    }
+
+    ctx.font = `bold ${fontHeight}px "Arial Narrow", sans-serif`;
+    ctx.fillStyle = INK;
+    ctx.textBaseline = 'top';
+    if (!block) {
+      ctx.textAlign = 'left';
+      ctx.fillText(data, x, y);
+      return;
+    }
+
+    const { width, lines, spacing } = block;
+    const align = block.align === 'C' ? 'center' : block.align === 'R' ? 'right' : 'left';
+    const offset = align === 'center' ? width / 2 : align === 'right' ? width : 0;
+    ctx.textAlign = align;
+    wrapMeasured(ctx, data, width, lines).forEach((line, index) => {
+      ctx.fillText(line, x + offset, y + index * (fontHeight + spacing));
+    });
+  };
+
+  for (const token of text.split(/(?=[\^~])/)) {
+    const code = token.slice(1, 3).toUpperCase();
+    const params = token.slice(3).trim().split(',');
+
+    switch (code) {
+      case 'FO':
+        x = Number(params[0]) || 0;
+        y = Number(params[1]) || 0;
+        break;
+      case 'FB':
+        block = {
+          width: Number(params[0]) || 0,
+          lines: Number(params[1]) || 1,
+          spacing: Number(params[2]) || 0,
+          align: params[3] || 'L',
+        };
+        break;
+      case 'FH':
+        hexEscapes = true;
+        break;
+      case 'BQ':
+        qrScale = Number(params[2]) || 2;
+        break;
+      case 'FD': {
+        const raw = token.slice(3).replace(/\n$/, '');
+        drawField(hexEscapes
+          ? raw.replace(/_([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+          : raw);
+        break;
+      }
+      case 'FS':
+        block = null;
+        hexEscapes = false;
+        qrScale = null;
+        break;
+      case 'GF': {
+        // ^GFA,<total bytes>,<graphic bytes>,<bytes per row>,<hex data>
+        const bytesPerRow = Number(params[3]) || 0;
+        drawBits(ctx, hexToBytes(params.slice(4).join(',')), bytesPerRow, x, y, 1);
+        break;
+      }
+      default:
+        // ^A<font><orientation>,<height>,<width>
+        if (token[1] === 'A' && token[2] !== '@') {
+          fontHeight = Number(params[1]) || fontHeight;
+        }
+    }
+  }
+
+  return canvas;
+};
+
+// Splits "1,2,3,"a \"b\"" style parameters, honouring quoted strings
+const eplParams = (text: string): string[] => {
+  const params: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted && char === '\\' && i + 1 < text.length) {
+      current += text[++i];
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      params.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  params.push(current);
+  return params;
+};
+
+const renderEpl = (bytes: Uint8Array, dpi: PrinterDpi, fallbackWidth: number, fallbackHeight: number) => {
+  const latin1 = new TextDecoder('iso-8859-1');
+  const text = latin1.decode(bytes);
+  const width = Number(text.match(/^q(\d+)/m)?.[1] ?? fallbackWidth);
+  const height = Number(text.match(/^Q(\d+)/m)?.[1] ?? fallbackHeight);
+  const { canvas, ctx } = createLabelCanvas(width, height);
+
+  let position = 0;
+  while (position < bytes.length) {
+    let end = bytes.indexOf(0x0a, position);
+    if (end === -1) end = bytes.length;
+
+    if (bytes[position] === 0x47 && bytes[position + 1] === 0x57) {
+      // GW<x>,<y>,<bytes per row>,<rows>,<binary data>: the data can contain newlines
+      let commas = 0;
+      let dataStart = position;
+      while (dataStart < bytes.length && commas < 4) {
+        if (bytes[dataStart++] === 0x2c) commas++;
+      }
+      const [x, y, bytesPerRow, rows] = latin1.decode(bytes.slice(position + 2, dataStart - 1)).split(',').map(Number);
+      const data = bytes.slice(dataStart, dataStart + bytesPerRow * rows);
+      drawBits(ctx, data, bytesPerRow, x, y, 0);
+      position = dataStart + data.length;
+      if (bytes[position] === 0x0a) position++;
+      continue;
+    }
+
+    const line = latin1.decode(bytes.slice(position, end)).replace(/\r$/, '');
+    position = end + 1;
+
+    if (line[0] !== 'A') continue;
+
+    // A<x>,<y>,<rotation>,<font>,<h mult>,<v mult>,<N|R>,"<data>"
+    const [x, y, , font, hMult, vMult, reverse, data = ''] = eplParams(line.slice(1));
+    const metrics = EPL_FONTS[dpi][(Number(font) || 1) - 1] ?? EPL_FONTS[dpi][0];
+    const advance = metrics.width * (Number(hMult) || 1);
+    const charHeight = metrics.height * (Number(vMult) || 1);
+
+    if (reverse === 'R') {
+      ctx.fillStyle = INK;
+      ctx.fillRect(Number(x), Number(y), advance * data.length, charHeight);
+    }
+    ctx.fillStyle = reverse === 'R' ? PAPER : INK;
+    ctx.font = `${charHeight}px monospace`;
+    ctx.textBaseline = 'top';
+    ctx.textAlign = 'left';
+    // One character per cell, like the printer's fixed-width fonts
+    [...data].forEach((char, index) => ctx.fillText(char, Number(x) + index * advance, Number(y), advance));
+  }
+
+  return canvas;
+};
+
+export const renderLabelPreview = (bytes: Uint8Array, settings: LabelSettings): HTMLCanvasElement => {
+  const width = mmToDots(settings.widthMm, settings.dpi);
+  const height = mmToDots(settings.heightMm, settings.dpi);
+  return settings.language === 'zpl'
+    ? renderZpl(bytes, width, height)
+    : renderEpl(bytes, settings.dpi, width, height);
+};
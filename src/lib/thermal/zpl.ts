@@ -0,0 +1,58 @@
+import { mmToDots, toHex, wrapByChars, type DotBox, type PreparedLabel } from "@/lib/thermal/label";
+
+// Font 0 is condensed; an average character is a bit over half its height wide
+const CHAR_WIDTH_RATIO = 0.55;
+const LINE_SPACING = 0.1;
+
+// ^FH with the default '_' indicator lets field data hold the command characters
+const escapeField = (text: string) => {
+  return text.replace(/[_^~]/g, char => `_${char.charCodeAt(0).toString(16).toUpperCase()}`);
+};
+
+// Largest font height at which the whole text fits the box in maxLines lines
+const fitFontHeight = (text: string, box: DotBox, maxLines: number, maxHeight: number, minHeight: number) => {
+  const words = text.split(/\s+/).filter(Boolean).join(' ');
+  for (let height = maxHeight; height > minHeight; height -= 2) {
+    const perLine = Math.floor(box.width / (height * CHAR_WIDTH_RATIO));
+    const lines = wrapByChars(words, perLine, maxLines);
+    const fitsHeight = lines.length * height * (1 + LINE_SPACING) <= box.height;
+    if (fitsHeight && lines.join(' ').length === words.length) return height;
+  }
+  return minHeight;
+};
+
+const textField = (text: string, box: DotBox, maxLines: number, maxHeight: number, minHeight: number) => {
+  if (!text || box.width <= 0) return '';
+  const height = fitFontHeight(text, box, maxLines, maxHeight, minHeight);
+  const spacing = Math.round(height * LINE_SPACING);
+  return `^FO${box.x},${box.y}^A0N,${height},${height}^FB${box.width},${maxLines},${spacing},L^FH^FD${escapeField(text)}^FS`;
+};
+
+/**
+ * ZPL II for one label. The photo goes in as an ASCII-hex ^GFA graphic, text
+ * uses the printer's scalable font 0 with ^FB wrapping and the QR code uses
+ * the printer's own ^BQ encoder. Output is UTF-8 (^CI28).
+ */
+export const buildZpl = (label: PreparedLabel): Uint8Array => {
+  const { layout, settings } = label;
+  const dots = (mm: number) => mmToDots(mm, settings.dpi);
+  const commands = ['^XA', '^CI28', `^PW${layout.width}`, `^LL${layout.height}`, '^LH0,0'];
+
+  if (label.photo) {
+    const { photo } = label;
+    const total = photo.data.length;
+    commands.push(`^FO${layout.photo.x},${layout.photo.y}^GFA,${total},${total},${photo.bytesPerRow},${toHex(photo.data)}^FS`);
+  }
+
+  commands.push(textField(label.name, layout.name, 2, dots(8), dots(2.5)));
+  commands.push(textField(label.role, layout.role, 2, dots(5), dots(2)));
+
+  if (label.qr && layout.qr) {
+    // Offset by one module to match the quiet zone left around bitmap QR codes
+    const { scale, value } = label.qr;
+    commands.push(`^FO${layout.qr.x + scale},${layout.qr.y + scale}^BQN,2,${Math.min(scale, 10)}^FH^FDMA,${escapeField(value)}^FS`);
+  }
+
+  commands.push('^PQ1', '^XZ');
+  return new TextEncoder().encode(commands.filter(Boolean).join('\n') + '\n');
+};
@@ -0,0 +1,97 @@
+import { supabase } from "@/integrations/supabase/client";
+import { extensionForType, loadNormalizedImage, renderEditedImage, type EncodeOptions, type PhotoEdits } from "@/lib/image";
+import { getDisplayPhotoPath, type Photo } from "@/lib/photos";
+
+/**
+ * Downscaled copies of the photo shown in the management list, so the grid
+ * never downloads full photos: the small one fills a grid card, the medium
+ * one is for side-by-side comparisons. Photos with the background replaced
+ * also get a small one of the processed photo, shown next to it in the card.
+ */
+export type ThumbnailSize = 'small' | 'medium';
+
+export interface Thumbnails {
+  small: Blob;
+  medium: Blob;
+  // Only for photos with a backdrop version
+  processed?: Blob | null;
+}
+
+export const THUMBNAIL_OPTIONS: Record<ThumbnailSize, EncodeOptions> = {
+  small: { maxDimension: 480, format: 'webp', quality: 0.75 },
+  medium: { maxDimension: 960, format: 'webp', quality: 0.8 },
+};
+
+// Storage path of a thumbnail; the same layout submit-capture uses
+export const thumbnailPath = (photoId: string, kind: keyof Thumbnails, type: string): string => {
+  return `thumbs/${kind}/${photoId}.${extensionForType(type)}`;
+};
+
+/**
+ * Thumbnails of the displayed photo with an edit applied, as the processed
+ * photo is made. `processed` is the source without the backdrop, when the
+ * displayed photo has one.
+ */
+export const renderThumbnails = async (
+  source: HTMLCanvasElement,
+  edits: PhotoEdits,
+  processed: HTMLCanvasElement | null = null,
+): Promise<Thumbnails> => {
+  return {
+    small: await renderEditedImage(source, edits, THUMBNAIL_OPTIONS.small),
+    medium: await renderEditedImage(source, edits, THUMBNAIL_OPTIONS.medium),
+    processed: processed ? await renderEditedImage(processed, edits, THUMBNAIL_OPTIONS.small) : null,
+  };
+};
+
+const WHOLE_IMAGE: PhotoEdits = {
+  rotation: 0,
+  flipHorizontal: false,
+  crop: { x: 0, y: 0, width: 1, height: 1 },
+};
+
+const loadStoredImage = async (path: string): Promise<HTMLCanvasElement> => {
+  const { data, error } = await supabase.storage
+    .from('photos')
+    .download(path);
+  if (error) throw error;
+  return loadNormalizedImage(data);
+};
+
+/**
+ * Makes the thumbnails of a photo saved before the capture tablets sent
+ * them, from the stored photo, and records them on the row. Safe to run
+ * again after a partial failure.
+ */
+export const createThumbnails = async (photo: Photo): Promise<void> => {
+  const thumbnails = await renderThumbnails(
+    await loadStoredImage(getDisplayPhotoPath(photo)),
+    WHOLE_IMAGE,
+    photo.backdrop_path ? await loadStoredImage(photo.file_path) : null,
+  );
+
+  const paths: Partial<Record<keyof Thumbnails, string>> = {};
+  for (const kind of ['small', 'medium', 'processed'] as (keyof Thumbnails)[]) {
+    const thumbnail = thumbnails[kind];
+    if (!thumbnail) continue;
+
+    paths[kind] = thumbnailPath(photo.id, kind, thumbnail.type);
+    const { error: uploadError } = await supabase.storage
+      .from('photos')
+      .upload(paths[kind], thumbnail, { cacheControl: '3600', contentType: thumbnail.type });
+    // An earlier attempt may have uploaded the file before failing
+    if (uploadError && !/already exists|duplicate/i.test(uploadError.message)) throw uploadError;
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('photos')
+    .update({
+      thumb_small_path: paths.small,
+      thumb_medium_path: paths.medium,
+      thumb_processed_path: paths.processed ?? null,
+    })
+    .eq('id', photo.id)
+    .select('id');
+  if (updateError) throw updateError;
+  if (!updated?.length) throw new Error('Foto não encontrada ou sem permissão');
+};
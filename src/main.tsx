@@ -3,3 +3,14 @@ import App from './App.tsx'
 import './index.css'
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// Offline support for the capture stations (production builds only, so the
+// dev server's hot reload is never served from cache). The version in the
+// URL makes every deploy install the worker again and precache its files.
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`/sw.js?v=${__APP_VERSION__}`).catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+}
@@ -0,0 +1,12 @@
+import AuthGuard from "@/components/AuthGuard";
+import AttendeeManager from "@/components/AttendeeManager";
+
+const AttendeesPage = () => {
+  return (
+    <AuthGuard requiredRole="admin">
+      <AttendeeManager />
+    </AuthGuard>
+  );
+};
+
+export default AttendeesPage;
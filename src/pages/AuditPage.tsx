@@ -0,0 +1,12 @@
+import AuthGuard from "@/components/AuthGuard";
+import AuditLog from "@/components/AuditLog";
+
+const AuditPage = () => {
+  return (
+    <AuthGuard requiredRole="admin">
+      <AuditLog />
+    </AuthGuard>
+  );
+};
+
+export default AuditPage;
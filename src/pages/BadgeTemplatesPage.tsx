@@ -0,0 +1,12 @@
+import AuthGuard from "@/components/AuthGuard";
+import BadgeDesigner from "@/components/BadgeDesigner";
+
+const BadgeTemplatesPage = () => {
+  return (
+    <AuthGuard requiredRole="admin">
+      <BadgeDesigner />
+    </AuthGuard>
+  );
+};
+
+export default BadgeTemplatesPage;
@@ -0,0 +1,12 @@
+import AuthGuard from "@/components/AuthGuard";
+import CaptureStationManager from "@/components/CaptureStationManager";
+
+const CaptureStationsPage = () => {
+  return (
+    <AuthGuard requiredRole="admin">
+      <CaptureStationManager />
+    </AuthGuard>
+  );
+};
+
+export default CaptureStationsPage;
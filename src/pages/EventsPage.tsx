@@ -0,0 +1,12 @@
+import AuthGuard from "@/components/AuthGuard";
+import EventManager from "@/components/EventManager";
+
+const EventsPage = () => {
+  return (
+    <AuthGuard requiredRole="admin">
+      <EventManager />
+    </AuthGuard>
+  );
+};
+
+export default EventsPage;
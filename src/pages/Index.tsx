@@ -1,14 +1,48 @@
-import { Link } from "react-router-dom";
+import { Link, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Settings } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { CalendarX, RefreshCw, Settings } from "lucide-react";
 import CapturePhoto from "@/components/CapturePhoto";
+import { useEventBySlug } from "@/hooks/use-events";
 
 const Index = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const { data: event, isLoading, isError } = useEventBySlug(slug);
+
+  if (slug && isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="text-center">
+          <RefreshCw className="w-8 h-8 mx-auto animate-spin text-primary mb-4" />
+          <p className="text-lg text-muted-foreground">A carregar evento...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (slug && !event) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <Card className="w-full max-w-md p-8 text-center">
+          <CalendarX className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+          <h1 className="text-2xl font-bold text-foreground mb-2">
+            {isError ? "Sem ligação" : "Evento não encontrado"}
+          </h1>
+          <p className="text-muted-foreground">
+            {isError
+              ? "Abra este link com ligação à internet pelo menos uma vez neste dispositivo"
+              : "Verifique o link de captura fornecido pela equipa"}
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="relative">
       {/* Admin access button */}
       <div className="absolute top-4 right-4 z-10">
-        <Link to="/lista">
+        <Link to={event ? `/lista?evento=${event.slug}` : "/lista"}>
           <Button variant="outline" size="sm">
             <Settings className="w-4 h-4 mr-2" />
             Área de Gestão
@@ -17,7 +51,7 @@ const Index = () => {
       </div>
       
       {/* Main capture interface */}
-      <CapturePhoto />
+      <CapturePhoto event={event ?? null} />
     </div>
   );
 };
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { RefreshCw, Unplug } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { toast } from "@/hooks/use-toast";
+import { pairCaptureStation } from "@/lib/capture-station";
+
+// Opened from the pairing QR on the tablet that becomes the station
+const PairStationPage = () => {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    pairCaptureStation(code ?? '')
+      .then(station => {
+        if (cancelled) return;
+        toast({
+          title: "Posto emparelhado",
+          description: `Este tablet é agora o posto "${station.name}"`,
+        });
+        navigate(station.eventSlug ? `/e/${station.eventSlug}` : '/', { replace: true });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error pairing capture station:', error);
+        setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, navigate]);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      {failed ? (
+        <Card className="w-full max-w-md p-8 text-center">
+          <Unplug className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+          <h1 className="text-2xl font-bold text-foreground mb-2">
+            Código inválido ou expirado
+          </h1>
+          <p className="text-muted-foreground">
+            Cada QR só pode ser usado uma vez e é válido durante 15 minutos. Peça à equipa que gere um novo.
+          </p>
+        </Card>
+      ) : (
+        <div className="text-center">
+          <RefreshCw className="w-8 h-8 mx-auto animate-spin text-primary mb-4" />
+          <p className="text-lg text-muted-foreground">A emparelhar posto...</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PairStationPage;
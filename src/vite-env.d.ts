@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+// Build stamp, set in vite.config.ts
+declare const __APP_VERSION__: string;
@@ -0,0 +1,327 @@
+// Receives captures from the paired capture stations. Anonymous clients can
+// no longer write to the photos table or bucket, so this is the only way a
+// tablet saves a photo: it checks the station token, the station's rate
+// limit and the files, then uploads and inserts with the service role.
+//
+// Request: multipart/form-data with the x-station-token header, a `capture`
+// field (JSON, see CaptureFields) and the files `original`, `processed` and,
+// optionally, `backdrop`, `crop`, `thumb_small`, `thumb_medium` and
+// `thumb_processed`. Sending the same capture id again is a no-op, so the
+// offline queue can retry freely.
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+const STATION_TOKEN_HEADER = "x-station-token";
+
+// Captures a station may save per minute. An offline queue flushing a
+// backlog hits this and retries later.
+const RATE_LIMIT_PER_MINUTE = 30;
+
+// Camera originals are large; everything else is resized on the tablet
+const MAX_ORIGINAL_BYTES = 15 * 1024 * 1024;
+const MAX_DERIVED_BYTES = 4 * 1024 * 1024;
+const MAX_THUMBNAIL_BYTES = 1024 * 1024;
+const MAX_JSON_BYTES = 16 * 1024;
+const MAX_TEXT_LENGTH = 200;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const IMAGE_HASH_PATTERN = /^[0-9a-f]{16}$/;
+const QUALITY_LEVELS = ["pass", "warn", "fail"];
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": `authorization, x-client-info, apikey, content-type, ${STATION_TOKEN_HEADER}`,
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+interface CaptureFields {
+  id: string;
+  eventId: string | null;
+  attendeeId: string | null;
+  isWalkIn: boolean;
+  retakeOf: string | null;
+  name: string | null;
+  role: string | null;
+  quality: unknown;
+  imageHash: string | null;
+  cropBox: unknown;
+}
+
+class RequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const json = (status: number, body: unknown) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+};
+
+const sha256Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// The declared type isn't trusted: the first bytes must match it
+const sniffImageType = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return "image/png";
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (ascii(4, 8) === "ftyp" && ["heic", "heix", "mif1", "msf1"].includes(ascii(8, 12))) return "image/heic";
+  return null;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+};
+
+interface CheckedFile {
+  bytes: Uint8Array;
+  type: string;
+  extension: string;
+}
+
+const readImage = async (
+  form: FormData,
+  field: string,
+  maxBytes: number,
+  allowed: string[],
+): Promise<CheckedFile | null> => {
+  const value = form.get(field);
+  if (value === null) return null;
+  if (!(value instanceof File)) throw new RequestError(400, `${field} must be a file`);
+  if (value.size === 0 || value.size > maxBytes) {
+    throw new RequestError(413, `${field} must be between 1 byte and ${maxBytes} bytes`);
+  }
+
+  const bytes = new Uint8Array(await value.arrayBuffer());
+  const type = sniffImageType(bytes);
+  if (!type || !allowed.includes(type)) {
+    throw new RequestError(415, `${field} must be one of ${allowed.join(", ")}`);
+  }
+  return { bytes, type, extension: EXTENSIONS[type] };
+};
+
+const optionalUuid = (value: unknown, field: string): string | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string" || !UUID_PATTERN.test(value)) throw new RequestError(400, `${field} must be a UUID`);
+  return value;
+};
+
+const optionalText = (value: unknown, field: string): string | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string" || value.length > MAX_TEXT_LENGTH) {
+    throw new RequestError(400, `${field} must be text of at most ${MAX_TEXT_LENGTH} characters`);
+  }
+  return value.trim() || null;
+};
+
+const optionalJson = (value: unknown, field: string): unknown => {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "object" || JSON.stringify(value).length > MAX_JSON_BYTES) {
+    throw new RequestError(400, `${field} must be an object of at most ${MAX_JSON_BYTES} bytes`);
+  }
+  return value;
+};
+
+const parseFields = (raw: FormDataEntryValue | null): CaptureFields => {
+  if (typeof raw !== "string" || raw.length > 4 * MAX_JSON_BYTES) {
+    throw new RequestError(400, "capture must be a JSON string");
+  }
+
+  let fields: Record<string, unknown>;
+  try {
+    fields = JSON.parse(raw);
+  } catch {
+    throw new RequestError(400, "capture must be a JSON string");
+  }
+
+  const id = optionalUuid(fields.id, "id");
+  if (!id) throw new RequestError(400, "id is required");
+
+  const imageHash = fields.imageHash ?? null;
+  if (imageHash !== null && (typeof imageHash !== "string" || !IMAGE_HASH_PATTERN.test(imageHash))) {
+    throw new RequestError(400, "imageHash must be 16 hex digits");
+  }
+
+  const quality = optionalJson(fields.quality, "quality") as { level?: unknown } | null;
+  if (quality && !QUALITY_LEVELS.includes(quality.level as string)) {
+    throw new RequestError(400, "quality.level is invalid");
+  }
+
+  return {
+    id,
+    eventId: optionalUuid(fields.eventId, "eventId"),
+    attendeeId: optionalUuid(fields.attendeeId, "attendeeId"),
+    isWalkIn: fields.isWalkIn === true,
+    retakeOf: optionalUuid(fields.retakeOf, "retakeOf"),
+    name: optionalText(fields.name, "name"),
+    role: optionalText(fields.role, "role"),
+    quality,
+    imageHash: imageHash as string | null,
+    cropBox: optionalJson(fields.cropBox, "cropBox"),
+  };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json(405, { error: "Method not allowed" });
+  }
+
+  try {
+    const token = req.headers.get(STATION_TOKEN_HEADER);
+    if (!token) throw new RequestError(401, "Missing station token");
+
+    // The token also goes to the database, where photos_assign_station
+    // turns it into the photo's station_id; the user agent is the device
+    // shown in the audit log
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+      auth: { persistSession: false },
+      global: {
+        headers: {
+          [STATION_TOKEN_HEADER]: token,
+          "User-Agent": req.headers.get("user-agent") ?? "submit-capture",
+        },
+      },
+    });
+
+    const { data: station, error: stationError } = await supabase
+      .from("capture_stations")
+      .select("id, event_id")
+      .eq("token_hash", await sha256Hex(token))
+      .maybeSingle();
+    if (stationError) throw stationError;
+    if (!station) throw new RequestError(401, "Unknown or revoked station token");
+
+    const form = await req.formData();
+    const fields = parseFields(form.get("capture"));
+    // A station only captures for its own event; the attendee and retake
+    // triggers trust the photo's event, so it can't come from the client
+    if (fields.eventId !== station.event_id) {
+      throw new RequestError(403, "The capture's event is not the station's event");
+    }
+
+    // A retry of a capture that was already saved
+    const { data: existing, error: existingError } = await supabase
+      .from("photos")
+      .select("id")
+      .eq("id", fields.id)
+      .maybeSingle();
+    if (existingError) throw existingError;
+    if (existing) return json(200, { id: fields.id, duplicate: true });
+
+    // Counted atomically in the database, so parallel requests can't all slip in
+    const { data: withinLimit, error: limitError } = await supabase.rpc("take_capture_slot", {
+      _station_id: station.id,
+      _limit: RATE_LIMIT_PER_MINUTE,
+    });
+    if (limitError) throw limitError;
+    if (!withinLimit) {
+      return new Response(JSON.stringify({ error: "Rate limit exceeded" }), {
+        status: 429,
+        headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": "60" },
+      });
+    }
+
+    const derivedTypes = ["image/jpeg", "image/png", "image/webp"];
+    const original = await readImage(form, "original", MAX_ORIGINAL_BYTES, [...derivedTypes, "image/heic"]);
+    const processed = await readImage(form, "processed", MAX_DERIVED_BYTES, derivedTypes);
+    const backdrop = await readImage(form, "backdrop", MAX_DERIVED_BYTES, derivedTypes);
+    const crop = await readImage(form, "crop", MAX_DERIVED_BYTES, derivedTypes);
+    const thumbSmall = await readImage(form, "thumb_small", MAX_THUMBNAIL_BYTES, derivedTypes);
+    const thumbMedium = await readImage(form, "thumb_medium", MAX_THUMBNAIL_BYTES, derivedTypes);
+    // The processed photo next to the backdrop version in the list card
+    const thumbProcessed = backdrop
+      ? await readImage(form, "thumb_processed", MAX_THUMBNAIL_BYTES, derivedTypes)
+      : null;
+    if (!original || !processed) throw new RequestError(400, "original and processed are required");
+
+    const filePath = `${fields.id}.${processed.extension}`;
+    const originalPath = `originals/${fields.id}.${original.extension}`;
+    const backdropPath = backdrop ? `backdrops/${fields.id}.${backdrop.extension}` : null;
+    const cropPath = crop ? `crops/${fields.id}.${crop.extension}` : null;
+    const thumbSmallPath = thumbSmall ? `thumbs/small/${fields.id}.${thumbSmall.extension}` : null;
+    const thumbMediumPath = thumbMedium ? `thumbs/medium/${fields.id}.${thumbMedium.extension}` : null;
+    const thumbProcessedPath = thumbProcessed ? `thumbs/processed/${fields.id}.${thumbProcessed.extension}` : null;
+
+    const uploads: [string, CheckedFile][] = [
+      [originalPath, original],
+      [filePath, processed],
+      ...(backdrop ? [[backdropPath, backdrop] as [string, CheckedFile]] : []),
+      ...(crop ? [[cropPath, crop] as [string, CheckedFile]] : []),
+      ...(thumbSmall ? [[thumbSmallPath, thumbSmall] as [string, CheckedFile]] : []),
+      ...(thumbMedium ? [[thumbMediumPath, thumbMedium] as [string, CheckedFile]] : []),
+      ...(thumbProcessed ? [[thumbProcessedPath, thumbProcessed] as [string, CheckedFile]] : []),
+    ];
+    // Files of a capture that didn't make it into the table are removed, so
+    // a refused or failed capture leaves nothing behind in the bucket
+    const removeUploads = async () => {
+      const { error } = await supabase.storage.from("photos").remove(uploads.map(([path]) => path));
+      if (error) console.error("Error removing uploaded files:", error);
+    };
+
+    try {
+      for (const [path, file] of uploads) {
+        const { error } = await supabase.storage
+          .from("photos")
+          .upload(path, file.bytes, { contentType: file.type, cacheControl: "3600", upsert: false });
+        // An earlier attempt may have uploaded the file before failing
+        if (error && !/already exists|duplicate/i.test(error.message)) throw error;
+      }
+    } catch (error) {
+      await removeUploads();
+      throw error;
+    }
+
+    const { error: insertError } = await supabase
+      .from("photos")
+      .upsert(
+        {
+          id: fields.id,
+          file_path: filePath,
+          original_path: originalPath,
+          name: fields.name,
+          role: fields.role,
+          event_id: fields.eventId,
+          attendee_id: fields.attendeeId,
+          is_walk_in: fields.isWalkIn,
+          retake_of: fields.retakeOf,
+          quality: fields.quality,
+          quality_level: (fields.quality as { level?: string } | null)?.level ?? null,
+          image_hash: fields.imageHash,
+          backdrop_path: backdropPath,
+          crop_path: cropPath,
+          crop_box: fields.cropBox,
+          thumb_small_path: thumbSmallPath,
+          thumb_medium_path: thumbMediumPath,
+          thumb_processed_path: thumbProcessedPath,
+        },
+        { onConflict: "id", ignoreDuplicates: true },
+      );
+    if (insertError) {
+      await removeUploads();
+      // Unknown event or attendee, or a value the table rejects: retrying won't help
+      if (["23503", "23514", "22P02"].includes(insertError.code)) {
+        throw new RequestError(422, insertError.message);
+      }
+      throw insertError;
+    }
+
+    return json(201, { id: fields.id, station_id: station.id });
+  } catch (error) {
+    if (error instanceof RequestError) {
+      return json(error.status, { error: error.message });
+    }
+    console.error("Error saving capture:", error);
+    return json(500, { error: "Could not save the capture" });
+  }
+});
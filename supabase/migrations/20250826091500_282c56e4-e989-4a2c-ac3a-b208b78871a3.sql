@@ -0,0 +1,87 @@
+-- Staff accounts for the management area (Supabase Auth users with a role)
+CREATE TYPE public.staff_role AS ENUM ('admin', 'operator');
+
+CREATE TABLE public.staff (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  full_name TEXT,
+  role public.staff_role NOT NULL DEFAULT 'operator',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.staff ENABLE ROW LEVEL SECURITY;
+
+-- Helper functions used by policies. SECURITY DEFINER so that policies on
+-- public.staff itself can call them without recursing into RLS.
+CREATE OR REPLACE FUNCTION public.is_staff()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff WHERE user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_staff_role(_role public.staff_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.staff WHERE user_id = auth.uid() AND role = _role
+  );
+$$;
+
+-- Staff can see their own profile, admins can see and manage everyone
+CREATE POLICY "Staff can view own profile"
+ON public.staff
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid() OR public.has_staff_role('admin'));
+
+CREATE POLICY "Admins can manage staff"
+ON public.staff
+FOR ALL
+TO authenticated
+USING (public.has_staff_role('admin'))
+WITH CHECK (public.has_staff_role('admin'));
+
+-- Photos: only authenticated staff can read and update.
+-- Capture stays anonymous and insert-only.
+DROP POLICY "Anyone can view photos" ON public.photos;
+DROP POLICY "Anyone can update photos" ON public.photos;
+
+CREATE POLICY "Staff can view photos"
+ON public.photos
+FOR SELECT
+TO authenticated
+USING (public.is_staff());
+
+CREATE POLICY "Staff can update photos"
+ON public.photos
+FOR UPDATE
+TO authenticated
+USING (public.is_staff())
+WITH CHECK (public.is_staff());
+
+-- Storage: same rules for objects in the photos bucket
+DROP POLICY "Anyone can view photos in bucket" ON storage.objects;
+
+CREATE POLICY "Staff can view photos in bucket"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'photos' AND public.is_staff());
+
+CREATE POLICY "Staff can update photos in bucket"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (bucket_id = 'photos' AND public.is_staff())
+WITH CHECK (bucket_id = 'photos' AND public.is_staff());
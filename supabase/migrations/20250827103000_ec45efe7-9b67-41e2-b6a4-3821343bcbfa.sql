@@ -0,0 +1,36 @@
+-- Events: each conference gets its own photos, capture URL and badge settings
+CREATE TABLE public.events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name TEXT NOT NULL,
+  starts_on DATE,
+  ends_on DATE,
+  badge_generator_url TEXT,
+  required_fields TEXT[] NOT NULL DEFAULT ARRAY['name', 'role'],
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT events_dates_check CHECK (ends_on IS NULL OR starts_on IS NULL OR ends_on >= starts_on),
+  CONSTRAINT events_required_fields_check CHECK (required_fields <@ ARRAY['name', 'role'])
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.events ENABLE ROW LEVEL SECURITY;
+
+-- Capture stations resolve /e/:slug without logging in
+CREATE POLICY "Anyone can view events"
+ON public.events
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage events"
+ON public.events
+FOR ALL
+TO authenticated
+USING (public.has_staff_role('admin'))
+WITH CHECK (public.has_staff_role('admin'));
+
+-- Tag photos with the event they were captured for.
+-- Existing rows keep a NULL event and stay visible under "all events".
+ALTER TABLE public.photos
+ADD COLUMN event_id UUID REFERENCES public.events(id);
+
+CREATE INDEX idx_photos_event_id_created_at ON public.photos(event_id, created_at DESC);
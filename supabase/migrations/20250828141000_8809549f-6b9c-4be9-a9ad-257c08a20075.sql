@@ -0,0 +1,5 @@
+-- Keep the untouched capture next to the processed photo.
+-- file_path/file_url point to the cropped, resized derivative used for badges;
+-- original_path points to the original upload under originals/.
+ALTER TABLE public.photos
+ADD COLUMN original_path TEXT;
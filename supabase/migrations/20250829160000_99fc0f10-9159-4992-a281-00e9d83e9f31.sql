@@ -0,0 +1,13 @@
+-- Bulk delete from the management area: staff can remove photo rows and
+-- their files (processed and original) from the photos bucket
+CREATE POLICY "Staff can delete photos"
+ON public.photos
+FOR DELETE
+TO authenticated
+USING (public.is_staff());
+
+CREATE POLICY "Staff can delete photos in bucket"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'photos' AND public.is_staff());
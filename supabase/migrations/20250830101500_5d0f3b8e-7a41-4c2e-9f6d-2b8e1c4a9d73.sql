@@ -0,0 +1,17 @@
+-- Server-side search in the management list: each search word is matched
+-- with ILIKE '%word%' against name, role and file_path. Trigram indexes let
+-- Postgres answer these without scanning the whole table.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX IF NOT EXISTS photos_name_trgm_idx
+ON public.photos USING gin (name extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS photos_role_trgm_idx
+ON public.photos USING gin (role extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS photos_file_path_trgm_idx
+ON public.photos USING gin (file_path extensions.gin_trgm_ops);
+
+-- Default list order and date-range filter
+CREATE INDEX IF NOT EXISTS photos_created_at_idx
+ON public.photos (created_at DESC, id DESC);
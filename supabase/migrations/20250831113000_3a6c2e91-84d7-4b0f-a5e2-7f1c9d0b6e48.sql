@@ -0,0 +1,46 @@
+-- Badge templates designed in /lista/modelos. Every save inserts a new
+-- version, so earlier layouts can be restored and a badge printed yesterday
+-- can be traced to the layout it used. event_id NULL is the template used by
+-- events without one of their own.
+CREATE TABLE public.badge_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  definition JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT badge_templates_event_version_key UNIQUE NULLS NOT DISTINCT (event_id, version)
+);
+
+CREATE INDEX idx_badge_templates_event_version ON public.badge_templates(event_id, version DESC);
+
+ALTER TABLE public.badge_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view badge templates"
+ON public.badge_templates
+FOR SELECT
+TO authenticated
+USING (public.is_staff());
+
+-- Versions are never edited or deleted, only added
+CREATE POLICY "Admins can create badge templates"
+ON public.badge_templates
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_staff_role('admin'));
+
+-- Logos, background images and fonts used by templates
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('badge-assets', 'badge-assets', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view badge assets"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'badge-assets');
+
+CREATE POLICY "Admins can upload badge assets"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'badge-assets' AND public.has_staff_role('admin'));
@@ -0,0 +1,9 @@
+-- When the photo's badge went out on a print sheet. Set by the operator who
+-- printed it, so the same badge isn't printed twice by two operators.
+ALTER TABLE public.photos
+ADD COLUMN IF NOT EXISTS printed_at timestamptz;
+
+-- The print sheet dialog looks for photos not printed yet
+CREATE INDEX IF NOT EXISTS photos_unprinted_idx
+ON public.photos (created_at DESC)
+WHERE printed_at IS NULL;
@@ -0,0 +1,148 @@
+-- Attendee registry: each event's registration list, imported by admins from
+-- CSV/XLSX, so capture stations pick a registered attendee instead of
+-- typing the name and role by hand.
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Lower-case, accent-free text for "joao" to find "João". unaccent() is only
+-- STABLE because its dictionary could change; pinning the dictionary makes
+-- the wrapper safe to use in a generated column.
+CREATE OR REPLACE FUNCTION public.search_normalize(_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+SET search_path = public, extensions
+AS $$
+  SELECT lower(extensions.unaccent('extensions.unaccent'::regdictionary, coalesce(_value, '')));
+$$;
+
+CREATE TABLE public.attendees (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  -- Registration or ticket number from the source list; re-imports update
+  -- the attendee with the same number instead of adding a duplicate
+  external_id TEXT,
+  full_name TEXT NOT NULL CHECK (length(trim(full_name)) > 0),
+  role TEXT,
+  company TEXT,
+  email TEXT,
+  search_text TEXT GENERATED ALWAYS AS (
+    public.search_normalize(full_name || ' ' || coalesce(role, '') || ' ' || coalesce(company, '') || ' ' || coalesce(email, ''))
+  ) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT attendees_event_external_id_key UNIQUE (event_id, external_id)
+);
+
+CREATE INDEX attendees_event_id_full_name_idx ON public.attendees (event_id, full_name);
+
+CREATE INDEX attendees_search_text_trgm_idx
+ON public.attendees USING gin (search_text extensions.gin_trgm_ops);
+
+ALTER TABLE public.attendees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view attendees"
+ON public.attendees
+FOR SELECT
+TO authenticated
+USING (public.is_staff());
+
+CREATE POLICY "Admins can manage attendees"
+ON public.attendees
+FOR ALL
+TO authenticated
+USING (public.has_staff_role('admin'))
+WITH CHECK (public.has_staff_role('admin'));
+
+-- Type-ahead for the capture form. Capture stations are anonymous and can't
+-- read the table, so this returns a few matches for one event and only the
+-- fields shown on the badge. Every word must match, in any order.
+CREATE OR REPLACE FUNCTION public.search_attendees(_event_id UUID, _query TEXT, _limit INTEGER DEFAULT 8)
+RETURNS TABLE (id UUID, full_name TEXT, role TEXT, company TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH terms AS (
+    SELECT array_agg('%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%') AS patterns
+    FROM regexp_split_to_table(public.search_normalize(trim(_query)), '\s+') AS term
+    WHERE term <> ''
+  )
+  SELECT a.id, a.full_name, a.role, a.company
+  FROM public.attendees a, terms
+  WHERE a.event_id = _event_id
+    AND length(trim(coalesce(_query, ''))) >= 2
+    AND a.search_text LIKE ALL (terms.patterns)
+  ORDER BY
+    public.search_normalize(a.full_name) LIKE public.search_normalize(trim(_query)) || '%' DESC,
+    similarity(a.search_text, public.search_normalize(_query)) DESC,
+    a.full_name
+  LIMIT least(greatest(_limit, 1), 20);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_attendees(UUID, TEXT, INTEGER) TO anon, authenticated;
+
+-- Photos link to the attendee they were taken for
+ALTER TABLE public.photos
+ADD COLUMN attendee_id UUID REFERENCES public.attendees(id) ON DELETE SET NULL;
+
+CREATE INDEX photos_attendee_id_idx ON public.photos (attendee_id);
+
+-- name and role of a linked photo come from the registry: the capture only
+-- sends attendee_id and the database fills them in, so search, sorting,
+-- realtime and badges keep working on the photo row alone. A role typed at
+-- the station is only kept when the registry has none. An attendee from
+-- another event is dropped rather than rejected, so a queued capture can
+-- never get stuck retrying.
+CREATE OR REPLACE FUNCTION public.photos_fill_from_attendee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _attendee public.attendees%ROWTYPE;
+BEGIN
+  IF NEW.attendee_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _attendee FROM public.attendees WHERE id = NEW.attendee_id;
+
+  IF NOT FOUND OR _attendee.event_id IS DISTINCT FROM NEW.event_id THEN
+    NEW.attendee_id := NULL;
+  ELSE
+    NEW.name := _attendee.full_name;
+    NEW.role := coalesce(_attendee.role, NEW.role);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER photos_fill_from_attendee
+BEFORE INSERT OR UPDATE OF attendee_id ON public.photos
+FOR EACH ROW
+EXECUTE FUNCTION public.photos_fill_from_attendee();
+
+-- Corrections to the registry reach the photos already taken
+CREATE OR REPLACE FUNCTION public.attendees_sync_photos()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.photos
+  SET name = NEW.full_name, role = coalesce(NEW.role, role)
+  WHERE attendee_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER attendees_sync_photos
+AFTER UPDATE OF full_name, role ON public.attendees
+FOR EACH ROW
+WHEN (OLD.full_name IS DISTINCT FROM NEW.full_name OR OLD.role IS DISTINCT FROM NEW.role)
+EXECUTE FUNCTION public.attendees_sync_photos();
@@ -0,0 +1,26 @@
+-- Ticket scanning at the capture station: the code on an attendee's e-ticket
+-- is looked up against the registration numbers of the event's registry.
+-- Like search_attendees, capture stations are anonymous and only get the
+-- fields shown on the badge back. Several candidates can be sent because
+-- ticket QR codes often wrap the number in a URL.
+CREATE OR REPLACE FUNCTION public.find_attendee_by_ticket(_event_id UUID, _codes TEXT[])
+RETURNS TABLE (id UUID, full_name TEXT, role TEXT, company TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.id, a.full_name, a.role, a.company
+  FROM public.attendees a
+  WHERE a.event_id = _event_id
+    AND a.external_id = ANY (_codes[1:5])
+  ORDER BY array_position(_codes, a.external_id)
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.find_attendee_by_ticket(UUID, TEXT[]) TO anon, authenticated;
+
+-- Photos whose name was typed at the station instead of coming from a
+-- scanned ticket or the registry type-ahead
+ALTER TABLE public.photos
+ADD COLUMN is_walk_in BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,12 @@
+-- Photo quality checks run on the capture station before saving: blur,
+-- exposure, face presence/centering and open eyes. quality holds the raw
+-- scores and per-check results; quality_level is the worst of them, so the
+-- management list can filter for captures that need a second look.
+-- Both stay null for photos taken before the checks existed.
+ALTER TABLE public.photos
+ADD COLUMN quality JSONB,
+ADD COLUMN quality_level TEXT CHECK (quality_level IN ('pass', 'warn', 'fail'));
+
+CREATE INDEX photos_quality_level_idx
+ON public.photos (quality_level, created_at DESC)
+WHERE quality_level IN ('warn', 'fail');
@@ -0,0 +1,10 @@
+-- Face-centred crop for the badge, derived from the original capture so the
+-- head size and eye line are the same on every badge. crop_path points to
+-- the rendered crop in the photos bucket (crops/...); crop_box keeps the
+-- rotation, flip and crop rectangle it was rendered with, so an operator can
+-- nudge it later, and whether it is still the automatic one.
+-- Both stay null when no face was found or the photo predates auto-cropping;
+-- the badge then uses the processed photo as before.
+ALTER TABLE public.photos
+ADD COLUMN crop_path TEXT,
+ADD COLUMN crop_box JSONB;
@@ -0,0 +1,12 @@
+-- Background replacement: per event, capture stations can cut the person out
+-- of the venue background and put them on a solid colour or an image
+-- (uploaded to badge-assets, backdrops/...). The result is saved next to the
+-- processed photo in backdrop_path; the processed photo itself keeps the
+-- real background so both can be compared in the management list.
+ALTER TABLE public.events
+ADD COLUMN backdrop_enabled BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN backdrop_color TEXT NOT NULL DEFAULT '#ffffff',
+ADD COLUMN backdrop_image_url TEXT;
+
+ALTER TABLE public.photos
+ADD COLUMN backdrop_path TEXT;
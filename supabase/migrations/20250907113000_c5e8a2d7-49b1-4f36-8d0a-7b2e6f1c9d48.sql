@@ -0,0 +1,161 @@
+-- Duplicate captures: with several stations running, the same attendee is
+-- sometimes photographed twice. Every new photo is compared with the other
+-- photos of its event, and likely duplicates are recorded as pairs for an
+-- operator to merge or dismiss. Merging archives one photo instead of
+-- deleting it.
+
+-- 64-bit difference hash of the processed photo, as 16 hex digits, computed
+-- by the capture station. Null for photos taken before it existed.
+ALTER TABLE public.photos
+ADD COLUMN image_hash TEXT CHECK (image_hash ~ '^[0-9a-f]{16}$'),
+ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN merged_into UUID REFERENCES public.photos(id) ON DELETE SET NULL;
+
+CREATE INDEX photos_event_id_active_idx
+ON public.photos (event_id, created_at DESC)
+WHERE archived_at IS NULL;
+
+-- Number of differing bits between two image hashes (0-64)
+CREATE OR REPLACE FUNCTION public.image_hash_distance(_a TEXT, _b TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+STRICT
+PARALLEL SAFE
+AS $$
+  SELECT bit_count(('x' || _a)::bit(64) # ('x' || _b)::bit(64))::integer;
+$$;
+
+CREATE TABLE public.photo_duplicates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+  -- The new capture and the earlier one it resembles
+  photo_id UUID NOT NULL REFERENCES public.photos(id) ON DELETE CASCADE,
+  duplicate_of UUID NOT NULL REFERENCES public.photos(id) ON DELETE CASCADE,
+  -- Trigram similarity of the normalised names (0-1), null without names
+  name_similarity REAL,
+  -- image_hash_distance of the two photos, null without hashes
+  hash_distance INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolution TEXT CHECK (resolution IN ('merged', 'dismissed')),
+  CONSTRAINT photo_duplicates_pair_key UNIQUE (photo_id, duplicate_of)
+);
+
+CREATE INDEX photo_duplicates_open_idx
+ON public.photo_duplicates (event_id, created_at DESC)
+WHERE resolved_at IS NULL;
+
+CREATE INDEX photo_duplicates_duplicate_of_idx ON public.photo_duplicates (duplicate_of);
+
+ALTER TABLE public.photo_duplicates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view photo duplicates"
+ON public.photo_duplicates
+FOR SELECT
+TO authenticated
+USING (public.is_staff());
+
+CREATE POLICY "Staff can resolve photo duplicates"
+ON public.photo_duplicates
+FOR UPDATE
+TO authenticated
+USING (public.is_staff())
+WITH CHECK (public.is_staff());
+
+-- A pair is likely the same attendee when both photos are linked to the same
+-- registry entry, when the names are close and the roles don't contradict
+-- each other, or when the images are nearly identical. Names alone miss
+-- typos in short names, so a looser name match also counts when the images
+-- are close.
+CREATE OR REPLACE FUNCTION public.photos_flag_duplicates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _name TEXT := nullif(public.search_normalize(trim(NEW.name)), '');
+  _role TEXT := nullif(public.search_normalize(trim(NEW.role)), '');
+BEGIN
+  INSERT INTO public.photo_duplicates (event_id, photo_id, duplicate_of, name_similarity, hash_distance)
+  SELECT NEW.event_id, NEW.id, candidate.id, candidate.name_similarity, candidate.hash_distance
+  FROM (
+    SELECT
+      p.id,
+      p.created_at,
+      p.attendee_id IS NOT NULL AND p.attendee_id = NEW.attendee_id AS same_attendee,
+      similarity(_name, nullif(public.search_normalize(trim(p.name)), '')) AS name_similarity,
+      coalesce(similarity(_role, nullif(public.search_normalize(trim(p.role)), '')), 1) AS role_similarity,
+      public.image_hash_distance(NEW.image_hash, p.image_hash) AS hash_distance
+    FROM public.photos p
+    WHERE p.event_id = NEW.event_id
+      AND p.id <> NEW.id
+      AND p.archived_at IS NULL
+  ) candidate
+  WHERE candidate.same_attendee
+    OR (candidate.name_similarity >= 0.6 AND candidate.role_similarity >= 0.4)
+    OR candidate.hash_distance <= 6
+    OR (candidate.hash_distance <= 12 AND candidate.name_similarity >= 0.4)
+  ORDER BY candidate.created_at DESC
+  LIMIT 5
+  ON CONFLICT ON CONSTRAINT photo_duplicates_pair_key DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER photos_flag_duplicates
+AFTER INSERT ON public.photos
+FOR EACH ROW
+WHEN (NEW.event_id IS NOT NULL)
+EXECUTE FUNCTION public.photos_flag_duplicates();
+
+-- Keeps one photo of a pair and archives the other. Details only the
+-- archived photo has (name, role, registry link) move to the kept one, and
+-- a badge already made from either photo still counts. Every open pair of
+-- the archived photo is closed.
+CREATE OR REPLACE FUNCTION public.merge_duplicate_photos(_keep_id UUID, _archive_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff() THEN
+    RAISE EXCEPTION 'Only staff can merge photos' USING ERRCODE = '42501';
+  END IF;
+
+  IF _keep_id = _archive_id THEN
+    RAISE EXCEPTION 'A photo cannot be merged into itself';
+  END IF;
+
+  UPDATE public.photos keep
+  SET
+    name = coalesce(keep.name, archived.name),
+    role = coalesce(keep.role, archived.role),
+    attendee_id = coalesce(keep.attendee_id, archived.attendee_id),
+    processed = keep.processed OR archived.processed,
+    printed_at = coalesce(keep.printed_at, archived.printed_at)
+  FROM public.photos archived
+  WHERE keep.id = _keep_id
+    AND archived.id = _archive_id
+    AND keep.archived_at IS NULL
+    AND archived.archived_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Photo not found or already archived' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.photos
+  SET archived_at = now(), merged_into = _keep_id
+  WHERE id = _archive_id;
+
+  UPDATE public.photo_duplicates
+  SET resolved_at = now(), resolution = 'merged'
+  WHERE resolved_at IS NULL
+    AND (photo_id = _archive_id OR duplicate_of = _archive_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_duplicate_photos(UUID, UUID) TO authenticated;
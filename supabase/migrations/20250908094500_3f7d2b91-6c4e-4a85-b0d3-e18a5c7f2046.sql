@@ -0,0 +1,270 @@
+-- Badge lifecycle: a photo goes from captured through review to a badge
+-- that is generated, printed and collected. The status replaces the
+-- processed flag, only changes through transition_photo_status, and every
+-- change is recorded with who made it and why.
+CREATE TYPE public.photo_status AS ENUM (
+  'captured',
+  'in_review',
+  'approved',
+  'rejected',
+  'badge_generated',
+  'printed',
+  'collected'
+);
+
+ALTER TABLE public.photos
+ADD COLUMN status public.photo_status NOT NULL DEFAULT 'captured';
+
+UPDATE public.photos
+SET status = CASE
+  WHEN printed_at IS NOT NULL THEN 'printed'::public.photo_status
+  WHEN processed THEN 'badge_generated'::public.photo_status
+  ELSE 'captured'::public.photo_status
+END;
+
+CREATE INDEX photos_event_id_status_idx
+ON public.photos (event_id, status)
+WHERE archived_at IS NULL;
+
+CREATE TABLE public.photo_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  photo_id UUID NOT NULL REFERENCES public.photos(id) ON DELETE CASCADE,
+  from_status public.photo_status NOT NULL,
+  to_status public.photo_status NOT NULL,
+  changed_by UUID REFERENCES public.staff(user_id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reason TEXT
+);
+
+CREATE INDEX photo_status_history_photo_id_idx
+ON public.photo_status_history (photo_id, changed_at DESC);
+
+ALTER TABLE public.photo_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by transition_photo_status and merge_duplicate_photos
+CREATE POLICY "Staff can view photo status history"
+ON public.photo_status_history
+FOR SELECT
+TO authenticated
+USING (public.is_staff());
+
+-- The allowed moves. Besides the steps forward, each step can be taken back
+-- to correct a mistake, and a rejected photo can be reconsidered. Photos can
+-- go straight from approved to printed when the badge is made on the sheet.
+CREATE OR REPLACE FUNCTION public.photo_status_transition_allowed(
+  _from public.photo_status,
+  _to public.photo_status
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+STRICT
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM (VALUES
+      ('captured', 'in_review'),
+      ('captured', 'approved'),
+      ('captured', 'rejected'),
+      ('in_review', 'captured'),
+      ('in_review', 'approved'),
+      ('in_review', 'rejected'),
+      ('approved', 'captured'),
+      ('approved', 'in_review'),
+      ('approved', 'rejected'),
+      ('approved', 'badge_generated'),
+      ('approved', 'printed'),
+      ('rejected', 'captured'),
+      ('rejected', 'in_review'),
+      ('rejected', 'approved'),
+      ('badge_generated', 'approved'),
+      ('badge_generated', 'printed'),
+      ('printed', 'approved'),
+      ('printed', 'badge_generated'),
+      ('printed', 'collected'),
+      ('collected', 'printed')
+    ) AS allowed (from_status, to_status)
+    WHERE allowed.from_status::public.photo_status = _from
+      AND allowed.to_status::public.photo_status = _to
+  );
+$$;
+
+-- The status column can't be written directly: new photos always start as
+-- captured, and updates must go through the functions below, which set
+-- app.photo_status_transition for the duration of their own update.
+CREATE OR REPLACE FUNCTION public.photos_guard_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF coalesce(current_setting('app.photo_status_transition', true), '') <> 'on' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.status := 'captured';
+    ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+      RAISE EXCEPTION 'Photo status can only change through transition_photo_status'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER photos_guard_status
+BEFORE INSERT OR UPDATE OF status ON public.photos
+FOR EACH ROW
+EXECUTE FUNCTION public.photos_guard_status();
+
+-- Moves photos to a new status and returns the ids that moved. Photos whose
+-- current status doesn't allow the move (including ones another operator
+-- just changed) are left alone, so callers compare the result with what
+-- they asked for.
+CREATE OR REPLACE FUNCTION public.transition_photo_status(
+  _photo_ids UUID[],
+  _to public.photo_status,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff() THEN
+    RAISE EXCEPTION 'Only staff can change photo status' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('app.photo_status_transition', 'on', true);
+
+  RETURN QUERY
+  WITH current_status AS (
+    -- Locked so a concurrent change is seen before deciding
+    SELECT p.id, p.status
+    FROM public.photos p
+    WHERE p.id = ANY(_photo_ids)
+      AND p.archived_at IS NULL
+    FOR UPDATE
+  ),
+  changed AS (
+    UPDATE public.photos p
+    SET status = _to
+    FROM current_status c
+    WHERE p.id = c.id
+      AND public.photo_status_transition_allowed(c.status, _to)
+    RETURNING p.id, c.status AS from_status
+  ),
+  logged AS (
+    INSERT INTO public.photo_status_history (photo_id, from_status, to_status, changed_by, reason)
+    SELECT changed.id, changed.from_status, _to, auth.uid(), nullif(trim(_reason), '')
+    FROM changed
+    RETURNING photo_id
+  )
+  SELECT logged.photo_id FROM logged;
+
+  PERFORM set_config('app.photo_status_transition', '', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.transition_photo_status(UUID[], public.photo_status, TEXT) TO authenticated;
+
+-- Number of photos per status with the list's filters applied (mirrors
+-- buildPhotosQuery in the app). Runs with the caller's rights, so RLS
+-- limits it to staff like the list itself.
+CREATE OR REPLACE FUNCTION public.photo_status_counts(
+  _event_id UUID DEFAULT NULL,
+  _terms TEXT[] DEFAULT '{}',
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _quality_levels TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (status public.photo_status, total INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.status, count(*)::integer
+  FROM public.photos p
+  WHERE p.archived_at IS NULL
+    AND (_event_id IS NULL OR p.event_id = _event_id)
+    AND (_from IS NULL OR p.created_at >= _from)
+    AND (_to IS NULL OR p.created_at < _to)
+    AND (_quality_levels IS NULL OR p.quality_level = ANY(_quality_levels))
+    AND NOT EXISTS (
+      SELECT 1
+      FROM unnest(coalesce(_terms, '{}')) AS term
+      WHERE NOT (
+        coalesce(p.name, '') ILIKE '%' || term || '%'
+        OR coalesce(p.role, '') ILIKE '%' || term || '%'
+        OR coalesce(p.file_path, '') ILIKE '%' || term || '%'
+      )
+    )
+  GROUP BY p.status;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.photo_status_counts(UUID, TEXT[], TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT[]) TO authenticated;
+
+-- Same as before, but a badge already made from the archived photo now
+-- carries its status over to the kept photo, recorded in the history.
+CREATE OR REPLACE FUNCTION public.merge_duplicate_photos(_keep_id UUID, _archive_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _keep_status public.photo_status;
+  _archived_status public.photo_status;
+BEGIN
+  IF NOT public.is_staff() THEN
+    RAISE EXCEPTION 'Only staff can merge photos' USING ERRCODE = '42501';
+  END IF;
+
+  IF _keep_id = _archive_id THEN
+    RAISE EXCEPTION 'A photo cannot be merged into itself';
+  END IF;
+
+  SELECT keep.status, archived.status
+  INTO _keep_status, _archived_status
+  FROM public.photos keep, public.photos archived
+  WHERE keep.id = _keep_id
+    AND archived.id = _archive_id
+    AND keep.archived_at IS NULL
+    AND archived.archived_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Photo not found or already archived' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _archived_status >= 'badge_generated' AND _archived_status > _keep_status THEN
+    PERFORM set_config('app.photo_status_transition', 'on', true);
+    INSERT INTO public.photo_status_history (photo_id, from_status, to_status, changed_by, reason)
+    VALUES (_keep_id, _keep_status, _archived_status, auth.uid(), 'Junção de fotos duplicadas');
+  ELSE
+    _archived_status := _keep_status;
+  END IF;
+
+  UPDATE public.photos keep
+  SET
+    name = coalesce(keep.name, archived.name),
+    role = coalesce(keep.role, archived.role),
+    attendee_id = coalesce(keep.attendee_id, archived.attendee_id),
+    status = _archived_status,
+    printed_at = coalesce(keep.printed_at, archived.printed_at)
+  FROM public.photos archived
+  WHERE keep.id = _keep_id
+    AND archived.id = _archive_id;
+
+  PERFORM set_config('app.photo_status_transition', '', true);
+
+  UPDATE public.photos
+  SET archived_at = now(), merged_into = _keep_id
+  WHERE id = _archive_id;
+
+  UPDATE public.photo_duplicates
+  SET resolved_at = now(), resolution = 'merged'
+  WHERE resolved_at IS NULL
+    AND (photo_id = _archive_id OR duplicate_of = _archive_id);
+END;
+$$;
+
+ALTER TABLE public.photos DROP COLUMN processed;
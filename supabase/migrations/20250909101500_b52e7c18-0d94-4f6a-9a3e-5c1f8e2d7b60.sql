@@ -0,0 +1,59 @@
+-- Reject and retake: a rejected photo is sent back to the capture station
+-- that took it, and the new capture replaces it. The rejected photo is
+-- archived rather than deleted, so its status history stays available from
+-- the retake.
+
+-- Random id each capture tablet keeps in its browser storage
+ALTER TABLE public.photos
+ADD COLUMN station_id UUID,
+ADD COLUMN retake_of UUID REFERENCES public.photos(id) ON DELETE SET NULL;
+
+CREATE INDEX photos_retake_of_idx
+ON public.photos (retake_of)
+WHERE retake_of IS NOT NULL;
+
+-- Pairs closed because one of the photos was replaced by a retake
+ALTER TABLE public.photo_duplicates
+DROP CONSTRAINT photo_duplicates_resolution_check;
+
+ALTER TABLE public.photo_duplicates
+ADD CONSTRAINT photo_duplicates_resolution_check
+CHECK (resolution IN ('merged', 'dismissed', 'replaced'));
+
+-- Captures are inserted anonymously, so retake_of is only honoured when it
+-- names a rejected photo of the same event; anything else is dropped. The
+-- rejected photo is archived before the new row exists, so the duplicate
+-- check doesn't pair the retake with the photo it replaces.
+CREATE OR REPLACE FUNCTION public.photos_replace_rejected()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.photos
+  SET archived_at = now()
+  WHERE id = NEW.retake_of
+    AND status = 'rejected'
+    AND archived_at IS NULL
+    AND event_id IS NOT DISTINCT FROM NEW.event_id;
+
+  IF NOT FOUND THEN
+    NEW.retake_of := NULL;
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.photo_duplicates
+  SET resolved_at = now(), resolution = 'replaced'
+  WHERE resolved_at IS NULL
+    AND (photo_id = NEW.retake_of OR duplicate_of = NEW.retake_of);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER photos_replace_rejected
+BEFORE INSERT ON public.photos
+FOR EACH ROW
+WHEN (NEW.retake_of IS NOT NULL)
+EXECUTE FUNCTION public.photos_replace_rejected();
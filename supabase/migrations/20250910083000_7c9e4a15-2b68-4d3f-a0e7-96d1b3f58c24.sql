@@ -0,0 +1,157 @@
+-- Audit log: who did what to each photo. Data changes are written by a
+-- trigger on public.photos; actions that leave no trace in the database
+-- (downloads, copied links, opening the badge generator) are reported by
+-- the app through log_photo_action. Rows can be added but never changed or
+-- removed, and only admins can read them.
+CREATE TABLE public.audit_events (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Signed-in user, null for anonymous captures. The email is copied so the
+  -- entry still reads correctly after the staff row is removed.
+  actor_id UUID,
+  actor_email TEXT,
+  -- Capture station that took the photo, for captures
+  station_id UUID,
+  -- User agent of the request
+  device TEXT,
+  -- Not a foreign key: entries outlive the photos they describe
+  photo_id UUID,
+  action TEXT NOT NULL,
+  -- Changed columns only for updates, the whole row for inserts and deletes,
+  -- and any details the app sent for its own actions (in after)
+  before JSONB,
+  after JSONB
+);
+
+CREATE INDEX audit_events_occurred_at_idx ON public.audit_events (occurred_at DESC);
+CREATE INDEX audit_events_photo_id_idx ON public.audit_events (photo_id, occurred_at DESC);
+CREATE INDEX audit_events_actor_id_idx ON public.audit_events (actor_id, occurred_at DESC);
+
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view audit events"
+ON public.audit_events
+FOR SELECT
+TO authenticated
+USING (public.has_staff_role('admin'));
+
+CREATE OR REPLACE FUNCTION public.audit_events_append_only()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER audit_events_append_only
+BEFORE UPDATE OR DELETE ON public.audit_events
+FOR EACH ROW
+EXECUTE FUNCTION public.audit_events_append_only();
+
+CREATE TRIGGER audit_events_no_truncate
+BEFORE TRUNCATE ON public.audit_events
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.audit_events_append_only();
+
+-- Adds one entry with the current user and device. Only called from the
+-- trigger and functions below, never directly by clients.
+CREATE OR REPLACE FUNCTION public.record_audit_event(
+  _action TEXT,
+  _photo_id UUID,
+  _station_id UUID DEFAULT NULL,
+  _before JSONB DEFAULT NULL,
+  _after JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.audit_events (actor_id, actor_email, station_id, device, photo_id, action, before, after)
+  VALUES (
+    auth.uid(),
+    (SELECT email FROM public.staff WHERE user_id = auth.uid()),
+    _station_id,
+    left(nullif(current_setting('request.headers', true), '')::json ->> 'user-agent', 300),
+    _photo_id,
+    _action,
+    _before,
+    _after
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_audit_event(TEXT, UUID, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.photos_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _before JSONB;
+  _after JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.record_audit_event('photo_created', NEW.id, NEW.station_id, NULL, to_jsonb(NEW));
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM public.record_audit_event('photo_deleted', OLD.id, NULL, to_jsonb(OLD), NULL);
+  ELSE
+    SELECT jsonb_object_agg(old_value.key, old_value.value), jsonb_object_agg(new_value.key, new_value.value)
+    INTO _before, _after
+    FROM jsonb_each(to_jsonb(OLD)) AS old_value
+    JOIN jsonb_each(to_jsonb(NEW)) AS new_value USING (key)
+    WHERE old_value.value IS DISTINCT FROM new_value.value;
+
+    -- Updates that didn't change anything are left out
+    IF _after IS NOT NULL THEN
+      PERFORM public.record_audit_event('photo_updated', NEW.id, NULL, _before, _after);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER photos_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.photos
+FOR EACH ROW
+EXECUTE FUNCTION public.photos_audit();
+
+-- Records an action the app performed on photos, one entry per photo
+CREATE OR REPLACE FUNCTION public.log_photo_action(
+  _action TEXT,
+  _photo_ids UUID[],
+  _details JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _photo_id UUID;
+BEGIN
+  IF NOT public.is_staff() THEN
+    RAISE EXCEPTION 'Only staff can log photo actions' USING ERRCODE = '42501';
+  END IF;
+
+  IF _action NOT IN ('photo_downloaded', 'photo_link_copied', 'photo_opened_in_generator', 'photo_exported') THEN
+    RAISE EXCEPTION 'Unknown photo action: %', _action USING ERRCODE = '22023';
+  END IF;
+
+  IF coalesce(array_length(_photo_ids, 1), 0) > 5000 THEN
+    RAISE EXCEPTION 'Too many photos in one audit entry' USING ERRCODE = '22023';
+  END IF;
+
+  FOREACH _photo_id IN ARRAY coalesce(_photo_ids, '{}')
+  LOOP
+    PERFORM public.record_audit_event(_action, _photo_id, NULL, NULL, _details);
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.log_photo_action(TEXT, UUID[], JSONB) TO authenticated;
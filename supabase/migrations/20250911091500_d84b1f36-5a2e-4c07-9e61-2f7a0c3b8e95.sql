@@ -0,0 +1,206 @@
+-- Capture station registry. An admin creates a station and shows its
+-- pairing QR; the tablet that opens it receives a device token, which it
+-- sends with every capture and with a periodic heartbeat. Only the token's
+-- hash is stored.
+CREATE TABLE public.capture_stations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  -- Event the tablet opens after pairing
+  event_id UUID REFERENCES public.events(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES public.staff(user_id) ON DELETE SET NULL,
+  -- One-time code in the QR, valid for a few minutes
+  pairing_code TEXT UNIQUE,
+  pairing_expires_at TIMESTAMP WITH TIME ZONE,
+  token_hash TEXT UNIQUE,
+  paired_at TIMESTAMP WITH TIME ZONE,
+  -- Last heartbeat
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  battery_level REAL CHECK (battery_level BETWEEN 0 AND 1),
+  battery_charging BOOLEAN,
+  is_online BOOLEAN,
+  queue_depth INTEGER CHECK (queue_depth >= 0),
+  app_version TEXT
+);
+
+CREATE INDEX capture_stations_event_id_idx ON public.capture_stations (event_id);
+
+ALTER TABLE public.capture_stations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view capture stations"
+ON public.capture_stations
+FOR SELECT
+TO authenticated
+USING (public.is_staff());
+
+CREATE POLICY "Admins can manage capture stations"
+ON public.capture_stations
+FOR ALL
+TO authenticated
+USING (public.has_staff_role('admin'))
+WITH CHECK (public.has_staff_role('admin'));
+
+-- Until now station_id was a random id each tablet made up for itself. Those
+-- ids don't name a registered station, so they are cleared.
+UPDATE public.photos
+SET station_id = NULL
+WHERE station_id IS NOT NULL;
+
+ALTER TABLE public.photos
+ADD CONSTRAINT photos_station_id_fkey
+FOREIGN KEY (station_id) REFERENCES public.capture_stations(id) ON DELETE SET NULL;
+
+CREATE INDEX photos_station_id_idx
+ON public.photos (station_id)
+WHERE station_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.hash_station_token(_token TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(_token, 'UTF8')), 'hex');
+$$;
+
+-- Station whose token came in the x-station-token header of the current
+-- request, or null
+CREATE OR REPLACE FUNCTION public.request_station_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.capture_stations
+  WHERE token_hash = public.hash_station_token(
+    nullif(current_setting('request.headers', true), '')::json ->> 'x-station-token'
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_station_id() FROM PUBLIC, anon, authenticated;
+
+-- The station of a capture comes from its token, never from the row the
+-- tablet sent. Fires before the other insert triggers (alphabetical order).
+CREATE OR REPLACE FUNCTION public.photos_assign_station()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.station_id := public.request_station_id();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER photos_assign_station
+BEFORE INSERT ON public.photos
+FOR EACH ROW
+EXECUTE FUNCTION public.photos_assign_station();
+
+-- New pairing code for a station. The tablet paired before, if any, loses
+-- its token straight away.
+CREATE OR REPLACE FUNCTION public.start_station_pairing(_station_id UUID)
+RETURNS TABLE (pairing_code TEXT, pairing_expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_staff_role('admin') THEN
+    RAISE EXCEPTION 'Only admins can pair capture stations' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.capture_stations AS station
+  SET pairing_code = replace(gen_random_uuid()::text, '-', ''),
+      pairing_expires_at = now() + interval '15 minutes',
+      token_hash = NULL,
+      paired_at = NULL
+  WHERE station.id = _station_id
+  RETURNING station.pairing_code, station.pairing_expires_at;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_station_pairing(UUID) TO authenticated;
+
+-- Called by the tablet that opened the pairing QR. Returns the device token
+-- once; the code can't be used again.
+CREATE OR REPLACE FUNCTION public.pair_capture_station(_code TEXT)
+RETURNS TABLE (station_id UUID, token TEXT, name TEXT, event_id UUID, event_slug TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _station public.capture_stations;
+  _token TEXT := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+BEGIN
+  UPDATE public.capture_stations AS station
+  SET pairing_code = NULL,
+      pairing_expires_at = NULL,
+      token_hash = public.hash_station_token(_token),
+      paired_at = now(),
+      last_seen_at = now()
+  WHERE station.pairing_code = _code
+    AND station.pairing_expires_at > now()
+  RETURNING * INTO _station;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid or expired pairing code' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT _station.id, _token, _station.name, _station.event_id,
+    (SELECT slug FROM public.events WHERE id = _station.event_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.pair_capture_station(TEXT) TO anon, authenticated;
+
+-- Periodic report from a paired tablet. Returns the station's current name
+-- and event, or no row when the token is no longer valid (the station was
+-- paired again or deleted).
+CREATE OR REPLACE FUNCTION public.station_heartbeat(
+  _token TEXT,
+  _battery_level REAL DEFAULT NULL,
+  _battery_charging BOOLEAN DEFAULT NULL,
+  _is_online BOOLEAN DEFAULT NULL,
+  _queue_depth INTEGER DEFAULT NULL,
+  _app_version TEXT DEFAULT NULL
+)
+RETURNS TABLE (station_id UUID, name TEXT, event_id UUID, event_slug TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.capture_stations AS station
+  SET last_seen_at = now(),
+      battery_level = _battery_level,
+      battery_charging = _battery_charging,
+      is_online = _is_online,
+      queue_depth = greatest(_queue_depth, 0),
+      app_version = left(_app_version, 40)
+  WHERE station.token_hash = public.hash_station_token(_token)
+  RETURNING station.id, station.name, station.event_id,
+    (SELECT slug FROM public.events WHERE id = station.event_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.station_heartbeat(TEXT, REAL, BOOLEAN, BOOLEAN, INTEGER, TEXT) TO anon, authenticated;
+
+-- Captures per station for the dashboard, archived photos left out
+CREATE OR REPLACE FUNCTION public.capture_station_counts()
+RETURNS TABLE (station_id UUID, total BIGINT, last_capture_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT station_id, count(*), max(created_at)
+  FROM public.photos
+  WHERE station_id IS NOT NULL
+    AND archived_at IS NULL
+  GROUP BY station_id;
+$$;
@@ -0,0 +1,20 @@
+-- Captures now go through the submit-capture edge function, which checks the
+-- station token, a per-station rate limit and the uploaded files before
+-- writing with the service role. Anonymous clients lose the last write
+-- access they had to photos and the photos bucket.
+DROP POLICY "Anyone can insert photos" ON public.photos;
+DROP POLICY "Anyone can upload photos" ON storage.objects;
+
+-- Staff still upload adjusted badge crops from the photo list
+CREATE POLICY "Staff can upload photos in bucket"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'photos' AND public.is_staff());
+
+-- Rate limit lookups count a station's recent photos
+CREATE INDEX photos_station_id_created_at_idx
+ON public.photos (station_id, created_at DESC)
+WHERE station_id IS NOT NULL;
+
+DROP INDEX public.photos_station_id_idx;
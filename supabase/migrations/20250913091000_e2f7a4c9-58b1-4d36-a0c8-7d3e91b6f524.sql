@@ -0,0 +1,30 @@
+-- Attendee photos are no longer public. The photos bucket becomes private
+-- and the app reads every file through short-lived signed URLs made from
+-- the stored path, so the permanent public URL in file_url goes away.
+
+-- The first captures only stored the public URL; the path is its tail
+UPDATE public.photos
+SET file_path = substring(file_url FROM '/storage/v1/object/public/photos/(.+)$')
+WHERE file_path IS NULL
+  AND file_url ~ '/storage/v1/object/public/photos/.+$';
+
+DO $$
+DECLARE
+  _missing BIGINT;
+BEGIN
+  SELECT count(*) INTO _missing FROM public.photos WHERE file_path IS NULL;
+  IF _missing > 0 THEN
+    RAISE EXCEPTION '% photos have no file_path and a file_url outside the photos bucket; fix them before making the bucket private', _missing;
+  END IF;
+END;
+$$;
+
+ALTER TABLE public.photos
+ALTER COLUMN file_path SET NOT NULL;
+
+ALTER TABLE public.photos
+DROP COLUMN file_url;
+
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'photos';
@@ -0,0 +1,8 @@
+-- Downscaled copies of the photo shown in the management list: the small
+-- one for the grid, the medium one where two photos are compared. The
+-- capture tablet makes them from the same edit as the processed photo;
+-- older photos get them from the bulk action in the list and show the
+-- full photo until then.
+ALTER TABLE public.photos
+ADD COLUMN thumb_small_path TEXT,
+ADD COLUMN thumb_medium_path TEXT;
@@ -0,0 +1,75 @@
+-- The capture type-ahead and the ticket lookup read the registry for
+-- anonymous callers, and event ids aren't secret, so anyone with the public
+-- anon key could list an event's attendees two letters at a time. They now
+-- only answer staff and the paired capture stations of that event, which
+-- send their token in the x-station-token header. The company isn't on the
+-- badge, so it is no longer returned.
+CREATE OR REPLACE FUNCTION public.can_look_up_attendees(_event_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_staff()
+    OR EXISTS (
+      SELECT 1
+      FROM public.capture_stations
+      WHERE id = public.request_station_id()
+        AND event_id = _event_id
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_look_up_attendees(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The result type changes, so the functions are dropped and recreated
+DROP FUNCTION public.search_attendees(UUID, TEXT, INTEGER);
+DROP FUNCTION public.find_attendee_by_ticket(UUID, TEXT[]);
+
+CREATE FUNCTION public.search_attendees(_event_id UUID, _query TEXT, _limit INTEGER DEFAULT 8)
+RETURNS TABLE (id UUID, full_name TEXT, role TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH terms AS (
+    SELECT array_agg('%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%') AS patterns
+    FROM regexp_split_to_table(public.search_normalize(trim(_query)), '\s+') AS term
+    WHERE term <> ''
+  )
+  SELECT a.id, a.full_name, a.role
+  FROM public.attendees a, terms
+  WHERE a.event_id = _event_id
+    AND public.can_look_up_attendees(_event_id)
+    AND length(trim(coalesce(_query, ''))) >= 2
+    AND a.search_text LIKE ALL (terms.patterns)
+  ORDER BY
+    public.search_normalize(a.full_name) LIKE public.search_normalize(trim(_query)) || '%' DESC,
+    similarity(a.search_text, public.search_normalize(_query)) DESC,
+    a.full_name
+  LIMIT least(greatest(_limit, 1), 20);
+$$;
+
+CREATE FUNCTION public.find_attendee_by_ticket(_event_id UUID, _codes TEXT[])
+RETURNS TABLE (id UUID, full_name TEXT, role TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.id, a.full_name, a.role
+  FROM public.attendees a
+  WHERE a.event_id = _event_id
+    AND public.can_look_up_attendees(_event_id)
+    AND a.external_id = ANY (_codes[1:5])
+  ORDER BY array_position(_codes, a.external_id)
+  LIMIT 1;
+$$;
+
+-- Stations call as anon, so anon keeps EXECUTE; without a matching token
+-- the functions return nothing
+REVOKE EXECUTE ON FUNCTION public.search_attendees(UUID, TEXT, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.find_attendee_by_ticket(UUID, TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_attendees(UUID, TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_attendee_by_ticket(UUID, TEXT[]) TO anon, authenticated;
@@ -0,0 +1,6 @@
+-- Photos with the background replaced show both versions side by side in
+-- the list card, so they also get a small thumbnail of the processed photo
+-- with the real background. Empty for photos without a backdrop version,
+-- whose small thumbnail already is the processed photo.
+ALTER TABLE public.photos
+ADD COLUMN thumb_processed_path TEXT;
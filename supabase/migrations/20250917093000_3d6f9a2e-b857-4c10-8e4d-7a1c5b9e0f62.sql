@@ -0,0 +1,42 @@
+-- Per-station capture counter for submit-capture's rate limit. Counting the
+-- station's recent photos and then inserting let parallel requests all pass
+-- the check; incrementing one row per station and minute is atomic, because
+-- concurrent upserts on the same row wait for each other.
+CREATE TABLE public.capture_rate_limits (
+  station_id UUID NOT NULL REFERENCES public.capture_stations(id) ON DELETE CASCADE,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  captures INTEGER NOT NULL,
+  PRIMARY KEY (station_id, window_start)
+);
+
+-- Only the service role uses it, through take_capture_slot
+ALTER TABLE public.capture_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Counts a capture for the station in the current minute and says whether
+-- it is still within the limit. Older minutes are dropped as it goes.
+CREATE OR REPLACE FUNCTION public.take_capture_slot(_station_id UUID, _limit INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _window TIMESTAMP WITH TIME ZONE := date_trunc('minute', now());
+  _captures INTEGER;
+BEGIN
+  DELETE FROM public.capture_rate_limits
+  WHERE station_id = _station_id
+    AND window_start < _window;
+
+  INSERT INTO public.capture_rate_limits (station_id, window_start, captures)
+  VALUES (_station_id, _window, 1)
+  ON CONFLICT (station_id, window_start)
+  DO UPDATE SET captures = public.capture_rate_limits.captures + 1
+  RETURNING captures INTO _captures;
+
+  RETURN _captures <= _limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.take_capture_slot(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.take_capture_slot(UUID, INTEGER) TO service_role;
@@ -0,0 +1,89 @@
+-- Retake requests went out on a public Realtime broadcast channel named after
+-- the station, so anyone with the anon key and a station id could read the
+-- attendee's name or send a station fake prompts. Realtime can't check the
+-- station token, so the requests are now stored and the tablet fetches them
+-- with its token, like the rest of the station API. A stored request also
+-- reaches a station that was closed or offline when the photo was rejected.
+CREATE TABLE public.retake_requests (
+  -- One request per rejected photo; asking again replaces it
+  photo_id UUID NOT NULL PRIMARY KEY REFERENCES public.photos(id) ON DELETE CASCADE,
+  station_id UUID NOT NULL REFERENCES public.capture_stations(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('blurry', 'eyes_closed', 'wrong_person', 'wrong_name')),
+  requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  requested_by UUID REFERENCES public.staff(user_id) ON DELETE SET NULL DEFAULT auth.uid(),
+  -- Set when the tablet takes the retake or ignores the request
+  dismissed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX retake_requests_station_id_pending_idx
+ON public.retake_requests (station_id, requested_at)
+WHERE dismissed_at IS NULL;
+
+ALTER TABLE public.retake_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view retake requests"
+ON public.retake_requests
+FOR SELECT
+TO authenticated
+USING (public.is_staff());
+
+CREATE POLICY "Staff can request retakes"
+ON public.retake_requests
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_staff());
+
+CREATE POLICY "Staff can renew retake requests"
+ON public.retake_requests
+FOR UPDATE
+TO authenticated
+USING (public.is_staff())
+WITH CHECK (public.is_staff());
+
+-- Pending requests of the station whose token came in the x-station-token
+-- header, oldest first. Requests for photos of another event than the
+-- station's, and those a retake has already answered, are left out.
+CREATE OR REPLACE FUNCTION public.station_retake_requests()
+RETURNS TABLE (
+  photo_id UUID,
+  event_id UUID,
+  reason TEXT,
+  attendee_id UUID,
+  name TEXT,
+  role TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.photo_id, p.event_id, r.reason, p.attendee_id, p.name, p.role
+  FROM public.retake_requests r
+  JOIN public.photos p ON p.id = r.photo_id
+  JOIN public.capture_stations s ON s.id = r.station_id
+  WHERE r.station_id = public.request_station_id()
+    AND r.dismissed_at IS NULL
+    AND p.event_id IS NOT DISTINCT FROM s.event_id
+    AND NOT EXISTS (SELECT 1 FROM public.photos retake WHERE retake.retake_of = r.photo_id)
+  ORDER BY r.requested_at;
+$$;
+
+-- Marks one of the calling station's requests as handled
+CREATE OR REPLACE FUNCTION public.dismiss_retake_request(_photo_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.retake_requests
+  SET dismissed_at = now()
+  WHERE photo_id = _photo_id
+    AND station_id = public.request_station_id()
+    AND dismissed_at IS NULL;
+$$;
+
+-- Stations call as anon; without a matching token both do nothing
+REVOKE EXECUTE ON FUNCTION public.station_retake_requests() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.dismiss_retake_request(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.station_retake_requests() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.dismiss_retake_request(UUID) TO anon, authenticated;
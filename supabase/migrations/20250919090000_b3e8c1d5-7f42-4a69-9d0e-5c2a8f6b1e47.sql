@@ -0,0 +1,70 @@
+-- Same as before, but both photos must belong to the same event: merging
+-- across events would attach one event's attendee and status to another
+-- event's photo. Checked before any row is changed.
+CREATE OR REPLACE FUNCTION public.merge_duplicate_photos(_keep_id UUID, _archive_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _keep_status public.photo_status;
+  _archived_status public.photo_status;
+  _same_event BOOLEAN;
+BEGIN
+  IF NOT public.is_staff() THEN
+    RAISE EXCEPTION 'Only staff can merge photos' USING ERRCODE = '42501';
+  END IF;
+
+  IF _keep_id = _archive_id THEN
+    RAISE EXCEPTION 'A photo cannot be merged into itself';
+  END IF;
+
+  SELECT keep.status, archived.status, keep.event_id IS NOT DISTINCT FROM archived.event_id
+  INTO _keep_status, _archived_status, _same_event
+  FROM public.photos keep, public.photos archived
+  WHERE keep.id = _keep_id
+    AND archived.id = _archive_id
+    AND keep.archived_at IS NULL
+    AND archived.archived_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Photo not found or already archived' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT _same_event THEN
+    RAISE EXCEPTION 'Photos of different events cannot be merged' USING ERRCODE = '22023';
+  END IF;
+
+  IF _archived_status >= 'badge_generated' AND _archived_status > _keep_status THEN
+    PERFORM set_config('app.photo_status_transition', 'on', true);
+    INSERT INTO public.photo_status_history (photo_id, from_status, to_status, changed_by, reason)
+    VALUES (_keep_id, _keep_status, _archived_status, auth.uid(), 'Junção de fotos duplicadas');
+  ELSE
+    _archived_status := _keep_status;
+  END IF;
+
+  UPDATE public.photos keep
+  SET
+    name = coalesce(keep.name, archived.name),
+    role = coalesce(keep.role, archived.role),
+    attendee_id = coalesce(keep.attendee_id, archived.attendee_id),
+    status = _archived_status,
+    printed_at = coalesce(keep.printed_at, archived.printed_at)
+  FROM public.photos archived
+  WHERE keep.id = _keep_id
+    AND archived.id = _archive_id;
+
+  PERFORM set_config('app.photo_status_transition', '', true);
+
+  UPDATE public.photos
+  SET archived_at = now(), merged_into = _keep_id
+  WHERE id = _archive_id;
+
+  UPDATE public.photo_duplicates
+  SET resolved_at = now(), resolution = 'merged'
+  WHERE resolved_at IS NULL
+    AND (photo_id = _archive_id OR duplicate_of = _archive_id);
+END;
+$$;
@@ -1,8 +1,34 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Lists every file of the build in precache-manifest.json, so the service
+// worker can cache all of them at install: the lazy chunks and the face
+// model, segmentation and barcode WASM files the capture page needs offline
+// would otherwise only be cached once fetched with the worker in control.
+const precacheManifest = (): Plugin => {
+  let base = '/';
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      base = config.base;
+    },
+    generateBundle(_options, bundle) {
+      const urls = Object.keys(bundle)
+        .filter(fileName => !fileName.endsWith('.map') && fileName !== 'index.html')
+        .map(fileName => base + fileName);
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.json',
+        source: JSON.stringify(urls),
+      });
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,9 +37,14 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    precacheManifest(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),
+  define: {
+    // Reported by the capture stations; the build time tells deployments apart
+    __APP_VERSION__: JSON.stringify(new Date().toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '.')),
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),